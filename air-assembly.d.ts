@@ -43,6 +43,15 @@ declare module '@guildofweavers/air-assembly' {
         extensionFactor: number;
     }
 
+    export interface CompilerOptions {
+        /**
+         * If set to true, semantic errors (e.g. dimension mismatches or references to undeclared
+         * handles) do not stop compilation; instead, all errors in the source code are collected and
+         * thrown together in a single AssemblyError. Defaults to false.
+         */
+        collectErrors: boolean;
+    }
+
     // PUBLIC FUNCTIONS
     // --------------------------------------------------------------------------------------------
 
@@ -50,15 +59,18 @@ declare module '@guildofweavers/air-assembly' {
      * Parses and compiles AirAssembly source code into an AirSchema object
      * @param path Path to the file containing AirAssembly source code
      * @param limits StarkLimits object against which the schema should be validated
+     * @param options Additional options for the compiler
      */
-    export function compile(path: string, limits?: Partial<StarkLimits>): AirSchema;
+    export function compile(path: string, limits?: Partial<StarkLimits>, options?: Partial<CompilerOptions>): AirSchema;
 
     /**
      * * Parses and compiles AirAssembly source code into an AirSchema object
-     * @param source Buffer with AirAssembly source code (encoded in UTF8)
+     * @param source Buffer with AirAssembly source code (encoded in UTF8); modules imported by the
+     * source code are resolved relative to the current working directory
      * @param limits StarkLimits object against which the schema should be validated
+     * @param options Additional options for the compiler
      */
-    export function compile(source: Buffer, limits?: Partial<StarkLimits>): AirSchema;
+    export function compile(source: Buffer, limits?: Partial<StarkLimits>, options?: Partial<CompilerOptions>): AirSchema;
 
     /**
      * Creates an AirModule object for the defaulted schema component
@@ -83,6 +95,59 @@ declare module '@guildofweavers/air-assembly' {
      */
     export function analyze(schema: AirSchema, component: string): ComponentAnalysisResult;
 
+    /**
+     * Creates a new AirSchema which is semantically equivalent to the provided schema but has
+     * redundant operations, locals, and constants removed.
+     * @param schema Schema to optimize
+     */
+    export function optimize(schema: AirSchema): AirSchema;
+
+    /**
+     * Re-emits AirAssembly source code in canonical layout; comments are preserved, and formatted
+     * source code compiles to a schema identical to the schema of the original source code
+     * @param path Path to the file containing AirAssembly source code
+     */
+    export function format(path: string): string;
+
+    /**
+     * Re-emits AirAssembly source code in canonical layout; comments are preserved, and formatted
+     * source code compiles to a schema identical to the schema of the original source code
+     * @param source Buffer with AirAssembly source code (encoded in UTF8)
+     */
+    export function format(source: Buffer): string;
+
+    /**
+     * Encodes the schema into a compact binary format; the encoding is deterministic, and thus,
+     * the same schema is always serialized into the same sequence of bytes
+     * @param schema Schema to serialize
+     */
+    export function serialize(schema: AirSchema): Buffer;
+
+    /**
+     * Decodes a schema serialized via serialize() function; the decoded schema is validated in
+     * the same way as a schema compiled from source code
+     * @param buffer Buffer with a serialized schema
+     */
+    export function deserialize(buffer: Buffer): AirSchema;
+
+    /**
+     * Creates a new procedure in which local variables loaded only once are inlined into their
+     * consumers, unused local variables are removed, and remaining local variables are renumbered.
+     * @param procedure Procedure to compress
+     * @param context A new context for a procedure with the same name; the context must belong to
+     * a component of the schema which contains the procedure
+     */
+    export function compressProcedure(procedure: AirProcedure, context: ProcedureContext): AirProcedure;
+
+    /**
+     * Creates a copy of the schema in which the specified procedure of the specified component is
+     * compressed; all other procedures are copied as is. The returned schema can be instantiated.
+     * @param schema Schema which contains the procedure
+     * @param component Name of the component which contains the procedure
+     * @param procedure Name of the procedure to compress
+     */
+    export function compressProcedure(schema: AirSchema, component: string, procedure: ProcedureName): AirSchema;
+
     // AIR SCHEMA
     // --------------------------------------------------------------------------------------------
     export class AirSchema {
@@ -106,12 +171,23 @@ declare module '@guildofweavers/air-assembly' {
          */
         constructor(fieldType: 'prime', fieldModulus: bigint);
 
+        /**
+         * Creates a new AirSchema object over an extension of a prime field
+         * @param fieldType Type of the finite field
+         * @param fieldModulus Modulus of the base prime field
+         * @param extensionDegree Degree of the extension
+         * @param extensionPolynomial Coefficients c0, ..., c(n-1) of an irreducible polynomial
+         * x^n + c(n-1)*x^(n-1) + ... + c0 defining the extension; if omitted, the polynomial is
+         * chosen automatically
+         */
+        constructor(fieldType: 'extension', fieldModulus: bigint, extensionDegree: number, extensionPolynomial?: bigint[]);
+
         /**
          * Adds a constant to the module
          * @param value Value of the constant
          * @param handle Optional constant handle
          */
-        addConstant(value: bigint | bigint[] | bigint[][], handle?: string): void;
+        addConstant(value: bigint | bigint[] | bigint[][], handle?: string): Constant;
 
         /**
          * Creates a new function context from the current state of the schema
@@ -126,22 +202,52 @@ declare module '@guildofweavers/air-assembly' {
          * @param statements A list of store operations within the function body
          * @param result The return expression of the function
          */
-        addFunction(context: FunctionContext, statements: StoreOperation[], result: Expression): void;
+        addFunction(context: FunctionContext, statements: StoreOperation[], result: Expression): AirFunction;
+
+        /**
+         * Copies constants and functions with the specified handles from another schema into this
+         * schema. Constants and functions which the imported functions depend on are copied as well;
+         * they keep their handles unless the handles are already declared in this schema.
+         * @param source Schema from which the declarations are imported
+         * @param handles Handles of the constants and functions to import
+         * @param path Path of the source module; used in error messages
+         */
+        importDeclarations(source: AirSchema, handles: string[], path: string): void;
+
+        /**
+         * Returns true if a constant or a function with the specified handle is declared or imported
+         * @param handle Handle of a constant or a function
+         */
+        hasHandle(handle: string): boolean;
 
         /**
          * Creates a component for a new computation within the module
          * @param name Name of the component
-         * @param registers Number of dynamic registers expected in the computation
+         * @param registers Number of dynamic registers expected in the computation, or handles of the registers
          * @param constraints Number of constraints expected in the computation
          * @param steps Minimal cycle length possible for the computation
+         * @param frameSize Number of consecutive trace rows accessible to constraints; defaults to 2
          */
-        createComponent(name: string, registers: number, constraints: number, steps: number): AirComponent;
+        createComponent(name: string, registers: number | string[], constraints: number, steps: number, frameSize?: number): AirComponent;
 
         /**
          * Adds a component to the module
          * @param component Component to add to the module
          */
         addComponent(component: AirComponent): void;
+
+        /**
+         * Exports the schema into a JSON-compatible object; the format of the object is described
+         * by air-assembly.schema.json document
+         */
+        toJSON(): SchemaJson;
+
+        /**
+         * Creates a schema from an object produced by toJSON() method (or from a string with such
+         * an object); the schema is validated in the same way as a schema compiled from source code
+         * @param json Exported schema object or a JSON string
+         */
+        static fromJSON(json: SchemaJson | string): AirSchema;
     }
 
     export interface AirComponent {
@@ -152,6 +258,12 @@ declare module '@guildofweavers/air-assembly' {
         /** Base cycle length of the computation */
         readonly cycleLength: number;
 
+        /** Number of consecutive trace rows accessible to transition constraints */
+        readonly frameSize: number;
+
+        /** Handles of trace registers; undefined if trace registers were declared without handles */
+        readonly traceRegisterHandles?: ReadonlyArray<string>;
+
         /** Static registers defined for the computation */
         readonly staticRegisters: ReadonlyArray<StaticRegister>;
 
@@ -164,6 +276,18 @@ declare module '@guildofweavers/air-assembly' {
         /** Transition function procedure defined for the computation */
         readonly transitionFunction: AirProcedure;
 
+        /** Number of registers in the auxiliary trace segment; 0 if auxiliary trace is not defined */
+        readonly auxiliaryRegisterCount: number;
+
+        /** Values of auxiliary registers at step 0; undefined if auxiliary trace is not defined */
+        readonly auxiliaryInitialValues?: ReadonlyArray<bigint>;
+
+        /** Procedure which builds the auxiliary trace; undefined if auxiliary trace is not defined */
+        readonly auxiliaryFunction?: AirProcedure;
+
+        /** Number of random elements consumed by the auxiliary procedure */
+        readonly randomElementCount: number;
+
         /** Transition constraint evaluator procedure defined for the computation. */
         readonly constraintEvaluator: AirProcedure;
 
@@ -173,9 +297,37 @@ declare module '@guildofweavers/air-assembly' {
         /** Highest degree of transition constraints defined for the computation. */
         readonly maxConstraintDegree: number;
 
-        addInputRegister(scope: string, binary: boolean, master?: InputRegisterMaster, steps?: number, offset?: number): void;
-        addMaskRegister(sourceIdx: number, inverted: boolean): void;
-        addCyclicRegister(values: bigint[] | ValueSequence): void;
+        /** Permutation arguments defined for the computation */
+        readonly permutations: ReadonlyArray<PermutationArgument>;
+
+        /** Lookup arguments defined for the computation */
+        readonly lookups: ReadonlyArray<LookupArgument>;
+
+        /** Boundary constraints defined for the computation */
+        readonly assertions: ReadonlyArray<AssertionDescriptor>;
+
+        /** Outputs declared for the computation */
+        readonly outputs: ReadonlyArray<OutputDescriptor>;
+
+        /**
+         * Boundary constraints of the auxiliary trace which are implied by the component: initial
+         * values of auxiliary registers, and boundary constraints of permutation and lookup arguments
+         */
+        readonly auxiliaryAssertions: AssertionDescriptor[];
+
+        /** Location of the component declaration; undefined if the component was not parsed from source */
+        span?: SourceSpan;
+
+        addInputRegister(scope: string, binary: boolean, master?: InputRegisterMaster, steps?: number, offset?: number, handle?: string): InputRegister;
+        addMaskRegister(sourceIdx: number, inverted: boolean, handle?: string): MaskRegister;
+        addCyclicRegister(values: bigint[] | ValueSequence, handle?: string): CyclicRegister;
+
+        /**
+         * Creates a value sequence for a cyclic register from a module constant
+         * @param indexOrHandle Index or handle of a vector or a matrix constant
+         * @param row Index of the matrix row to use; must be provided only for matrix constants
+         */
+        createConstantSequence(indexOrHandle: number | string, row?: number): ConstantSequence;
         
         /**
          * Creates a new procedure context from the current state of the component
@@ -185,7 +337,72 @@ declare module '@guildofweavers/air-assembly' {
 
         setTraceInitializer(context: ProcedureContext, statements: StoreOperation[], result: Expression): void;
         setTransitionFunction(context: ProcedureContext, statements: StoreOperation[], result: Expression): void;
+
+        /**
+         * Declares auxiliary registers of the computation; must be called before an auxiliary
+         * procedure context is created
+         * @param initialValues Values of auxiliary registers at step 0, one value per register
+         */
+        setAuxiliaryRegisters(initialValues: bigint[]): void;
+        setAuxiliaryFunction(context: ProcedureContext, statements: StoreOperation[], result: Expression): void;
         setConstraintEvaluator(context: ProcedureContext, statements: StoreOperation[], result: Expression): void;
+
+        /**
+         * Adds a permutation argument to the computation; the argument adds running product and closing
+         * registers to the auxiliary trace, and two transition constraints to the set of the declared
+         * constraints
+         * @param left Indexes or handles of trace registers forming the first group of columns
+         * @param right Indexes or handles of trace registers forming the second group of columns
+         */
+        addPermutation(left: (number | string)[], right: (number | string)[]): PermutationArgument;
+
+        /**
+         * Adds a lookup argument to the computation; the argument adds a multiplicity register to the
+         * execution trace, running sum and closing registers to the auxiliary trace, and two transition
+         * constraints to the set of the declared constraints
+         * @param register Index or handle of the trace register which values are looked up
+         * @param table Index or handle of the cyclic register which values form the table
+         */
+        addLookup(register: number | string, table: number | string): LookupArgument;
+
+        /**
+         * Declares a value of a trace register as an output of the computation
+         * @param register Index or handle of the trace register which holds the output
+         * @param step Step of the execution trace at which the output is read; negative values are
+         * counted from the end of the trace
+         */
+        addOutput(register: number | string, step: number): void;
+
+        /**
+         * Adds a boundary constraint to the computation
+         * @param register Index or handle of the trace register to which the constraint applies
+         * @param step Step of the execution trace; negative values count from the end of the trace
+         * @param value Field element, or a reference to a public input register; in the latter case,
+         * the input value placed into the trace of the input register at the asserted step is used
+         * @param aux If true, the constraint applies to a register of the auxiliary trace defined by
+         * the auxiliary procedure; step 0 of such registers is asserted by their initial values
+         */
+        addAssertion(register: number | string, step: number, value: AssertionValue, aux?: boolean): void;
+    }
+
+    export interface PermutationArgument {
+        readonly left               : ReadonlyArray<number>;
+        readonly right              : ReadonlyArray<number>;
+        readonly randomElementCount : number;
+        readonly auxRegisterCount   : number;
+
+        /** Builds descriptors for transition constraints of the argument for the specified frame size */
+        getConstraints(frameSize: number): ConstraintDescriptor[];
+    }
+
+    export interface LookupArgument {
+        readonly register           : number;
+        readonly table              : number;
+        readonly randomElementCount : number;
+        readonly auxRegisterCount   : number;
+
+        /** Builds descriptors for transition constraints of the argument for the specified frame size */
+        getConstraints(frameSize: number): ConstraintDescriptor[];
     }
 
     // FUNCTIONS AND PROCEDURES
@@ -196,9 +413,10 @@ declare module '@guildofweavers/air-assembly' {
         readonly locals         : ReadonlyArray<LocalVariable>;
         readonly statements     : ReadonlyArray<StoreOperation>;
         readonly result         : Expression;
+        span?                   : SourceSpan;
     }
 
-    export type ProcedureName = 'init' | 'transition' | 'evaluation';
+    export type ProcedureName = 'init' | 'transition' | 'auxiliary' | 'evaluation';
     export interface AirProcedure {
         readonly name           : ProcedureName;
         readonly params         : ReadonlyArray<Parameter>
@@ -211,16 +429,19 @@ declare module '@guildofweavers/air-assembly' {
         readonly dimensions : Dimensions;
         readonly value      : LiteralValue;
         readonly handle?    : string;
+        span?               : SourceSpan;
     }
 
     export interface Parameter {
         readonly dimensions : Dimensions;
         readonly handle?    : string;
+        span?               : SourceSpan;
     }
 
     export interface LocalVariable {
         readonly dimensions : Dimensions;
         readonly handle?    : string;
+        span?               : SourceSpan;
     }
 
     export interface StoreOperation {
@@ -228,6 +449,7 @@ declare module '@guildofweavers/air-assembly' {
         readonly handle?        : string;
         readonly expression     : Expression;
         readonly dimensions     : Dimensions;
+        span?                   : SourceSpan;
     }
 
     export interface ExecutionContext {
@@ -237,17 +459,29 @@ declare module '@guildofweavers/air-assembly' {
         readonly params         : ReadonlyArray<Parameter>;
         readonly locals         : ReadonlyArray<LocalVariable>;
 
-        addParam(dimensions: Dimensions, handle?: string): void;
-        addLocal(dimensions: Dimensions, handle?: string): void;
+        addParam(dimensions: Dimensions, handle?: string): Parameter;
+        addLocal(dimensions: Dimensions, handle?: string): LocalVariable;
 
         buildLiteralValue(value: bigint | bigint[] | bigint[]): LiteralValue;
         buildBinaryOperation(operation: string, lhs: Expression, rhs: Expression): BinaryOperation;
         buildUnaryOperation(operation: string, operand: Expression): UnaryOperation;
+        buildSelectExpression(condition: Expression, onTrue: Expression, onFalse: Expression): SelectExpression;
         buildMakeVectorExpression(elements: Expression[]): MakeVector;
-        buildGetVectorElementExpression(source: Expression, index: number): GetVectorElement;
+        buildGetVectorElementExpression(source: Expression, indexOrHandle: number | string): GetVectorElement;
         buildSliceVectorExpression(source: Expression, start: number, end: number): SliceVector;
+        buildConcatVectorsExpression(elements: Expression[]): ConcatVectors;
+        buildRotateVectorExpression(source: Expression, shift: number): RotateVector;
+        buildReverseVectorExpression(source: Expression): ReverseVector;
+        buildRepeatVectorExpression(source: Expression, count: number): RepeatVector;
         buildMakeMatrixExpression(elements: Expression[][]): MakeMatrix;
+        buildGetMatrixElementExpression(source: Expression, row: number, column: number): GetMatrixElement;
+        buildGetMatrixRowExpression(source: Expression, index: number): GetMatrixRow;
+        buildGetMatrixColumnExpression(source: Expression, index: number): GetMatrixColumn;
+        buildTransposeMatrixExpression(source: Expression): TransposeMatrix;
+        buildComposeBitsExpression(source: Expression): ComposeBits;
+        buildCheckBitsExpression(source: Expression): CheckBits;
         buildLoadExpression(operation: string, indexOrHandle: number | string): LoadExpression;
+        buildLoadRegisterExpression(handle: string): GetVectorElement;
         buildStoreOperation(indexOrHandle: number | string, value: Expression): StoreOperation;
         buildCallExpression(indexOrHandle: number | string, params: Expression[]): CallExpression;
     }
@@ -261,12 +495,16 @@ declare module '@guildofweavers/air-assembly' {
         readonly name           : ProcedureName;
         readonly traceRegisters : any;
         readonly staticRegisters: any;
+        readonly auxRegisters   : any;
         readonly width          : number;
     }
 
     // STATIC REGISTERS
     // --------------------------------------------------------------------------------------------
-    export interface StaticRegister {}
+    export interface StaticRegister {
+        readonly handle?    : string;
+        span?               : SourceSpan;
+    }
 
     export interface InputRegister extends StaticRegister {
         readonly secret     : boolean;
@@ -302,7 +540,7 @@ declare module '@guildofweavers/air-assembly' {
     }
 
     export class PrngSequence implements ValueSequence {
-        readonly method : 'sha256';
+        readonly method : string;
         readonly seed   : Buffer;
         readonly length : number;
 
@@ -320,11 +558,45 @@ declare module '@guildofweavers/air-assembly' {
         getValues(field: FiniteField): bigint[];
     }
 
+    export class SelectorSequence implements ValueSequence {
+        readonly position   : number;
+        readonly length     : number;
+
+        /**
+         * @param position Position of the value 1 in the sequence; negative positions are counted
+         * from the end of the sequence
+         * @param count Number of values in the sequence
+         */
+        constructor(position: number, count: number);
+
+        getValues(field: FiniteField): bigint[];
+    }
+
+    export class ConstantSequence implements ValueSequence {
+        readonly constant   : Constant;
+        readonly index      : number;
+        readonly row?       : number;
+        readonly length     : number;
+
+        constructor(constant: Constant, index: number, row?: number);
+
+        getValues(field: FiniteField): bigint[];
+    }
+
+    export class RangeSequence implements ValueSequence {
+        readonly start  : bigint;
+        readonly length : number;
+
+        constructor(start: bigint, count: number);
+
+        getValues(field: FiniteField): bigint[];
+    }
+
     // EXPRESSIONS
     // --------------------------------------------------------------------------------------------
     export type Dimensions = [number, number];
     export type Degree = bigint | bigint[] | bigint[][];
-    export type LoadSource = 'const' | 'trace' | 'static' | 'param' | 'local';  // TODO: rename?
+    export type LoadSource = 'const' | 'trace' | 'static' | 'aux' | 'param' | 'local';  // TODO: rename?
 
     export type BinaryOperationType = 'add' | 'sub' | 'mul' | 'div' | 'exp' | 'prod';
     export type UnaryOperationType = 'neg' | 'inv';
@@ -333,6 +605,9 @@ declare module '@guildofweavers/air-assembly' {
         readonly dimensions : Dimensions;
         readonly children   : Expression[];
 
+        /** Location of the expression in the source code; undefined for expressions built programmatically */
+        span?               : SourceSpan;
+
         readonly isScalar   : boolean;
         readonly isVector   : boolean;
         readonly isMatrix   : boolean;
@@ -355,6 +630,12 @@ declare module '@guildofweavers/air-assembly' {
         readonly operand    : Expression;
     }
 
+    export interface SelectExpression extends Expression {
+        readonly condition  : Expression;
+        readonly onTrue     : Expression;
+        readonly onFalse    : Expression;
+    }
+
     export interface MakeVector extends Expression {
         readonly elements   : Expression[];
     }
@@ -370,10 +651,56 @@ declare module '@guildofweavers/air-assembly' {
         readonly end        : number;
     }
 
+    export interface ConcatVectors extends Expression {
+        readonly elements   : Expression[];
+    }
+
+    export interface RotateVector extends Expression {
+        readonly source     : Expression;
+        readonly shift      : number;
+    }
+
+    export interface ReverseVector extends Expression {
+        readonly source     : Expression;
+    }
+
+    export interface RepeatVector extends Expression {
+        readonly source     : Expression;
+        readonly count      : number;
+    }
+
     export interface MakeMatrix extends Expression {
         readonly elements   : Expression[][];
     }
 
+    export interface GetMatrixElement extends Expression {
+        readonly source     : Expression;
+        readonly row        : number;
+        readonly column     : number;
+    }
+
+    export interface GetMatrixRow extends Expression {
+        readonly source     : Expression;
+        readonly index      : number;
+    }
+
+    export interface GetMatrixColumn extends Expression {
+        readonly source     : Expression;
+        readonly index      : number;
+    }
+
+    export interface TransposeMatrix extends Expression {
+        readonly source     : Expression;
+    }
+
+    export interface ComposeBits extends Expression {
+        readonly source     : Expression;
+    }
+
+    export interface CheckBits extends Expression {
+        readonly source     : Expression;
+    }
+
     export interface LoadExpression extends Expression {
         readonly source     : LoadSource;
         readonly index      : number;
@@ -390,6 +717,146 @@ declare module '@guildofweavers/air-assembly' {
         visit(expression: Expression, options?: any): T;
     }
 
+    // JSON FORMAT
+    // --------------------------------------------------------------------------------------------
+    /** Field elements and other big integers are encoded as hex strings (e.g. '0x1f') */
+    export type HexString = string;
+    export type ValueJson = HexString | HexString[] | HexString[][];
+
+    export interface SchemaJson {
+        readonly version    : number;
+        readonly field      : FieldJson;
+        readonly constants  : ConstantJson[];
+        readonly functions  : FunctionJson[];
+        readonly components : ComponentJson[];
+    }
+
+    export interface FieldJson {
+        readonly type       : 'prime' | 'extension';
+        readonly modulus    : HexString;
+        readonly degree?    : number;
+        readonly polynomial?: HexString[];
+    }
+
+    export interface ConstantJson {
+        readonly handle?    : string;
+        readonly value      : ValueJson;
+    }
+
+    export interface DeclarationJson {
+        readonly handle?    : string;
+        readonly dimensions : Dimensions;
+    }
+
+    export interface StatementJson {
+        readonly target     : number;
+        readonly handle?    : string;
+        readonly value      : ExpressionJson;
+    }
+
+    export interface ProcedureJson {
+        readonly params     : DeclarationJson[];
+        readonly locals     : DeclarationJson[];
+        readonly statements : StatementJson[];
+        readonly result     : ExpressionJson;
+    }
+
+    export interface FunctionJson extends ProcedureJson {
+        readonly handle?    : string;
+        readonly dimensions : Dimensions;
+    }
+
+    export interface ComponentJson {
+        readonly name           : string;
+        readonly registers      : number | string[];
+        readonly constraints    : number;
+        readonly steps          : number;
+        readonly frameSize      : number;
+        readonly static         : StaticRegisterJson[];
+        readonly init           : ProcedureJson;
+        readonly transition     : ProcedureJson;
+        readonly auxiliary?     : AuxiliaryJson;
+        readonly evaluation     : ProcedureJson;
+        readonly permutations?  : PermutationJson[];
+        readonly lookups?       : LookupJson[];
+        readonly outputs?       : OutputJson[];
+        readonly assertions     : AssertionJson[];
+    }
+
+    export interface AuxiliaryJson extends ProcedureJson {
+        readonly values     : HexString[];
+    }
+
+    export interface PermutationJson {
+        readonly left       : number[];
+        readonly right      : number[];
+    }
+
+    export interface LookupJson {
+        readonly register   : number;
+        readonly table      : number;
+    }
+
+    export interface OutputJson {
+        readonly register   : number;
+        readonly step       : number;
+    }
+
+    export type StaticRegisterJson = {
+        readonly type       : 'input';
+        readonly scope      : 'public' | 'secret';
+        readonly binary     : boolean;
+        readonly master?    : InputRegisterMaster;
+        readonly steps?     : number;
+        readonly offset     : number;
+        readonly handle?    : string;
+    } | {
+        readonly type       : 'mask';
+        readonly source     : number;
+        readonly inverted   : boolean;
+        readonly handle?    : string;
+    } | {
+        readonly type       : 'cycle';
+        readonly values     : HexString[] | ValueSequenceJson;
+        readonly handle?    : string;
+    };
+
+    export type ValueSequenceJson =
+        | { readonly type: 'prng', readonly method: string, readonly seed: HexString, readonly length: number }
+        | { readonly type: 'power', readonly base: HexString, readonly length: number }
+        | { readonly type: 'selector', readonly position: number, readonly length: number }
+        | { readonly type: 'range', readonly start: HexString, readonly length: number }
+        | { readonly type: 'constant', readonly index: number, readonly row?: number };
+
+    export interface AssertionJson {
+        readonly register   : number;
+        readonly step       : number;
+        readonly value      : HexString | { readonly input: number };
+        readonly aux?       : boolean;
+    }
+
+    export type ExpressionJson =
+        | { readonly type: 'LiteralValue', readonly value: ValueJson }
+        | { readonly type: 'BinaryOperation', readonly operation: BinaryOperationType, readonly lhs: ExpressionJson, readonly rhs: ExpressionJson }
+        | { readonly type: 'UnaryOperation', readonly operation: UnaryOperationType, readonly operand: ExpressionJson }
+        | { readonly type: 'SelectExpression', readonly condition: ExpressionJson, readonly onTrue: ExpressionJson, readonly onFalse: ExpressionJson }
+        | { readonly type: 'MakeVector', readonly elements: ExpressionJson[] }
+        | { readonly type: 'GetVectorElement', readonly source: ExpressionJson, readonly index: number }
+        | { readonly type: 'SliceVector', readonly source: ExpressionJson, readonly start: number, readonly end: number }
+        | { readonly type: 'ConcatVectors', readonly elements: ExpressionJson[] }
+        | { readonly type: 'RotateVector', readonly source: ExpressionJson, readonly shift: number }
+        | { readonly type: 'ReverseVector', readonly source: ExpressionJson }
+        | { readonly type: 'RepeatVector', readonly source: ExpressionJson, readonly count: number }
+        | { readonly type: 'MakeMatrix', readonly elements: ExpressionJson[][] }
+        | { readonly type: 'GetMatrixElement', readonly source: ExpressionJson, readonly row: number, readonly column: number }
+        | { readonly type: 'GetMatrixRow', readonly source: ExpressionJson, readonly index: number }
+        | { readonly type: 'GetMatrixColumn', readonly source: ExpressionJson, readonly index: number }
+        | { readonly type: 'TransposeMatrix', readonly source: ExpressionJson }
+        | { readonly type: 'ComposeBits', readonly source: ExpressionJson }
+        | { readonly type: 'CheckBits', readonly source: ExpressionJson }
+        | { readonly type: 'LoadExpression', readonly source: LoadSource, readonly index: number }
+        | { readonly type: 'CallExpression', readonly index: number, readonly params: ExpressionJson[] };
+
     // ANALYSIS
     // --------------------------------------------------------------------------------------------
     export interface ProcedureAnalysisResult {
@@ -407,6 +874,7 @@ declare module '@guildofweavers/air-assembly' {
 
     export interface ComponentAnalysisResult {
         readonly transition : ProcedureAnalysisResult;
+        readonly auxiliary? : ProcedureAnalysisResult;
         readonly evaluation : ProcedureAnalysisResult;
     }
 
@@ -417,12 +885,21 @@ declare module '@guildofweavers/air-assembly' {
         /** A finite field object used for all arithmetic operations of the computation. */
         readonly field: FiniteField;
 
-        /** Number of state registers in the execution trace. */
+        /** Number of state registers in the execution trace, including multiplicity registers of lookup arguments. */
         readonly traceRegisterCount: number;
 
+        /** Number of consecutive trace rows accessible to transition constraints. */
+        readonly frameSize: number;
+
         /** Number of static registers in the execution trace. */
         readonly staticRegisterCount: number;
 
+        /** Number of registers in the auxiliary trace segment; 0 if auxiliary trace is not defined. */
+        readonly auxiliaryRegisterCount: number;
+
+        /** Number of random elements required to build the auxiliary trace. */
+        readonly randomElementCount: number;
+
         /** An array of input descriptors with metadata for inputs required by the computation. */
         readonly inputDescriptors: InputDescriptor[];
 
@@ -432,12 +909,21 @@ declare module '@guildofweavers/air-assembly' {
         /** An array of constraint descriptors with metadata for the defined transition constraints */
         readonly constraints: ConstraintDescriptor[];
 
+        /** An array of assertion descriptors for the defined boundary constraints */
+        readonly assertions: AssertionDescriptor[];
+
+        /** An array of output descriptors describing values returned from the computation */
+        readonly outputDescriptors: OutputDescriptor[];
+
         /** The highest degree of transition constraints defined for the computation. */
         readonly maxConstraintDegree: number;
 
         /** An integer value specifying how much the execution trace is to be "stretched." */
         readonly extensionFactor: number;
 
+        /** Names of PRNG methods used to generate values of cyclic registers. */
+        readonly prngMethods: string[];
+
         /**
          * Instantiates a Prover object for a specific instance of the computation.
          * @param inputs Values for initializing input registers. Must be provided only if the
@@ -492,12 +978,50 @@ declare module '@guildofweavers/air-assembly' {
      */
     export type InputShape = number[];
 
+    export interface OutputDescriptor {
+        /** Index of the trace register which holds the output. */
+        readonly register: number;
+
+        /** Step at which the output is read; negative values are counted from the end of the trace. */
+        readonly step: number;
+    }
+
     export interface ConstraintDescriptor {
         readonly degree     : number;
         readonly traceRefs  : number[];
         readonly staticRefs : number[];
     }
 
+    /**
+     * Value of a boundary constraint: either a field element, or a reference to a public input
+     * register, in which case the value of the input register at the asserted step is used.
+     */
+    export type AssertionValue = bigint | { readonly input: number };
+
+    export interface AssertionDescriptor {
+        /** An integer value specifying the index of the trace register to which the assertion applies. */
+        readonly register: number;
+
+        /**
+         * A signed integer value specifying the step of the execution trace at which the assertion
+         * applies. Negative values are counted from the end of the trace (e.g. -1 is the last step).
+         */
+        readonly step: number;
+
+        /** Value which the register must have at the specified step. */
+        readonly value: AssertionValue;
+
+        /** True if the register belongs to the auxiliary trace rather than to the execution trace. */
+        readonly aux?: boolean;
+    }
+
+    export interface BoundaryConstraint {
+        readonly register   : number;
+        readonly step       : number;
+        readonly value      : bigint;
+        readonly aux?       : boolean;
+    }
+
     // CONTEXTS
     // --------------------------------------------------------------------------------------------
     export interface AirContext {
@@ -514,9 +1038,15 @@ declare module '@guildofweavers/air-assembly' {
         /** Extension factor of the execution trace. */
         readonly extensionFactor: number;
 
+        /** Number of consecutive trace rows accessible to transition constraints. */
+        readonly frameSize: number;
+
         /** An array of constraint descriptors with metadata for the defined transition constraints */
         readonly constraints: ConstraintDescriptor[];
 
+        /** Boundary constraints resolved for the trace length and public inputs of the instance. */
+        readonly boundaryConstraints: BoundaryConstraint[];
+
         /** Shapes of all input registers for the instance of the computation. */
         readonly inputShapes: InputShape[];
     }
@@ -528,8 +1058,19 @@ declare module '@guildofweavers/air-assembly' {
          * @param rValues Values of trace registers at the current step
          * @param nValues Values of trace registers at the next step
          * @param sValues Values of secret registers at the current step
+         * @param wValues Values of trace registers at the remaining steps of the frame; required
+         * only when frame size is greater than 2
+         * @param uValues Values of auxiliary registers at all steps of the frame; required only when
+         * the computation defines an auxiliary trace
+         * @param randomness Random elements used to build the auxiliary trace
+         */
+        evaluateConstraintsAt(x: bigint, rValues: bigint[], nValues: bigint[], sValues: bigint[], wValues?: bigint[][], uValues?: bigint[][], randomness?: bigint[]): bigint[];
+
+        /**
+         * Builds boundary constraints asserting that the computation produced the specified outputs.
+         * @param outputs Values of the outputs in the order of the output descriptors
          */
-        evaluateConstraintsAt(x: bigint, rValues: bigint[], nValues: bigint[], sValues: bigint[]): bigint[];
+        getOutputConstraints(outputs: bigint[]): BoundaryConstraint[];
     }
 
     export interface ProvingContext extends AirContext {
@@ -559,27 +1100,89 @@ declare module '@guildofweavers/air-assembly' {
          */
         generateStaticTrace(): Matrix;
 
+        /**
+         * Generates auxiliary trace for the computation. The trace is returned as a Matrix object where
+         * rows correspond to the auxiliary register traces, and columns correspond to computation steps.
+         * @param mainTrace Execution trace generated by generateExecutionTrace() method
+         * @param randomness Random elements drawn after the execution trace has been committed to
+         */
+        generateAuxiliaryTrace(mainTrace: Matrix, randomness?: bigint[]): Matrix;
+
+        /**
+         * Extracts outputs of the computation from the execution trace. The outputs are returned in
+         * the order of the output descriptors.
+         * @param trace Execution trace generated by generateExecutionTrace() method
+         */
+        getOutputs(trace: Matrix): bigint[];
+
         /**
          * Evaluates transition constraints for a computation. The evaluations are returned as a matrix
          * object where each row represents a transition constraint evaluated over the composition domain.
          * @param tracePolys A matrix where each row represents a polynomial interpolated from a
          * corresponding register of the execution trace
+         * @param auxPolys A matrix where each row represents a polynomial interpolated from a
+         * corresponding register of the auxiliary trace; required only when the computation defines
+         * an auxiliary trace
+         * @param randomness Random elements used to build the auxiliary trace
          */
-        evaluateTransitionConstraints(tracePolys: Matrix): Matrix;
+        evaluateTransitionConstraints(tracePolys: Matrix, auxPolys?: Matrix, randomness?: bigint[]): Matrix;
     }
 
     // PRNG
     // --------------------------------------------------------------------------------------------
     export type PrngFunction = (seed: Buffer, count: number, field: FiniteField) => bigint[];
     export const prng: {
-        sha256: PrngFunction;
+        sha256      : PrngFunction;
+        blake2s     : PrngFunction;
+        keccak256   : PrngFunction;
     };
 
+    /**
+     * Registers a PRNG function which can then be used in prng expressions of cyclic registers
+     * @param method Name of the PRNG method; must be a valid identifier not registered before
+     * @param prng Function which generates the specified number of field elements from a seed
+     */
+    export function registerPrng(method: string, prng: PrngFunction): void;
+
     // ERRORS
     // --------------------------------------------------------------------------------------------
     export class AssemblyError {
-        readonly errors: any[];
-        constructor(errors: any[]);
+        readonly errors: AssemblyErrorEntry[];
+
+        /**
+         * @param errors Lexer, parser, or semantic errors to be converted into error entries
+         * @param file Path to the file to which the errors (unless they reference a file already) apply
+         */
+        constructor(errors: any[], file?: string);
+    }
+
+    export interface AssemblyErrorEntry {
+        /** Description of the error */
+        readonly message    : string;
+
+        /** Path to the source file; undefined if the source code was not read from a file */
+        readonly file?      : string;
+
+        /** Line at which the erroneous section of the source code starts (1-based) */
+        readonly line?      : number;
+
+        /** Column at which the erroneous section of the source code starts (1-based) */
+        readonly column?    : number;
+
+        /** Location of the erroneous section of the source code */
+        readonly span?      : SourceSpan;
+    }
+
+    export interface SourceSpan {
+        readonly start      : SourcePosition;
+        readonly end        : SourcePosition;
+    }
+
+    export interface SourcePosition {
+        /** 0-based offset of the character in the source code */
+        readonly offset     : number;
+        readonly line       : number;
+        readonly column     : number;
     }
 
     // INTERNAL
@@ -602,14 +1205,28 @@ declare module '@guildofweavers/air-assembly' {
         (r: bigint[], k: bigint[]): bigint[];
     }
     
+    export interface AuxiliaryFunction {
+        /**
+         * @param r Array with values of trace registers at the current step
+         * @param k Array with values of static registers at the current step
+         * @param u Array with a single array of auxiliary register values at the current step
+         * @param p0 Vector with random elements
+         * @returns Array with values of auxiliary registers for the next step
+         */
+        (r: bigint[], k: bigint[], u: bigint[][], p0: Vector): bigint[];
+    }
+
     export interface ConstraintEvaluator {
         /**
          * @param r Array with values of trace registers at the current step
          * @param n Array with values of trace registers at the next step
          * @param k Array with values of static registers at the current step
+         * @param w Arrays with values of trace registers at the steps following the next step
+         * @param u Arrays with values of auxiliary registers at all steps of the frame
+         * @param p0 Vector with random elements
          * @returns Array with values of constraint evaluated at the current step
          */
-        (r: bigint[], n: bigint[], k: bigint[]): bigint[];
+        (r: bigint[], n: bigint[], k: bigint[], w: bigint[][], u: bigint[][], p0: Vector): bigint[];
     }
 
     export interface RegisterEvaluatorSpecs {
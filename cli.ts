@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+// IMPORTS
+// ================================================================================================
+import * as fs from 'fs';
+import { format } from './index';
+
+// CONSTANTS
+// ================================================================================================
+const USAGE = `usage: air-assembly format [--write] <file>...`;
+
+// COMMAND LINE INTERFACE
+// ================================================================================================
+/**
+ * Formats AirAssembly source files; formatted source code is printed to stdout, unless the --write
+ * option is specified, in which case the files are overwritten with the formatted source code.
+ */
+function main(args: string[]): number {
+    const [command, ...rest] = args;
+    const write = rest.includes('--write');
+    const files = rest.filter(arg => arg !== '--write');
+    if (command !== 'format' || files.length === 0) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    for (let file of files) {
+        try {
+            const formatted = format(file);
+            if (write) {
+                fs.writeFileSync(file, formatted);
+            }
+            else {
+                process.stdout.write(formatted);
+            }
+        }
+        catch (error) {
+            console.error(`${file}: ${error.message}`);
+            return 1;
+        }
+    }
+    return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
\ No newline at end of file
@@ -26,7 +26,8 @@ const source = `
         (evaluation
             (sub
                 (load.trace 1)
-                (call $mimcRound (load.trace 0) (get (load.static 0) 0))))))
+                (call $mimcRound (load.trace 0) (get (load.static 0) 0))))
+        (output 0 -1)))
 `;
 
 // EXAMPLE CODE
@@ -39,6 +40,7 @@ const air = instantiate(schema, 'mimc', { extensionFactor: 16 });
 // generate trace table
 const pContext = air.initProvingContext([], [3n]);
 const trace = pContext.generateExecutionTrace();
+const outputs = pContext.getOutputs(trace);
 
 // generate constraint evaluation table
 const pPolys = air.field.interpolateRoots(pContext.executionDomain, trace);
@@ -53,4 +55,8 @@ const nValues = [trace.getValue(0, 2)];
 const qValues = vContext.evaluateConstraintsAt(x, rValues, nValues, []);
 console.log(qValues);
 
+// build boundary constraints for the outputs claimed by the prover
+const oConstraints = vContext.getOutputConstraints(outputs);
+console.log(oConstraints);
+
 console.log('done!');
\ No newline at end of file
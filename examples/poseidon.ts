@@ -48,7 +48,8 @@ const source = `
 		(evaluation
 			(sub
 				(load.trace 1)
-				(call $poseidonRound (load.trace 0) (slice (load.static 0) 1 3) (get (load.static 0) 0))))))
+				(call $poseidonRound (load.trace 0) (slice (load.static 0) 1 3) (get (load.static 0) 0))))
+		(output 0 -1)))
 `;
 
 // EXAMPLE CODE
@@ -63,9 +64,11 @@ const air = instantiate(schema, 'poseidon');
 // generate trace table
 const pContext = air.initProvingContext([], inputs);
 const trace = pContext.generateExecutionTrace();
+const outputs = pContext.getOutputs(trace);
 
 // generate constraint evaluation table
 const pPolys = air.field.interpolateRoots(pContext.executionDomain, trace);
 const cEvaluations = pContext.evaluateTransitionConstraints(pPolys);
 
+console.log(outputs);
 console.log('done!');
\ No newline at end of file
@@ -1,15 +1,19 @@
 // IMPORTS
 // ================================================================================================
-import { AirModule, StarkLimits, AirModuleOptions, ComponentAnalysisResult } from '@guildofweavers/air-assembly';
+import { AirModule, StarkLimits, AirModuleOptions, CompilerOptions, ComponentAnalysisResult } from '@guildofweavers/air-assembly';
 import * as fs from 'fs';
+import * as path from 'path';
 import { AirSchema } from './lib/AirSchema';
 import { AirComponent } from './lib/AirComponent';
 import { lexer } from './lib/lexer';
-import { parser } from './lib/parser';
+import { getParser } from './lib/parser';
+import { formatSource } from './lib/formatter';
+import { serializeSchema, deserializeSchema } from './lib/serialization';
 import { instantiateModule } from './lib/jsGenerator';
-import { analyzeProcedure } from './lib/analysis';
+import { analyzeProcedure, optimizeSchema } from './lib/analysis';
 import { AssemblyError } from './lib/errors';
-import { getCompositionFactor, isPowerOf2, sha256prng, validate } from './lib/utils';
+import { sha256prng, blake2sprng, keccak256prng } from './lib/prng';
+import { getCompositionFactor, isPowerOf2, validate } from './lib/utils';
 
 // MODULE VARIABLES
 // ================================================================================================
@@ -24,45 +28,34 @@ const DEFAULT_LIMITS: StarkLimits = {
 // RE-EXPORTS
 // ================================================================================================
 export { AirSchema } from './lib/AirSchema';
-export { PrngSequence, PowerSequence} from './lib/registers';
+export { PrngSequence, PowerSequence, SelectorSequence, RangeSequence, ConstantSequence } from './lib/registers';
 export { AssemblyError } from './lib/errors';
 export { ExpressionVisitor } from './lib/expressions/ExpressionVisitor';
+export { compressProcedure } from './lib/analysis';
+export { registerPrng } from './lib/prng';
 
 export const prng = {
-    sha256  : sha256prng
+    sha256      : sha256prng,
+    blake2s     : blake2sprng,
+    keccak256   : keccak256prng
 };
 
 // PUBLIC FUNCTIONS
 // ================================================================================================
-export function compile(sourceOrPath: Buffer | string, limits?: Partial<StarkLimits>): AirSchema {
+export function compile(sourceOrPath: Buffer | string, limits?: Partial<StarkLimits>, options?: Partial<CompilerOptions>): AirSchema {
 
-    let source: string;
+    const collectErrors = (options && options.collectErrors) || false;
+
+    let schema: AirSchema;
     if (Buffer.isBuffer(sourceOrPath)) {
-        source = sourceOrPath.toString('utf8');
+        const source = sourceOrPath.toString('utf8');
+        schema = parseModule(source, undefined, [], 0, collectErrors);
     }
     else {
         if (typeof sourceOrPath !== 'string')
             throw new TypeError(`source path '${sourceOrPath}' is invalid`);
 
-        try {
-            source = fs.readFileSync(sourceOrPath, { encoding: 'utf8' });
-        }
-        catch (error) {
-            throw new AssemblyError([error]);
-        }
-    }
-
-    // tokenize input
-    const lexResult = lexer.tokenize(source);
-    if(lexResult.errors.length > 0) {
-        throw new AssemblyError(lexResult.errors);
-    }
-
-    // parse the tokens
-    parser.input = lexResult.tokens;
-    const schema = parser.module();
-    if (parser.errors.length > 0) {
-        throw new AssemblyError(parser.errors);
+        schema = loadModule(path.resolve(sourceOrPath), [], 0, collectErrors);
     }
 
     // if limits are specified, validate the schema against them
@@ -101,11 +94,113 @@ export function analyze(schema: AirSchema, componentName: string): ComponentAnal
     validate(component, errors.componentNotFound(componentName));
     const transition = analyzeProcedure(component.transitionFunction);
     const evaluation = analyzeProcedure(component.constraintEvaluator);
+    if (component.auxiliaryFunction) {
+        const auxiliary = analyzeProcedure(component.auxiliaryFunction);
+        return { transition, auxiliary, evaluation };
+    }
     return { transition, evaluation };
 }
 
+export function optimize(schema: AirSchema): AirSchema {
+    return optimizeSchema(schema);
+}
+
+export function format(sourceOrPath: Buffer | string): string {
+
+    let source: string, modulePath: string | undefined;
+    if (Buffer.isBuffer(sourceOrPath)) {
+        source = sourceOrPath.toString('utf8');
+    }
+    else {
+        if (typeof sourceOrPath !== 'string')
+            throw new TypeError(`source path '${sourceOrPath}' is invalid`);
+
+        modulePath = path.resolve(sourceOrPath);
+        try {
+            source = fs.readFileSync(modulePath, { encoding: 'utf8' });
+        }
+        catch (error) {
+            throw new AssemblyError([error], modulePath);
+        }
+    }
+
+    try {
+        return formatSource(source);
+    }
+    catch (error) {
+        throw new AssemblyError((error instanceof AssemblyError) ? error.errors : [error], modulePath);
+    }
+}
+
+export function serialize(schema: AirSchema): Buffer {
+    return serializeSchema(schema);
+}
+
+export function deserialize(buffer: Buffer): AirSchema {
+    if (!Buffer.isBuffer(buffer))
+        throw new TypeError(`serialized schema '${buffer}' is invalid`);
+
+    try {
+        return deserializeSchema(buffer);
+    }
+    catch (error) {
+        throw new AssemblyError([error]);
+    }
+}
+
 // HELPER FUNCTIONS
 // ================================================================================================
+function loadModule(modulePath: string, importChain: string[], depth: number, collectErrors: boolean): AirSchema {
+    if (importChain.includes(modulePath)) {
+        const cycle = [...importChain, modulePath].map(p => `'${p}'`).join(' -> ');
+        throw new AssemblyError([new Error(errors.importCycle(cycle))]);
+    }
+
+    let source: string;
+    try {
+        source = fs.readFileSync(modulePath, { encoding: 'utf8' });
+    }
+    catch (error) {
+        throw new AssemblyError([error]);
+    }
+
+    return parseModule(source, modulePath, importChain, depth, collectErrors);
+}
+
+function parseModule(source: string, modulePath: string | undefined, importChain: string[], depth: number, collectErrors: boolean): AirSchema {
+
+    // tokenize input
+    const lexResult = lexer.tokenize(source);
+    if(lexResult.errors.length > 0) {
+        throw new AssemblyError(lexResult.errors, modulePath);
+    }
+
+    // parse the tokens; imported modules are resolved relative to the importing module, or relative
+    // to the current working directory if the source was not read from a file
+    const parser = getParser(depth);
+    const baseDir = modulePath ? path.dirname(modulePath) : process.cwd();
+    const chain = modulePath ? [...importChain, modulePath] : importChain;
+    const loader = (importPath: string) => loadModule(path.resolve(baseDir, importPath), chain, depth + 1, collectErrors);
+    parser.input = lexResult.tokens;
+    parser.collectErrors = collectErrors;
+    let schema: AirSchema;
+    try {
+        schema = parser.module(0, [loader, depth > 0]);
+    }
+    catch (error) {
+        // semantic errors are thrown while the schema is being built
+        const thrown = (error instanceof AssemblyError) ? error.errors : [error];
+        throw new AssemblyError([...parser.semanticErrors, ...thrown], modulePath);
+    }
+
+    // semantic errors precede syntax errors because parsing stops at the first syntax error
+    if (parser.semanticErrors.length > 0 || parser.errors.length > 0) {
+        throw new AssemblyError([...parser.semanticErrors, ...parser.errors], modulePath);
+    }
+
+    return schema;
+}
+
 function validateModuleOptions(options: Partial<AirModuleOptions>, compositionFactor: number): AirModuleOptions {
 
     const minExtensionFactor = compositionFactor * 2;
@@ -127,11 +222,12 @@ function validateModuleOptions(options: Partial<AirModuleOptions>, compositionFa
 function validateLimits(schema: AirSchema, limits: StarkLimits): void {
     try {
         schema.components.forEach(component => {
-            if (component.traceRegisterCount > limits.maxTraceRegisters)
+            const registerCount = component.traceRegisterCount + component.lookups.length + component.auxiliaryRegisterCount;
+            if (registerCount > limits.maxTraceRegisters)
             throw new Error(`number of state registers cannot exceed ${limits.maxTraceRegisters}`);
         else if (component.staticRegisterCount > limits.maxStaticRegisters)
             throw new Error(`number of static registers cannot exceed ${limits.maxStaticRegisters}`);
-        else if (component.constraintCount > limits.maxConstraintCount)
+        else if (component.constraints.length > limits.maxConstraintCount)
             throw new Error(`number of transition constraints cannot exceed ${limits.maxConstraintCount}`);
         else if (component.maxConstraintDegree > limits.maxConstraintDegree)
             throw new Error(`max constraint degree cannot exceed ${limits.maxConstraintDegree}`);
@@ -146,5 +242,6 @@ function validateLimits(schema: AirSchema, limits: StarkLimits): void {
 // ================================================================================================
 const errors = {
     componentNotFound   : (n: any) => `component with name '${n}' does not exist in the provided schema`,
-    noDefaultComponent  : () => `provided schema does not contain a default component export`
+    noDefaultComponent  : () => `provided schema does not contain a default component export`,
+    importCycle         : (c: any) => `module import cycle detected: ${c}`
 };
\ No newline at end of file
@@ -2,19 +2,22 @@
 // ================================================================================================
 import { FiniteField } from "@guildofweavers/galois";
 import {
-    AirComponent as IComponent, ConstraintDescriptor, ProcedureName, InputRegisterMaster, ValueSequence
+    AirComponent as IComponent, ConstraintDescriptor, ProcedureName, InputRegisterMaster, ValueSequence,
+    AssertionDescriptor, AssertionValue, OutputDescriptor, SourceSpan
 } from "@guildofweavers/air-assembly";
 import { AirSchema } from "./AirSchema";
-import { StaticRegister, InputRegister, MaskRegister, CyclicRegister } from "./registers";
+import { StaticRegister, InputRegister, MaskRegister, CyclicRegister, ConstantSequence } from "./registers";
 import { AirProcedure, ProcedureContext, StoreOperation, Constant, AirFunction } from "./procedures";
+import { PermutationArgument, LookupArgument } from "./arguments";
 import { Expression } from "./expressions";
 import { analyzeProcedure } from "./analysis";
-import { isPowerOf2, validate } from "./utils";
+import { isPowerOf2, validate, validateHandle } from "./utils";
 
 // CONSTANTS
 // ================================================================================================
 const MAX_NAME_LENGTH = 128;
 const NAME_REGEXP = /[a-zA-Z]\w*/g;
+const DEFAULT_FRAME_SIZE = 2;
 
 // CLASS DECLARATION
 // ================================================================================================
@@ -24,24 +27,35 @@ export class AirComponent implements IComponent {
     readonly traceRegisterCount     : number;
     readonly constraintCount        : number;
     readonly cycleLength            : number;
+    readonly frameSize              : number;
+    span?                           : SourceSpan;
 
     readonly field                  : FiniteField;
     readonly constants              : ReadonlyArray<Constant>;
     readonly functions              : ReadonlyArray<AirFunction>;
 
+    private readonly _traceRegisterHandles?: string[];
     private _inputRegisters         : InputRegister[];
     private _staticRegisters        : StaticRegister[];
+    private readonly _registerHandles: Set<string>;
 
     private _traceInitializer?      : AirProcedure;
     private _transitionFunction?    : AirProcedure;
+    private _auxiliaryValues?       : bigint[];
+    private _auxiliaryFunction?     : AirProcedure;
     private _constraintEvaluator?   : AirProcedure;
+    private _permutations           : PermutationArgument[];
+    private _lookups                : LookupArgument[];
 
     private _constraints?           : ConstraintDescriptor[];
     private _maxConstraintDegree?   : number;
 
+    private _outputs                : OutputDescriptor[];
+    private _assertions             : AssertionDescriptor[];
+
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
-    constructor(name: string, schema: AirSchema, registers: number, constraints: number, steps: number) {
+    constructor(name: string, schema: AirSchema, registers: number | string[], constraints: number, steps: number, frameSize = DEFAULT_FRAME_SIZE) {
 
         validate(name.length <= MAX_NAME_LENGTH, errors.componentNameTooLong(name));
         const matches = name.match(NAME_REGEXP);
@@ -53,7 +67,11 @@ export class AirComponent implements IComponent {
         validate(isPowerOf2(steps), errors.cycleLengthNotPowerOf2(name));
         this.cycleLength = steps;
 
-        this.traceRegisterCount = registers;
+        validate(Number.isInteger(frameSize), errors.frameSizeNotInteger(name));
+        validate(frameSize >= DEFAULT_FRAME_SIZE, errors.frameSizeTooSmall(name));
+        validate(frameSize <= steps || frameSize === DEFAULT_FRAME_SIZE, errors.frameSizeTooBig(name, steps));
+        this.frameSize = frameSize;
+
         this.constraintCount = constraints;
 
         this.field = schema.field;
@@ -62,6 +80,28 @@ export class AirComponent implements IComponent {
 
         this._inputRegisters = [];
         this._staticRegisters = [];
+        this._outputs = [];
+        this._assertions = [];
+        this._permutations = [];
+        this._lookups = [];
+
+        // register handles share a namespace with constant and function handles
+        this._registerHandles = new Set();
+        if (typeof registers === 'number') {
+            this.traceRegisterCount = registers;
+        }
+        else {
+            validate(registers.length > 0, errors.traceHandlesEmpty(name));
+            registers.forEach(handle => this.validateRegisterHandle(handle));
+            this.traceRegisterCount = registers.length;
+            this._traceRegisterHandles = registers.slice();
+        }
+    }
+
+    // TRACE REGISTERS
+    // --------------------------------------------------------------------------------------------
+    get traceRegisterHandles(): ReadonlyArray<string> | undefined {
+        return this._traceRegisterHandles;
     }
 
     // STATIC REGISTERS
@@ -84,7 +124,7 @@ export class AirComponent implements IComponent {
         return result;
     }
 
-    addInputRegister(scope: string, binary: boolean, master?: InputRegisterMaster, steps?: number, offset?: number): void {
+    addInputRegister(scope: string, binary: boolean, master?: InputRegisterMaster, steps?: number, offset?: number, handle?: string): InputRegister {
         const registerIdx = this.staticRegisterCount;
         validate(registerIdx === this._inputRegisters.length, errors.inputRegOutOfOrder());
 
@@ -107,25 +147,47 @@ export class AirComponent implements IComponent {
             validate(steps <= this.cycleLength, errors.inputCycleTooBig(steps, this.cycleLength));
         }
     
-        const register = new InputRegister(scope, rank, binary, master, steps, offset);
+        if (handle !== undefined) {
+            this.validateRegisterHandle(handle);
+        }
+
+        const register = new InputRegister(scope, rank, binary, master, steps, offset, handle);
         this._inputRegisters.push(register);
         this._staticRegisters.push(register);
+        return register;
     }
 
-    addMaskRegister(sourceIdx: number, inverted: boolean): void {
+    addMaskRegister(sourceIdx: number, inverted: boolean, handle?: string): MaskRegister {
         const source = this._inputRegisters[sourceIdx];
         const registerIdx = this.staticRegisterCount;
         validate(source, errors.invalidMaskSourceIndex(registerIdx, sourceIdx));
         validate(source instanceof InputRegister, errors.maskSourceNotInputReg(registerIdx, sourceIdx));
         const lastRegister = this._staticRegisters[registerIdx - 1];
         validate(!(lastRegister instanceof CyclicRegister), errors.maskRegOutOfOrder());
-        const register = new MaskRegister(sourceIdx, inverted);
+        if (handle !== undefined) {
+            this.validateRegisterHandle(handle);
+        }
+        const register = new MaskRegister(sourceIdx, inverted, handle);
         this._staticRegisters.push(register);
+        return register;
     }
 
-    addCyclicRegister(values: bigint[] | ValueSequence): void {
-        const register = new CyclicRegister(values, this.field);
+    addCyclicRegister(values: bigint[] | ValueSequence, handle?: string): CyclicRegister {
+        if (handle !== undefined) {
+            this.validateRegisterHandle(handle);
+        }
+        const register = new CyclicRegister(values, this.field, handle);
         this._staticRegisters.push(register);
+        return register;
+    }
+
+    createConstantSequence(indexOrHandle: number | string, row?: number): ConstantSequence {
+        const index = (typeof indexOrHandle === 'string')
+            ? this.constants.findIndex(c => c.handle === indexOrHandle)
+            : indexOrHandle;
+        const constant = this.constants[index];
+        validate(constant !== undefined, errors.cycleConstNotDeclared(indexOrHandle));
+        return new ConstantSequence(constant, index, row);
     }
 
     // PROCEDURES
@@ -160,6 +222,51 @@ export class AirComponent implements IComponent {
         this._transitionFunction = new AirProcedure(context, statements, result);
     }
 
+    // AUXILIARY TRACE
+    // --------------------------------------------------------------------------------------------
+    get auxiliaryRegisterCount(): number {
+        const procedureWidth = this._auxiliaryValues ? this._auxiliaryValues.length : 0;
+        const permutationWidth = this._permutations.reduce((count, p) => count + p.auxRegisterCount, 0);
+        const lookupWidth = this._lookups.reduce((count, l) => count + l.auxRegisterCount, 0);
+        return procedureWidth + permutationWidth + lookupWidth;
+    }
+
+    get auxiliaryInitialValues(): ReadonlyArray<bigint> | undefined {
+        return this._auxiliaryValues;
+    }
+
+    get auxiliaryFunction(): AirProcedure | undefined {
+        return this._auxiliaryFunction;
+    }
+
+    get randomElementCount(): number {
+        let result = this._permutations.reduce((count, p) => count + p.randomElementCount, 0);
+        result = this._lookups.reduce((count, l) => count + l.randomElementCount, result);
+        if (this._auxiliaryFunction && this._auxiliaryFunction.params.length > 0) {
+            result += this._auxiliaryFunction.params[0].dimensions[0];
+        }
+        return result;
+    }
+
+    /**
+     * Declares auxiliary registers; the number of registers is equal to the number of initial values,
+     * and the values are placed into the first row of the auxiliary trace.
+     */
+    setAuxiliaryRegisters(initialValues: bigint[]): void {
+        validate(!this._auxiliaryValues, errors.auxRegistersAlreadySet());
+        validate(initialValues.length > 0, errors.auxRegistersEmpty());
+        initialValues.forEach((value, i) => validate(this.field.isElement(value), errors.auxValueInvalid(i)));
+        this._auxiliaryValues = initialValues.slice();
+    }
+
+    setAuxiliaryFunction(context: ProcedureContext, statements: StoreOperation[], result: Expression): void {
+        validate(!this._auxiliaryFunction, errors.auxiliaryAlreadySet());
+        validate(this._auxiliaryValues, errors.auxRegistersNotSet());
+        validate(!this._constraintEvaluator, errors.auxiliaryAfterEvaluator());
+        validate(context.name === 'auxiliary', errors.invalidAuxiliaryName(context.name));
+        this._auxiliaryFunction = new AirProcedure(context, statements, result);
+    }
+
     // TRANSITION CONSTRAINTS
     // --------------------------------------------------------------------------------------------
     get constraintEvaluator(): AirProcedure {
@@ -175,6 +282,9 @@ export class AirComponent implements IComponent {
                 traceRefs   : r.traceRefs,
                 staticRefs  : r.staticRefs
             }));
+            // constraints of permutation and lookup arguments are evaluated after the declared constraints
+            this._permutations.forEach(p => this._constraints!.push(...p.getConstraints(this.frameSize)));
+            this._lookups.forEach(l => this._constraints!.push(...l.getConstraints(this.frameSize)));
         }
         return this._constraints;
     }
@@ -189,13 +299,135 @@ export class AirComponent implements IComponent {
     setConstraintEvaluator(context: ProcedureContext, statements: StoreOperation[], result: Expression): void {
         validate(!this._constraintEvaluator, errors.evaluatorAlreadySet());
         validate(context.name === 'evaluation', errors.invalidEvaluatorName(context.name));
+        if (context.params.length > 0) {
+            // constraint evaluators consume the same random elements as the auxiliary procedure
+            const auxParams = this._auxiliaryFunction ? this._auxiliaryFunction.params : [];
+            validate(auxParams.length > 0, errors.evaluatorParamWithoutAux());
+            validate(auxParams[0].dimensions[0] === context.params[0].dimensions[0], errors.evaluatorParamMismatch());
+        }
         this._constraintEvaluator = new AirProcedure(context, statements, result);
     }
 
+    // PERMUTATION ARGUMENTS
+    // --------------------------------------------------------------------------------------------
+    get permutations(): ReadonlyArray<PermutationArgument> {
+        return this._permutations;
+    }
+
+    addPermutation(left: (number | string)[], right: (number | string)[]): PermutationArgument {
+        const leftIndexes = left.map(r => this.getTraceRegisterIndex(r, errors.permutationRegInvalid));
+        const rightIndexes = right.map(r => this.getTraceRegisterIndex(r, errors.permutationRegInvalid));
+        validate(leftIndexes.length > 0 && rightIndexes.length > 0, errors.permutationColsEmpty());
+        validate(leftIndexes.length === rightIndexes.length, errors.permutationColsMismatch(left.length, right.length));
+
+        // constraint descriptors are cached, and thus, cannot be computed before all permutations are added
+        validate(!this._constraints, errors.permutationAfterAnalysis());
+        const permutation = new PermutationArgument(leftIndexes, rightIndexes);
+        this._permutations.push(permutation);
+        return permutation;
+    }
+
+    // LOOKUP ARGUMENTS
+    // --------------------------------------------------------------------------------------------
+    get lookups(): ReadonlyArray<LookupArgument> {
+        return this._lookups;
+    }
+
+    addLookup(register: number | string, table: number | string): LookupArgument {
+        register = this.getTraceRegisterIndex(register, errors.lookupRegInvalid);
+        if (typeof table === 'string') {
+            const handle = table;
+            table = this._staticRegisters.findIndex(r => r.handle === handle);
+            validate(table !== -1, errors.lookupTableInvalid(handle));
+        }
+        validate(this._staticRegisters[table] !== undefined, errors.lookupTableInvalid(table));
+        validate(this._staticRegisters[table] instanceof CyclicRegister, errors.lookupTableNotCyclic(table));
+
+        // constraint descriptors are cached, and thus, cannot be computed before all lookups are added
+        validate(!this._constraints, errors.lookupAfterAnalysis());
+        const lookup = new LookupArgument(register, table);
+        this._lookups.push(lookup);
+        return lookup;
+    }
+
+    // OUTPUTS
+    // --------------------------------------------------------------------------------------------
+    get outputs(): ReadonlyArray<OutputDescriptor> {
+        return this._outputs;
+    }
+
+    addOutput(register: number | string, step: number): void {
+        register = this.getTraceRegisterIndex(register, errors.outputRegisterInvalid);
+        validate(Number.isInteger(step), errors.outputStepInvalid(register, step));
+
+        const duplicate = this._outputs.find(o => o.register === register && o.step === step);
+        validate(!duplicate, errors.duplicateOutput(register, step));
+        this._outputs.push({ register, step });
+    }
+
+    // BOUNDARY CONSTRAINTS
+    // --------------------------------------------------------------------------------------------
+    get assertions(): ReadonlyArray<AssertionDescriptor> {
+        return this._assertions;
+    }
+
+    get auxiliaryAssertions(): AssertionDescriptor[] {
+        let offset = this._auxiliaryValues ? this._auxiliaryValues.length : 0;
+        const result: AssertionDescriptor[] = [];
+        // auxiliary registers defined by the procedure start with their declared initial values
+        if (this._auxiliaryValues) {
+            this._auxiliaryValues.forEach((value, i) => result.push({ register: i, step: 0, value, aux: true }));
+        }
+        // columns of each argument follow the columns of the previous argument
+        this._permutations.forEach(p => {
+            result.push(...p.getAssertions(offset, this.frameSize));
+            offset += p.auxRegisterCount;
+        });
+        this._lookups.forEach(l => {
+            result.push(...l.getAssertions(offset, this.frameSize));
+            offset += l.auxRegisterCount;
+        });
+        return result;
+    }
+
+    addAssertion(register: number | string, step: number, value: AssertionValue, aux = false): void {
+        if (aux) {
+            // only registers defined by the auxiliary procedure can be asserted; their first row
+            // is already asserted to be equal to the declared initial values
+            const width = this._auxiliaryValues ? this._auxiliaryValues.length : 0;
+            validate(typeof register === 'number' && register >= 0 && register < width, errors.auxAssertionRegInvalid(register));
+            validate(step !== 0, errors.auxAssertionAtFirstStep(register));
+        }
+        else {
+            register = this.getTraceRegisterIndex(register, errors.assertionRegisterInvalid);
+        }
+        validate(Number.isInteger(step), errors.assertionStepInvalid(register, step));
+
+        if (typeof value === 'bigint') {
+            validate(this.field.isElement(value), errors.assertionValueInvalid(register, step));
+        }
+        else {
+            const source = this._inputRegisters[value.input];
+            validate(source, errors.invalidAssertionInput(register, step, value.input));
+            validate(!source.secret, errors.assertionInputIsSecret(register, step, value.input));
+            value = { input: value.input };
+        }
+
+        const duplicate = this._assertions.find(a => a.register === register && a.step === step && !!a.aux === aux);
+        validate(!duplicate, errors.duplicateAssertion(register, step));
+        this._assertions.push(aux ? { register, step, value, aux } : { register, step, value });
+    }
+
     // CODE GENERATION
     // --------------------------------------------------------------------------------------------
     toString(): string {
-        let code = `    (registers ${this.traceRegisterCount}) (constraints ${this.constraintCount}) (steps ${this.cycleLength})`;
+        const registers = this._traceRegisterHandles
+            ? this._traceRegisterHandles.join(' ')
+            : this.traceRegisterCount.toString();
+        let code = `    (registers ${registers}) (constraints ${this.constraintCount}) (steps ${this.cycleLength})`;
+        if (this.frameSize !== DEFAULT_FRAME_SIZE) {
+            code += ` (frame ${this.frameSize})`;
+        }
         if (this.staticRegisterCount > 0) {
             code += `\n    (static`;
             this.staticRegisters.forEach(r => code += `\n      ${r.toString()}`);
@@ -203,7 +435,31 @@ export class AirComponent implements IComponent {
         }
         code += this.traceInitializer.toString();
         code += this.transitionFunction.toString();
+        if (this._auxiliaryFunction) {
+            code += this._auxiliaryFunction.toString(`(init ${this._auxiliaryValues!.join(' ')})`);
+        }
         code += this.constraintEvaluator.toString();
+        this._permutations.forEach(p => code += `\n    ${p.toString(this._traceRegisterHandles)}`);
+        const staticHandles = this._staticRegisters.map(r => r.handle);
+        this._lookups.forEach(l => code += `\n    ${l.toString(this._traceRegisterHandles, staticHandles)}`);
+        for (let { register, step } of this._outputs) {
+            const r = this._traceRegisterHandles ? this._traceRegisterHandles[register] : register;
+            code += `\n    (output ${r} ${step})`;
+        }
+        if (this._assertions.length > 0) {
+            code += `\n    (assertions`;
+            for (let { register, step, value, aux } of this._assertions) {
+                const v = (typeof value === 'bigint') ? value.toString() : `(input ${value.input})`;
+                if (aux) {
+                    code += `\n      (assert aux ${register} ${step} ${v})`;
+                }
+                else {
+                    const r = this._traceRegisterHandles ? this._traceRegisterHandles[register] : register;
+                    code += `\n      (assert ${r} ${step} ${v})`;
+                }
+            }
+            code += ')';
+        }
         return `(export ${this.name}\n${code})`;
     }
 
@@ -214,7 +470,31 @@ export class AirComponent implements IComponent {
         validate(danglingInputs.length === 0, errors.danglingInputRegisters(danglingInputs));
         validate(this._traceInitializer, errors.transitionNotSet());
         validate(this._transitionFunction, errors.transitionNotSet());
+        validate(!this._auxiliaryValues || this._auxiliaryFunction, errors.auxiliaryNotSet());
         validate(this._constraintEvaluator, errors.evaluatorNotSet());
+
+        // make sure constraint degrees can be inferred; this throws for constraints with invalid operations
+        this.constraints;
+    }
+
+    private validateRegisterHandle(handle: string): void {
+        validateHandle(handle);
+        const isDeclared = this._registerHandles.has(handle)
+            || this.constants.some(c => c.handle === handle)
+            || this.functions.some(f => f.handle === handle);
+        validate(!isDeclared, errors.duplicateRegisterHandle(handle));
+        this._registerHandles.add(handle);
+    }
+
+    private getTraceRegisterIndex(register: number | string, error: (r: any) => string): number {
+        if (typeof register === 'string') {
+            const index = this._traceRegisterHandles ? this._traceRegisterHandles.indexOf(register) : -1;
+            validate(index !== -1, error(register));
+            return index;
+        }
+        validate(Number.isInteger(register), error(register));
+        validate(register >= 0 && register < this.traceRegisterCount, error(register));
+        return register;
     }
 
     private getDanglingInputRegisters(): number[] {
@@ -245,6 +525,11 @@ const errors = {
     cycleLengthNotInteger   : (n: any) => `trace cycle length for export '${n}' is invalid: cycle length must be an integer`,
     cycleLengthTooSmall     : (n: any) => `trace cycle length for export '${n}' is invalid: cycle length must be greater than 0`,
     cycleLengthNotPowerOf2  : (n: any) => `trace cycle length for export '${n}' is invalid: cycle length must be a power of 2`,
+    frameSizeNotInteger     : (n: any) => `trace frame size for export '${n}' is invalid: frame size must be an integer`,
+    frameSizeTooSmall       : (n: any) => `trace frame size for export '${n}' is invalid: frame size must be at least ${DEFAULT_FRAME_SIZE}`,
+    frameSizeTooBig         : (n: any, s: any) => `trace frame size for export '${n}' is invalid: frame size cannot be greater than cycle length (${s})`,
+    traceHandlesEmpty       : (n: any) => `trace register handles for export '${n}' are invalid: at least one register must be declared`,
+    duplicateRegisterHandle : (h: any) => `register handle ${h} is invalid: handle ${h} cannot be declared multiple times`,
     inputRegOutOfOrder      : () => `input register cannot be preceded by other register types`,
     inputCycleTooBig        : (c: any, t: any) => `input cycle length (${c}) cannot be greater than trace cycle length (${t})`,
     invalidInputMasterIndex : (r: any, s: any) => `invalid master for input register ${r}: register ${s} is undefined`,
@@ -256,13 +541,43 @@ const errors = {
     maskRegOutOfOrder       : () => `mask registers cannot be preceded by cyclic registers`,
     invalidMaskSourceIndex  : (r: any, s: any) => `invalid source for mask register ${r}: register ${s} is undefined`,
     maskSourceNotInputReg   : (r: any, s: any) => `invalid source for mask register ${r}: register ${s} is not an input register`,
+    cycleConstNotDeclared   : (c: any) => `cannot build cyclic register from constant ${c}: constant ${c} has not been declared`,
     initializerNotSet       : () => `trace initializer hasn't been set yet`,
     initializerAlreadySet   : () => `trace initializer has already been set`,
     invalidInitializerName  : (n: any) => `trace initializer cannot be set to a ${n} procedure`,
     transitionNotSet        : () => `transition function hasn't been set yet`,
     transitionAlreadySet    : () => `transition function has already been set`,
     invalidTransitionName   : (n: any) => `transition function cannot be set to a ${n} procedure`,
+    auxRegistersAlreadySet  : () => `auxiliary registers have already been declared`,
+    auxRegistersEmpty       : () => `auxiliary registers are invalid: at least one register must be declared`,
+    auxRegistersNotSet      : () => `auxiliary registers haven't been declared yet`,
+    auxValueInvalid         : (i: any) => `initial value for auxiliary register ${i} is not a valid field element`,
+    auxiliaryNotSet         : () => `auxiliary procedure hasn't been set yet`,
+    auxiliaryAlreadySet     : () => `auxiliary procedure has already been set`,
+    auxiliaryAfterEvaluator : () => `auxiliary procedure must be set before constraint evaluator`,
+    invalidAuxiliaryName    : (n: any) => `auxiliary procedure cannot be set to a ${n} procedure`,
+    evaluatorParamWithoutAux: () => `constraint evaluator cannot have a parameter: auxiliary procedure does not consume random elements`,
+    evaluatorParamMismatch  : () => `constraint evaluator parameter must have the same length as auxiliary procedure parameter`,
     evaluatorNotSet         : () => `constraint evaluator hasn't been set yet`,
     evaluatorAlreadySet     : () => `constraint evaluator has already been set`,
-    invalidEvaluatorName    : (n: any) => `constraint evaluator cannot be set to a ${n} procedure`
+    invalidEvaluatorName    : (n: any) => `constraint evaluator cannot be set to a ${n} procedure`,
+    assertionRegisterInvalid: (r: any) => `invalid assertion: trace register ${r} is undefined`,
+    auxAssertionRegInvalid  : (r: any) => `invalid assertion: auxiliary register ${r} is undefined`,
+    auxAssertionAtFirstStep : (r: any) => `invalid assertion for auxiliary register ${r}: step 0 is asserted by the initial value of the register`,
+    assertionStepInvalid    : (r: any, s: any) => `invalid assertion for register ${r}: step ${s} is not an integer`,
+    assertionValueInvalid   : (r: any, s: any) => `invalid assertion for register ${r} at step ${s}: value is not a valid field element`,
+    invalidAssertionInput   : (r: any, s: any, i: any) => `invalid assertion for register ${r} at step ${s}: input register ${i} is undefined`,
+    assertionInputIsSecret  : (r: any, s: any, i: any) => `invalid assertion for register ${r} at step ${s}: input register ${i} is secret`,
+    permutationRegInvalid   : (r: any) => `invalid permutation: trace register ${r} is undefined`,
+    permutationColsEmpty    : () => `invalid permutation: each group must contain at least one register`,
+    permutationColsMismatch : (l: any, r: any) => `invalid permutation: groups must contain the same number of registers, but received ${l} and ${r}`,
+    permutationAfterAnalysis: () => `permutation cannot be added after constraints have been analyzed`,
+    lookupRegInvalid        : (r: any) => `invalid lookup: trace register ${r} is undefined`,
+    lookupTableInvalid      : (t: any) => `invalid lookup: static register ${t} is undefined`,
+    lookupTableNotCyclic    : (t: any) => `invalid lookup: static register ${t} is not a cyclic register`,
+    lookupAfterAnalysis     : () => `lookup cannot be added after constraints have been analyzed`,
+    outputRegisterInvalid   : (r: any) => `invalid output: trace register ${r} is undefined`,
+    outputStepInvalid       : (r: any, s: any) => `invalid output for register ${r}: step ${s} is not an integer`,
+    duplicateOutput         : (r: any, s: any) => `output for register ${r} at step ${s} cannot be declared multiple times`,
+    duplicateAssertion      : (r: any, s: any) => `assertion for register ${r} at step ${s} cannot be declared multiple times`
 };
\ No newline at end of file
@@ -1,10 +1,14 @@
 // IMPORTS
 // ================================================================================================
-import { AirSchema as IAirSchema } from "@guildofweavers/air-assembly";
+import { AirSchema as IAirSchema, SchemaJson } from "@guildofweavers/air-assembly";
 import { FiniteField, createPrimeField } from "@guildofweavers/galois";
 import { AirFunction, FunctionContext, Constant, StoreOperation } from "./procedures";
 import { Expression, LiteralValue, Dimensions } from "./expressions";
 import { AirComponent } from "./AirComponent";
+import { ExtensionField } from "./fields";
+import { importDeclarations } from "./analysis/importer";
+import { schemaToJson, schemaFromJson } from "./serialization";
+import { AssemblyError } from "./errors";
 import { validate } from "./utils";
 
 // CLASS DEFINITION
@@ -17,17 +21,29 @@ export class AirSchema implements IAirSchema {
     private readonly _components    : Map<string, AirComponent>;
     
     private readonly _handles       : Set<string>;
+    private readonly _imports       : Map<string, string>;
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
-    constructor(fieldType: 'prime', fieldModulus: bigint) {
-        validate(fieldType === 'prime', errors.invalidFieldType(fieldType));
-        this._field = createPrimeField(fieldModulus);
+    constructor(fieldType: 'prime', fieldModulus: bigint);
+    constructor(fieldType: 'extension', fieldModulus: bigint, extensionDegree: number, extensionPolynomial?: bigint[]);
+    constructor(fieldType: 'prime' | 'extension', fieldModulus: bigint, extensionDegree?: number, extensionPolynomial?: bigint[]) {
+        if (fieldType === 'prime') {
+            this._field = createPrimeField(fieldModulus);
+        }
+        else if (fieldType === 'extension') {
+            validate(extensionDegree !== undefined, errors.extensionDegreeNotSet());
+            this._field = new ExtensionField(fieldModulus, extensionDegree, extensionPolynomial);
+        }
+        else {
+            throw new Error(errors.invalidFieldType(fieldType));
+        }
 
         this._constants = [];
         this._functions = [];
         this._components = new Map();
         this._handles = new Set();
+        this._imports = new Map();
     }
 
     // FIELD
@@ -46,13 +62,15 @@ export class AirSchema implements IAirSchema {
         return this._constants;
     }
 
-    addConstant(value: bigint | bigint[] | bigint[][], handle?: string): void {
+    addConstant(value: bigint | bigint[] | bigint[][], handle?: string): Constant {
         if (handle) {
+            this.validateImportedHandle(handle);
             validate(!this._handles.has(handle), errors.duplicateHandle(handle));
             this._handles.add(handle);
         }
         const constant = new Constant(new LiteralValue(value, this.field), handle);
         this._constants.push(constant);
+        return constant;
     }
 
     // FUNCTIONS
@@ -65,13 +83,37 @@ export class AirSchema implements IAirSchema {
         return new FunctionContext(this, resultType, handle);
     }
 
-    addFunction(context: FunctionContext, statements: StoreOperation[], result: Expression): void {
+    addFunction(context: FunctionContext, statements: StoreOperation[], result: Expression): AirFunction {
         if (context.handle) {
+            this.validateImportedHandle(context.handle);
             validate(!this._handles.has(context.handle), errors.duplicateHandle(context.handle));
             this._handles.add(context.handle);
         }
         const func = new AirFunction(context, statements, result);
         this._functions.push(func);
+        return func;
+    }
+
+    // IMPORTS
+    // --------------------------------------------------------------------------------------------
+    importDeclarations(source: AirSchema, handles: string[], path: string): void {
+        let imported: string[];
+        try {
+            for (let handle of handles) {
+                this.validateImportedHandle(handle);
+                validate(!this._handles.has(handle), errors.importCollision(handle, path));
+            }
+            imported = importDeclarations(this, source, handles, path);
+        }
+        catch (error) {
+            throw (error instanceof AssemblyError) ? error : new AssemblyError([error]);
+        }
+        imported.forEach(handle => this._imports.set(handle, path));
+    }
+
+    /** Returns true if a constant or a function with the specified handle is declared or imported */
+    hasHandle(handle: string): boolean {
+        return this._handles.has(handle);
     }
 
     // EXPORT DECLARATIONS
@@ -80,8 +122,8 @@ export class AirSchema implements IAirSchema {
         return this._components;
     }
 
-    createComponent(name: string, registers: number, constraints: number, steps: number): AirComponent {
-        return new AirComponent(name, this, registers, constraints, steps);
+    createComponent(name: string, registers: number | string[], constraints: number, steps: number, frameSize?: number): AirComponent {
+        return new AirComponent(name, this, registers, constraints, steps, frameSize);
     }
 
     addComponent(component: AirComponent): void {
@@ -99,11 +141,39 @@ export class AirSchema implements IAirSchema {
         this.components.forEach(m => code += `\n  ${m.toString()}`);
         return `(module${code}\n)`;
     }
+
+    // JSON
+    // --------------------------------------------------------------------------------------------
+    toJSON(): SchemaJson {
+        return schemaToJson(this);
+    }
+
+    static fromJSON(json: SchemaJson | string): AirSchema {
+        try {
+            return schemaFromJson((typeof json === 'string') ? JSON.parse(json) : json);
+        }
+        catch (error) {
+            throw (error instanceof AssemblyError) ? error : new AssemblyError([error]);
+        }
+    }
+
+    // PRIVATE METHODS
+    // --------------------------------------------------------------------------------------------
+    private validateImportedHandle(handle: string): void {
+        const path = this._imports.get(handle);
+        if (path !== undefined) {
+            throw new AssemblyError([new Error(errors.importedHandle(handle, path))]);
+        }
+    }
 }
 
 // HELPER FUNCTIONS
 // ================================================================================================
 function buildFieldExpression(field: FiniteField): string {
+    if (field instanceof ExtensionField) {
+        const polynomial = field.polynomial.join(' ');
+        return `(field extension ${field.characteristic} ${field.extensionDegree} ${polynomial})`;
+    }
     validate(field.extensionDegree === 1, 'non-prime fields are not supported');
     return `(field prime ${field.characteristic})`;
 }
@@ -112,6 +182,9 @@ function buildFieldExpression(field: FiniteField): string {
 // ================================================================================================
 const errors = {
     invalidFieldType    : (t: any) => `field type '${t}' is not supported`,
+    extensionDegreeNotSet: () => `extension degree must be provided for extension fields`,
     duplicateHandle     : (h: any) => `handle ${h} cannot be declared multiple times`,
+    importCollision     : (h: any, p: any) => `cannot import ${h} from '${p}': handle ${h} is already declared`,
+    importedHandle      : (h: any, p: any) => `handle ${h} cannot be declared multiple times: ${h} is imported from '${p}'`,
     duplicateComponent  : (e: any) => `export with name '${e}' is declared more than once`
 };
\ No newline at end of file
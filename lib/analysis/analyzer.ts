@@ -1,14 +1,19 @@
 // IMPORTS
 // ================================================================================================
-import { ProcedureAnalysisResult } from "@guildofweavers/air-assembly";
+import { ProcedureAnalysisResult, ProcedureName } from "@guildofweavers/air-assembly";
 import { AirProcedure } from "../procedures";
+import { SourceError } from "../errors";
 import {
-    ExpressionVisitor, LiteralValue, BinaryOperation, UnaryOperation, MakeVector,
-    GetVectorElement, SliceVector, MakeMatrix, LoadExpression, Dimensions, CallExpression
+    Expression, ExpressionVisitor, LiteralValue, BinaryOperation, UnaryOperation, SelectExpression, MakeVector,
+    GetVectorElement, SliceVector, ConcatVectors, RotateVector, ReverseVector, RepeatVector, MakeMatrix, GetMatrixElement,
+    GetMatrixRow, GetMatrixColumn, TransposeMatrix, ComposeBits, CheckBits, LoadExpression, Dimensions,
+    CallExpression
 } from "../expressions";
 import {
     OperationStats, getSimpleOperationCount, getExponentOperationCount, getProductOperationCounts,
     applySimpleOperation, applyExponentOperation, applyProductOperation, maxDegree, sumDegree,
+    rotateVector, reverseVector, repeatVector, extractMatrixElement, extractMatrixRow, extractMatrixColumn,
+    transposeMatrix, composeBits, checkBits
 } from "./operations";
 import { getExponentValue } from "./utils";
 
@@ -21,8 +26,10 @@ interface AnalysisContext {
         local   : ExpressionInfo[];
         static  : Dimensions;
         trace   : Dimensions;
+        aux     : Dimensions;
     }
     stats       : OperationStats;
+    procedure   : ProcedureName;
 }
 
 export interface InfoItem {
@@ -60,7 +67,8 @@ class ExpressionAnalyzer extends ExpressionVisitor<ExpressionInfo> {
             case 'div': {
                 ctx.stats.mul += getSimpleOperationCount(e.lhs);
                 ctx.stats.inv += 1;
-                return applySimpleOperation(sumDegree, lhsInfo, rhsInfo); // TODO: incorrect degree
+                validateInversion(e, rhsInfo, ctx, errors.traceDivisionInEvaluator());
+                return applySimpleOperation(sumDegree, lhsInfo, rhsInfo);
             }
             case 'exp': {
                 const exponent = getExponentValue(e.rhs);
@@ -85,11 +93,25 @@ class ExpressionAnalyzer extends ExpressionVisitor<ExpressionInfo> {
             }
             case 'inv': {
                 ctx.stats.inv += getSimpleOperationCount(e.operand);
-                return operandInfo; // TODO: incorrect degree
+                validateInversion(e, operandInfo, ctx, errors.traceInversionInEvaluator());
+                return operandInfo;
             }
         }
     }
 
+    selectExpression(e: SelectExpression, ctx: AnalysisContext): ExpressionInfo {
+        const conditionInfo = this.visit(e.condition, ctx);
+        const onTrueInfo = this.visit(e.onTrue, ctx);
+        const onFalseInfo = this.visit(e.onFalse, ctx);
+
+        // select is evaluated as a * c + b * (1 - c)
+        const opCount = getSimpleOperationCount(e.onTrue);
+        ctx.stats.mul += 2 * opCount;
+        ctx.stats.add += opCount + 1;
+        const branchInfo = applySimpleOperation(maxDegree, onTrueInfo, onFalseInfo);
+        return applySimpleOperation(sumDegree, branchInfo, conditionInfo);
+    }
+
     // VECTORS AND MATRIXES
     // --------------------------------------------------------------------------------------------
     makeVector(e: MakeVector, ctx: AnalysisContext): ExpressionInfo {
@@ -116,6 +138,26 @@ class ExpressionAnalyzer extends ExpressionVisitor<ExpressionInfo> {
         return sourceItems.slice(e.start, e.end + 1);
     }
 
+    concatVectors(e: ConcatVectors, ctx: AnalysisContext): ExpressionInfo {
+        let result: InfoItem[] = [];
+        for (let element of e.elements) {
+            result = result.concat(this.visit(element, ctx) as InfoItem[]);
+        }
+        return result;
+    }
+
+    rotateVector(e: RotateVector, ctx: AnalysisContext): ExpressionInfo {
+        return rotateVector(this.visit(e.source, ctx), e.offset);
+    }
+
+    reverseVector(e: ReverseVector, ctx: AnalysisContext): ExpressionInfo {
+        return reverseVector(this.visit(e.source, ctx));
+    }
+
+    repeatVector(e: RepeatVector, ctx: AnalysisContext): ExpressionInfo {
+        return repeatVector(this.visit(e.source, ctx), e.count);
+    }
+
     makeMatrix(e: MakeMatrix, ctx: AnalysisContext): ExpressionInfo {
         const result: InfoItem[][] = [];
         for (let row of e.elements) {
@@ -134,6 +176,39 @@ class ExpressionAnalyzer extends ExpressionVisitor<ExpressionInfo> {
         return result;
     }
 
+    getMatrixElement(e: GetMatrixElement, ctx: AnalysisContext): ExpressionInfo {
+        return extractMatrixElement(this.visit(e.source, ctx), e.row, e.column);
+    }
+
+    getMatrixRow(e: GetMatrixRow, ctx: AnalysisContext): ExpressionInfo {
+        return extractMatrixRow(this.visit(e.source, ctx), e.index);
+    }
+
+    getMatrixColumn(e: GetMatrixColumn, ctx: AnalysisContext): ExpressionInfo {
+        return extractMatrixColumn(this.visit(e.source, ctx), e.index);
+    }
+
+    transposeMatrix(e: TransposeMatrix, ctx: AnalysisContext): ExpressionInfo {
+        return transposeMatrix(this.visit(e.source, ctx));
+    }
+
+    // BIT OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    composeBits(e: ComposeBits, ctx: AnalysisContext): ExpressionInfo {
+        // bits are composed as ((v[n-1] * 2 + v[n-2]) * 2 + ...) + v[0]
+        const opCount = getSimpleOperationCount(e.source) - 1;
+        ctx.stats.mul += opCount;
+        ctx.stats.add += opCount;
+        return composeBits(this.visit(e.source, ctx));
+    }
+
+    checkBits(e: CheckBits, ctx: AnalysisContext): ExpressionInfo {
+        const opCount = getSimpleOperationCount(e.source);
+        ctx.stats.mul += opCount;
+        ctx.stats.add += opCount;
+        return checkBits(this.visit(e.source, ctx));
+    }
+
     // LOAD AND STORE
     // --------------------------------------------------------------------------------------------
     loadExpression(e: LoadExpression, ctx: AnalysisContext): ExpressionInfo {
@@ -143,6 +218,8 @@ class ExpressionAnalyzer extends ExpressionVisitor<ExpressionInfo> {
             case 'local':  return ctx.info.local[e.index];
             case 'trace':  return dimensionsToInfo(ctx.info.trace, 1n, new Set([e.index]), new Set());
             case 'static': return dimensionsToInfo(ctx.info.static, 1n, new Set(), new Set([e.index]));
+            // auxiliary columns are committed to alongside the trace, and thus, reference trace rows
+            case 'aux':    return dimensionsToInfo(ctx.info.aux, 1n, new Set([e.index]), new Set());
         }
     }
 
@@ -150,8 +227,9 @@ class ExpressionAnalyzer extends ExpressionVisitor<ExpressionInfo> {
     // --------------------------------------------------------------------------------------------
     callExpression(e: CallExpression, ctx: AnalysisContext): ExpressionInfo {
         const fnContext: AnalysisContext = {
-            info  : { ...ctx.info, param: [], local: [] },
-            stats   : ctx.stats
+            info        : { ...ctx.info, param: [], local: [] },
+            stats       : ctx.stats,
+            procedure   : ctx.procedure
         };
 
         // analyze parameters
@@ -177,12 +255,14 @@ export function analyzeProcedure(procedure: AirProcedure): ProcedureAnalysisResu
     const context: AnalysisContext = {
         info: {
             const   : procedure.constants.map(c => dimensionsToInfo(c.dimensions)),
-            param   : [],
+            param   : procedure.params.map(p => dimensionsToInfo(p.dimensions)),
             local   : new Array(procedure.locals.length),
             static  : procedure.staticRegisters.dimensions,
-            trace   : procedure.traceRegisters.dimensions
+            trace   : procedure.traceRegisters.dimensions,
+            aux     : procedure.auxRegisters.dimensions
         },
-        stats: { add: 0, mul: 0, inv: 0 }
+        stats: { add: 0, mul: 0, inv: 0 },
+        procedure: procedure.name
     }
 
     // analyze statements
@@ -202,6 +282,29 @@ export function analyzeProcedure(procedure: AirProcedure): ProcedureAnalysisResu
 
 // HELPER FUNCTIONS
 // ================================================================================================
+/**
+ * Inverses of trace-dependent values are not polynomials in trace registers, and thus, degree
+ * of constraints which include them cannot be inferred; inverses of static values are fine.
+ * The error is located at the offending expression when its source location is known.
+ */
+function validateInversion(e: Expression, info: ExpressionInfo, ctx: AnalysisContext, errorMessage: string): void {
+    if (ctx.procedure !== 'evaluation') return;
+    for (let item of flattenInfo(info)) {
+        if (item.traceRefs.size > 0) {
+            throw e.span ? new SourceError(errorMessage, e.span) : new Error(errorMessage);
+        }
+    }
+}
+
+function flattenInfo(info: ExpressionInfo): InfoItem[] {
+    if (!Array.isArray(info)) return [info];
+    let result: InfoItem[] = [];
+    for (let element of info) {
+        result = result.concat(Array.isArray(element) ? element : [element]);
+    }
+    return result;
+}
+
 function dimensionsToInfo(dimensions: Dimensions, degree = 0n, traceRefs = new Set<number>(), staticRefs = new Set<number>()): ExpressionInfo {
     if (Dimensions.isScalar(dimensions)) {
         return { degree, staticRefs, traceRefs };
@@ -212,4 +315,11 @@ function dimensionsToInfo(dimensions: Dimensions, degree = 0n, traceRefs = new S
     else {
         return new Array(dimensions[0]).fill(new Array(dimensions[1]).fill({ degree, staticRefs, traceRefs }));
     }
-}
\ No newline at end of file
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    traceDivisionInEvaluator    : () => `cannot divide by a trace-dependent value: division by values which depend on trace registers is not allowed in constraint evaluator`,
+    traceInversionInEvaluator   : () => `cannot invert a trace-dependent value: inversion of values which depend on trace registers is not allowed in constraint evaluator`
+};
\ No newline at end of file
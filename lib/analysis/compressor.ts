@@ -1,10 +1,27 @@
 // IMPORTS
 // ================================================================================================
-import { AirProcedure } from "../procedures";
+import { FiniteField } from "@guildofweavers/galois";
+import { ProcedureName } from "@guildofweavers/air-assembly";
+import { AirSchema } from "../AirSchema";
+import { AirComponent } from "../AirComponent";
+import { AirProcedure, ProcedureContext, StoreOperation } from "../procedures";
 import {
-    Expression, ExpressionVisitor, LiteralValue, BinaryOperation, UnaryOperation, MakeVector,
-    GetVectorElement, SliceVector, MakeMatrix, LoadExpression, Dimensions
+    Expression, ExpressionVisitor, LiteralValue, BinaryOperation, UnaryOperation, SelectExpression,
+    MakeVector, GetVectorElement, SliceVector, ConcatVectors, RotateVector, ReverseVector, RepeatVector, MakeMatrix,
+    GetMatrixElement, GetMatrixRow, GetMatrixColumn, TransposeMatrix, ComposeBits, CheckBits, LoadExpression,
+    CallExpression
 } from "../expressions";
+import { ProcedureBody, rebuildBody, rebuildSchema, mapDeclarations } from "./rebuilder";
+import { findInlinableSubroutines, reduceSubroutines } from "./subroutines";
+import { validate } from "../utils";
+
+// INTERFACES
+// ================================================================================================
+interface CompressionContext {
+    readonly field      : FiniteField;
+    readonly stores     : Map<StoreOperation, StoreOperation>;
+    readonly inlined    : Map<StoreOperation, Expression>;
+}
 
 // EXPRESSION COMPRESSOR
 // ================================================================================================
@@ -18,63 +35,521 @@ class ExpressionCompressor extends ExpressionVisitor<Expression> {
 
     // OPERATIONS
     // --------------------------------------------------------------------------------------------
-    binaryOperation(e: BinaryOperation): BinaryOperation {
-        const lhs = this.visit(e.lhs);
-        const rhs = this.visit(e.rhs);
+    binaryOperation(e: BinaryOperation, ctx: CompressionContext): Expression {
+        const lhs = this.visit(e.lhs, ctx);
+        const rhs = this.visit(e.rhs, ctx);
+
+        if (lhs instanceof LiteralValue && rhs instanceof LiteralValue) {
+            const value = foldBinaryOperation(e.operation, lhs, rhs, ctx.field);
+            if (value !== undefined) return new LiteralValue(value, ctx.field);
+        }
+        else if (rhs instanceof LiteralValue && rhs.isScalar) {
+            if (isRightIdentity(e.operation, rhs.value as bigint)) return lhs;
+        }
+        else if (lhs instanceof LiteralValue && lhs.isScalar && rhs.isScalar) {
+            if (isLeftIdentity(e.operation, lhs.value as bigint)) return rhs;
+        }
+
         return (e.lhs !== lhs || e.rhs !== rhs)
             ? new BinaryOperation(e.operation, lhs, rhs)
             : e;
     }
 
-    unaryOperation(e: UnaryOperation): UnaryOperation {
-        const operand = this.visit(e.operand);
+    unaryOperation(e: UnaryOperation, ctx: CompressionContext): Expression {
+        const operand = this.visit(e.operand, ctx);
+
+        if (operand instanceof LiteralValue) {
+            const value = foldUnaryOperation(e.operation, operand, ctx.field);
+            if (value !== undefined) return new LiteralValue(value, ctx.field);
+        }
+        else if (operand instanceof UnaryOperation && operand.operation === e.operation) {
+            return operand.operand;
+        }
+
         return (e.operand !== operand)
             ? new UnaryOperation(e.operation, operand)
             : e;
     }
 
+    selectExpression(e: SelectExpression, ctx: CompressionContext): Expression {
+        const condition = this.visit(e.condition, ctx);
+        const onTrue = this.visit(e.onTrue, ctx);
+        const onFalse = this.visit(e.onFalse, ctx);
+
+        if (condition instanceof LiteralValue) {
+            return (condition.value === 1n) ? onTrue : onFalse;
+        }
+
+        return (e.condition !== condition || e.onTrue !== onTrue || e.onFalse !== onFalse)
+            ? new SelectExpression(condition, onTrue, onFalse)
+            : e;
+    }
+
     // VECTORS AND MATRIXES
     // --------------------------------------------------------------------------------------------
-    makeVector(e: MakeVector): MakeVector {
-        let elements = e.elements.map(e => this.visit(e));
-        return new MakeVector(elements);
+    makeVector(e: MakeVector, ctx: CompressionContext): Expression {
+        let elements: Expression[] = [];
+        for (let element of e.elements) {
+            element = this.visit(element, ctx);
+            if (element instanceof MakeVector) {
+                elements = elements.concat(element.elements);
+            }
+            else {
+                elements.push(element);
+            }
+        }
+
+        // merge adjacent element reads from the same vector into slices
+        let group: (GetVectorElement | SliceVector)[] = [];
+        for (let element of elements) {
+            if (element instanceof GetVectorElement || element instanceof SliceVector) {
+                if (isAdjacent(group, element) && isSameSource(group[0].source, element.source)) {
+                    group.push(element);
+                    continue;
+                }
+                compressGroup(elements, group);
+                group = [element];
+            }
+            else {
+                compressGroup(elements, group);
+                group = [];
+            }
+        }
+        compressGroup(elements, group);
+
+        elements = elements
+            .filter(e => e !== undefined)
+            .map(e => e instanceof SliceVector ? getSlice(e.source, e.start, e.end, ctx.field) : e);
+        return buildVector(elements, ctx.field);
+    }
+
+    getVectorElement(e: GetVectorElement, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return getElement(source, e.index, ctx.field);
+    }
+
+    sliceVector(e: SliceVector, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return getSlice(source, e.start, e.end, ctx.field);
+    }
+
+    concatVectors(e: ConcatVectors, ctx: CompressionContext): Expression {
+        // concatenation is compressed as a vector built out of vectors so that elements can be merged
+        return this.makeVector(new MakeVector(e.elements), ctx);
     }
 
-    getVectorElement(e: GetVectorElement): Expression {
-        let source = this.visit(e.source);
-        if (source instanceof MakeVector) {
-            let element = source.getElementFor(e.index);
-            if (element instanceof LiteralValue) return element;
+    rotateVector(e: RotateVector, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return rotate(source, e.offset, ctx.field);
+    }
+
+    reverseVector(e: ReverseVector, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        if (source instanceof LiteralValue) {
+            return new LiteralValue(source.elements.slice().reverse(), ctx.field);
+        }
+        else if (source instanceof ReverseVector) {
+            return source.source;
         }
+        return new ReverseVector(source);
+    }
 
-        return (e.source !== source)
-            ? new GetVectorElement(source, e.index)
-            : e;
+    repeatVector(e: RepeatVector, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        if (source instanceof LiteralValue) {
+            const elements = source.elements;
+            const values = new Array<bigint>(elements.length * e.count);
+            for (let i = 0; i < values.length; i++) {
+                values[i] = elements[i % elements.length];
+            }
+            return new LiteralValue(values, ctx.field);
+        }
+        else if (e.count === 1 && source.isVector) {
+            return source;
+        }
+        return new RepeatVector(source, e.count);
     }
 
-    sliceVector(e: SliceVector): SliceVector {
-        let source = this.visit(e.source);
-        return new SliceVector(source, e.start, e.end);
+    makeMatrix(e: MakeMatrix, ctx: CompressionContext): Expression {
+        const rows = e.elements.map(row => row.map(element => this.visit(element, ctx)));
+        if (rows.every(row => row.every(element => element instanceof LiteralValue))) {
+            const values = rows.map(row => row.map(element => (element as LiteralValue).value as bigint));
+            return new LiteralValue(values, ctx.field);
+        }
+        return new MakeMatrix(rows);
     }
 
-    makeMatrix(e: MakeMatrix): Expression {
-        return e;
+    getMatrixElement(e: GetMatrixElement, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return getCell(source, e.row, e.column, ctx.field);
+    }
+
+    getMatrixRow(e: GetMatrixRow, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return getRow(source, e.index, ctx.field);
+    }
+
+    getMatrixColumn(e: GetMatrixColumn, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return getColumn(source, e.index, ctx.field);
+    }
+
+    transposeMatrix(e: TransposeMatrix, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return transpose(source, ctx.field);
+    }
+
+    // BIT OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    composeBits(e: ComposeBits, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        if (source instanceof LiteralValue) {
+            const bits = source.elements;
+            let value = ctx.field.zero;
+            for (let i = bits.length - 1; i >= 0; i--) {
+                value = ctx.field.add(ctx.field.mul(value, 2n), bits[i]);
+            }
+            return new LiteralValue(value, ctx.field);
+        }
+        return new ComposeBits(source);
+    }
+
+    checkBits(e: CheckBits, ctx: CompressionContext): Expression {
+        const source = this.visit(e.source, ctx);
+        if (source instanceof LiteralValue) {
+            const f = ctx.field;
+            const values = source.elements.map(bit => f.mul(bit, f.sub(bit, f.one)));
+            return new LiteralValue(source.isScalar ? values[0] : values, f);
+        }
+        return new CheckBits(source);
     }
 
     // LOAD AND STORE
     // --------------------------------------------------------------------------------------------
-    loadExpression(e: LoadExpression): LoadExpression {
+    loadExpression(e: LoadExpression, ctx: CompressionContext): Expression {
+        if (e.binding instanceof StoreOperation) {
+            const expression = ctx.inlined.get(e.binding);
+            if (expression) return expression;
+
+            const binding = ctx.stores.get(e.binding);
+            if (binding) {
+                return (binding.expression instanceof LiteralValue)
+                    ? binding.expression
+                    : new LoadExpression(binding, e.index);
+            }
+        }
         return e;
     }
+
+    // CALL EXPRESSION
+    // --------------------------------------------------------------------------------------------
+    callExpression(e: CallExpression, ctx: CompressionContext): Expression {
+        const params = e.params.map(p => this.visit(p, ctx));
+        return params.some((p, i) => p !== e.params[i])
+            ? new CallExpression(e.func, e.index, params)
+            : e;
+    }
 }
 
+// PUBLIC FUNCTIONS
+// ================================================================================================
 const compressor = new ExpressionCompressor();
-export function compressProcedure(proc: AirProcedure) {
-    return undefined as any; // TODO
+
+/**
+ * Builds a new procedure from the provided procedure by inlining local variables which are
+ * loaded only once, removing unused local variables, and compressing all expressions. The new
+ * procedure is built in the provided context; the context must be created for a component of
+ * the schema which contains the original procedure.
+ * 
+ * If a schema is provided instead, a copy of the schema is returned in which the specified
+ * procedure of the specified component is compressed; all other procedures are copied as is.
+ */
+export function compressProcedure(procedure: AirProcedure, context: ProcedureContext): AirProcedure;
+export function compressProcedure(schema: AirSchema, component: string, procedure: ProcedureName): AirSchema;
+export function compressProcedure(source: AirProcedure | AirSchema, target: ProcedureContext | string, name?: ProcedureName): AirProcedure | AirSchema {
+    if (source instanceof AirProcedure) {
+        return compressProcedureInto(source, target as ProcedureContext);
+    }
+
+    const component = source.components.get(target as string);
+    validate(component, errors.componentNotFound(target));
+    const procedure = getProcedure(component, name!);
+    const field = source.field;
+    return rebuildSchema(source, body => (body === procedure) ? compressSubroutines(body, field) : body);
+}
+
+function compressProcedureInto(procedure: AirProcedure, context: ProcedureContext): AirProcedure {
+    validate(procedure.name === context.name, errors.procedureNameMismatch(procedure.name, context.name));
+    procedure.params.forEach(p => context.addParam(p.dimensions, p.handle));
+
+    const { constants, functions } = mapDeclarations(context);
+    const body = rebuildBody(compressSubroutines(procedure, context.field), context, constants, functions);
+    return new AirProcedure(context, body.statements, body.result);
+}
+
+/** Inlines single-use local variables, compresses expressions, and removes unused statements */
+export function compressSubroutines(body: ProcedureBody, field: FiniteField): ProcedureBody {
+    const inlined = findInlinableSubroutines(body);
+    return reduceSubroutines(compressExpressions(body, field, inlined));
+}
+
+/**
+ * Folds operations on literal values, removes identity operations, and simplifies vector
+ * element access for all expressions in the body. Locals which are assigned literal values
+ * are replaced with these values at the point of load; values of inlined statements replace
+ * their loads unconditionally.
+ */
+export function compressExpressions(body: ProcedureBody, field: FiniteField, inlined?: Set<StoreOperation>): ProcedureBody {
+    const ctx: CompressionContext = { field, stores: new Map(), inlined: new Map() };
+
+    const statements: StoreOperation[] = [];
+    for (let s of body.statements) {
+        const expression = compressor.visit(s.expression, ctx);
+        if (inlined && inlined.has(s)) {
+            ctx.inlined.set(s, expression);
+        }
+        else {
+            const statement = new StoreOperation(s.target, expression, s.handle);
+            ctx.stores.set(s, statement);
+            statements.push(statement);
+        }
+    }
+    const result = compressor.visit(body.result, ctx);
+
+    return { locals: body.locals, statements, result };
 }
 
 // HELPER FUNCTIONS
 // ================================================================================================
+function getProcedure(component: AirComponent, name: ProcedureName): AirProcedure {
+    switch (name) {
+        case 'init':        return component.traceInitializer;
+        case 'transition':  return component.transitionFunction;
+        case 'evaluation':  return component.constraintEvaluator;
+        case 'auxiliary': {
+            validate(component.auxiliaryFunction, errors.procedureNotDefined(name, component.name));
+            return component.auxiliaryFunction;
+        }
+        default: throw new Error(errors.procedureNameInvalid(name));
+    }
+}
+
+function foldBinaryOperation(operation: string, lhs: LiteralValue, rhs: LiteralValue, field: FiniteField) {
+    let op: (a: bigint, b: bigint) => bigint;
+    switch (operation) {
+        case 'add': { op = (a, b) => field.add(a, b); break; }
+        case 'sub': { op = (a, b) => field.sub(a, b); break; }
+        case 'mul': { op = (a, b) => field.mul(a, b); break; }
+        case 'div': {
+            if (rhs.elements.includes(0n)) return undefined;
+            op = (a, b) => field.div(a, b);
+            break;
+        }
+        case 'exp': { op = (a, b) => field.exp(a, b); break; }
+        default: return undefined;
+    }
+
+    const rValues = rhs.elements;
+    const values = lhs.elements.map((v, i) => op(v, rhs.isScalar ? rValues[0] : rValues[i]));
+    return toLiteralValue(values, lhs);
+}
+
+function foldUnaryOperation(operation: string, operand: LiteralValue, field: FiniteField) {
+    let op: (a: bigint) => bigint;
+    switch (operation) {
+        case 'neg': { op = (a) => field.neg(a); break; }
+        case 'inv': {
+            if (operand.elements.includes(0n)) return undefined;
+            op = (a) => field.inv(a);
+            break;
+        }
+        default: return undefined;
+    }
+
+    return toLiteralValue(operand.elements.map(op), operand);
+}
+
+function toLiteralValue(values: bigint[], template: LiteralValue): bigint | bigint[] | bigint[][] {
+    if (template.isScalar) return values[0];
+    else if (template.isVector) return values;
+    else {
+        const colCount = template.dimensions[1];
+        const rows: bigint[][] = [];
+        for (let i = 0; i < values.length; i += colCount) {
+            rows.push(values.slice(i, i + colCount));
+        }
+        return rows;
+    }
+}
+
+function isRightIdentity(operation: string, value: bigint): boolean {
+    switch (operation) {
+        case 'add': case 'sub':             return value === 0n;
+        case 'mul': case 'div': case 'exp': return value === 1n;
+        default:                            return false;
+    }
+}
+
+function isLeftIdentity(operation: string, value: bigint): boolean {
+    switch (operation) {
+        case 'add': return value === 0n;
+        case 'mul': return value === 1n;
+        default:    return false;
+    }
+}
+
+function buildVector(elements: Expression[], field: FiniteField): Expression {
+    if (elements.every(e => e instanceof LiteralValue)) {
+        let values: bigint[] = [];
+        for (let element of elements) {
+            values = values.concat((element as LiteralValue).elements);
+        }
+        return new LiteralValue(values, field);
+    }
+    else if (elements.length === 1 && elements[0].isVector) {
+        return elements[0];
+    }
+    return new MakeVector(elements);
+}
+
+function getElement(source: Expression, index: number, field: FiniteField): Expression {
+    if (source instanceof LiteralValue) {
+        return new LiteralValue(source.elements[index], field);
+    }
+    else if (source instanceof SliceVector) {
+        return getElement(source.source, source.start + index, field);
+    }
+    else if (source instanceof RotateVector) {
+        return getElement(source.source, (index + source.offset) % source.dimensions[0], field);
+    }
+    else if (source instanceof ReverseVector) {
+        return getElement(source.source, source.dimensions[0] - index - 1, field);
+    }
+    else if (source instanceof RepeatVector) {
+        return source.source.isScalar
+            ? source.source
+            : getElement(source.source, index % source.source.dimensions[0], field);
+    }
+    else if (source instanceof MakeVector) {
+        let position = 0;
+        for (let element of source.elements) {
+            const length = element.isScalar ? 1 : element.dimensions[0];
+            if (index < position + length) {
+                return element.isScalar ? element : getElement(element, index - position, field);
+            }
+            position += length;
+        }
+    }
+    return new GetVectorElement(source, index);
+}
+
+function getSlice(source: Expression, start: number, end: number, field: FiniteField): Expression {
+    if (start === 0 && end === source.dimensions[0] - 1) {
+        return source;
+    }
+    else if (source instanceof LiteralValue) {
+        return new LiteralValue(source.elements.slice(start, end + 1), field);
+    }
+    else if (source instanceof SliceVector) {
+        return getSlice(source.source, source.start + start, source.start + end, field);
+    }
+    else if (source instanceof MakeVector) {
+        const elements: Expression[] = [];
+        let position = 0;
+        for (let element of source.elements) {
+            const length = element.isScalar ? 1 : element.dimensions[0];
+            const elementEnd = position + length - 1;
+            if (elementEnd >= start && position <= end) {
+                if (element.isScalar) {
+                    elements.push(element);
+                }
+                else {
+                    const sliceStart = Math.max(start, position) - position;
+                    const sliceEnd = Math.min(end, elementEnd) - position;
+                    elements.push(getSlice(element, sliceStart, sliceEnd, field));
+                }
+            }
+            position += length;
+        }
+        return buildVector(elements, field);
+    }
+    return new SliceVector(source, start, end);
+}
+
+function rotate(source: Expression, offset: number, field: FiniteField): Expression {
+    if (offset === 0) {
+        return source;
+    }
+    else if (source instanceof LiteralValue) {
+        const elements = source.elements;
+        return new LiteralValue([...elements.slice(offset), ...elements.slice(0, offset)], field);
+    }
+    else if (source instanceof RotateVector) {
+        return rotate(source.source, (source.offset + offset) % source.dimensions[0], field);
+    }
+    return new RotateVector(source, offset);
+}
+
+function getCell(source: Expression, row: number, column: number, field: FiniteField): Expression {
+    if (source instanceof LiteralValue) {
+        return new LiteralValue((source.value as bigint[][])[row][column], field);
+    }
+    else if (source instanceof MakeMatrix) {
+        return source.elements[row][column];
+    }
+    else if (source instanceof TransposeMatrix) {
+        return getCell(source.source, column, row, field);
+    }
+    return new GetMatrixElement(source, row, column);
+}
+
+function getRow(source: Expression, index: number, field: FiniteField): Expression {
+    if (source instanceof LiteralValue) {
+        return new LiteralValue((source.value as bigint[][])[index], field);
+    }
+    else if (source instanceof MakeMatrix) {
+        return buildVector(source.elements[index], field);
+    }
+    else if (source instanceof TransposeMatrix) {
+        return getColumn(source.source, index, field);
+    }
+    return new GetMatrixRow(source, index);
+}
+
+function getColumn(source: Expression, index: number, field: FiniteField): Expression {
+    if (source instanceof LiteralValue) {
+        return new LiteralValue((source.value as bigint[][]).map(row => row[index]), field);
+    }
+    else if (source instanceof MakeMatrix) {
+        return buildVector(source.elements.map(row => row[index]), field);
+    }
+    else if (source instanceof TransposeMatrix) {
+        return getRow(source.source, index, field);
+    }
+    return new GetMatrixColumn(source, index);
+}
+
+function transpose(source: Expression, field: FiniteField): Expression {
+    if (source instanceof LiteralValue) {
+        const values = source.value as bigint[][];
+        return new LiteralValue(values[0].map((_, i) => values.map(row => row[i])), field);
+    }
+    else if (source instanceof MakeMatrix) {
+        const rows = source.elements;
+        return new MakeMatrix(rows[0].map((_, i) => rows.map(row => row[i])));
+    }
+    else if (source instanceof TransposeMatrix) {
+        return source.source;
+    }
+    return new TransposeMatrix(source);
+}
+
+function isSameSource(s1: Expression, s2: Expression): boolean {
+    if (s1 === s2) return true;
+    return (s1 instanceof LoadExpression && s2 instanceof LoadExpression
+        && s1.binding === s2.binding && s1.index === s2.index);
+}
+
 function isAdjacent(group: (GetVectorElement | SliceVector)[], element: GetVectorElement | SliceVector): boolean {
     if (group.length < 1) return false;
     const groupEnd = group[group.length - 1].end;
@@ -83,7 +558,7 @@ function isAdjacent(group: (GetVectorElement | SliceVector)[], element: GetVecto
 
 function compressGroup(elements: Expression[], group: (GetVectorElement | SliceVector)[]) {
     if (group.length < 2) return;
-    
+
     const firstElement = group[0], lastElement = group[group.length - 1];
     let i = elements.indexOf(firstElement);
     elements[i] = new SliceVector(firstElement.source, firstElement.start, lastElement.end);
@@ -92,4 +567,13 @@ function compressGroup(elements: Expression[], group: (GetVectorElement | SliceV
     for (let j = 1; j < group.length; j++, i++) {
         elements[i] = undefined as any;
     }
-}
\ No newline at end of file
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    procedureNameMismatch   : (p: any, c: any) => `cannot compress ${p} procedure into a ${c} procedure context`,
+    componentNotFound       : (n: any) => `component with name '${n}' does not exist in the provided schema`,
+    procedureNotDefined     : (p: any, c: any) => `${p} procedure is not defined for component '${c}'`,
+    procedureNameInvalid    : (p: any) => `procedure name '${p}' is invalid`
+};
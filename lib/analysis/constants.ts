@@ -0,0 +1,100 @@
+// IMPORTS
+// ================================================================================================
+import { AirSchema } from "../AirSchema";
+import { Constant, StoreOperation } from "../procedures";
+import { Expression, ExpressionTransformer, LiteralValue, LoadExpression } from "../expressions";
+import { rebuildSchema, ProcedureBody } from "./rebuilder";
+import { transformExpression } from "./utils";
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+/**
+ * Replaces all loads of scalar constants with literal values, and removes scalar constants from
+ * the schema.
+ */
+export function inlineScalarConstants(schema: AirSchema): AirSchema {
+    const field = schema.field;
+    const constants = schema.constants.filter(c => !c.isScalar);
+
+    return rebuildSchema(schema, body => transformBody(body, e => {
+        if (e instanceof LoadExpression && e.binding instanceof Constant && e.binding.isScalar) {
+            return new LiteralValue(e.binding.value.value, field);
+        }
+        return e;
+    }), constants);
+}
+
+/**
+ * Replaces all non-scalar literal values with loads of module constants. Literal values which
+ * are equal to an existing constant are replaced with loads of that constant.
+ */
+export function extractNonScalarConstants(schema: AirSchema): AirSchema {
+    const field = schema.field;
+    const constants = schema.constants.slice();
+
+    const constantMap = new Map<string, Constant>();
+    for (let constant of constants) {
+        if (constant.isScalar) continue;
+        const key = constant.value.toString();
+        if (!constantMap.has(key)) {
+            constantMap.set(key, constant);
+        }
+    }
+
+    const literals: LiteralValue[] = [];
+    forEachBody(schema, body => {
+        body.statements.forEach(s => collectNonScalarLiterals(s.expression, literals));
+        collectNonScalarLiterals(body.result, literals);
+    });
+
+    for (let literal of literals) {
+        const key = literal.toString();
+        if (!constantMap.has(key)) {
+            const constant = new Constant(new LiteralValue(literal.value, field));
+            constantMap.set(key, constant);
+            constants.push(constant);
+        }
+    }
+
+    return rebuildSchema(schema, body => transformBody(body, e => {
+        if (e instanceof LiteralValue && !e.isScalar) {
+            const constant = constantMap.get(e.toString())!;
+            return new LoadExpression(constant, constants.indexOf(constant));
+        }
+        return e;
+    }), constants);
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function transformBody(body: ProcedureBody, transformer: ExpressionTransformer): ProcedureBody {
+    const statements = body.statements.map(s => {
+        const expression = transformExpression(s.expression, transformer);
+        return (expression !== s.expression) ? new StoreOperation(s.target, expression, s.handle) : s;
+    });
+    const result = transformExpression(body.result, transformer);
+    return { locals: body.locals, statements, result };
+}
+
+function forEachBody(schema: AirSchema, callback: (body: ProcedureBody) => void): void {
+    schema.functions.forEach(callback);
+    schema.components.forEach(component => {
+        callback(component.traceInitializer);
+        callback(component.transitionFunction);
+        if (component.auxiliaryFunction) callback(component.auxiliaryFunction);
+        callback(component.constraintEvaluator);
+    });
+}
+
+function collectNonScalarLiterals(e: Expression, result: LiteralValue[]): void {
+    if (e instanceof LiteralValue) {
+        if (!e.isScalar) {
+            result.push(e);
+        }
+    }
+    else {
+        for (let child of e.children) {
+            collectNonScalarLiterals(child, result);
+        }
+    }
+}
@@ -0,0 +1,113 @@
+// IMPORTS
+// ================================================================================================
+import { FiniteField } from "@guildofweavers/galois";
+import { AirSchema } from "../AirSchema";
+import { AirFunction, Constant } from "../procedures";
+import { Expression, LoadExpression, CallExpression } from "../expressions";
+import { ExtensionField } from "../fields";
+import { rebuildBody, ProcedureBody } from "./rebuilder";
+import { validate } from "../utils";
+
+// INTERFACES
+// ================================================================================================
+type Declaration = Constant | AirFunction;
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+/**
+ * Copies constants and functions identified by the handles from the source schema into the target
+ * schema. Declarations which imported functions depend on are copied as well; dependencies which
+ * were not requested explicitly keep their handles unless the handles are already declared in the
+ * target schema. Returns handles of all declarations copied with handles.
+ */
+export function importDeclarations(target: AirSchema, source: AirSchema, handles: string[], path: string): string[] {
+    validate(areSameFields(target.field, source.field), errors.fieldMismatch(path));
+
+    // find requested declarations and everything they depend on
+    const requested = new Set<Declaration>();
+    const included = new Set<Declaration>();
+    for (let handle of handles) {
+        const declaration = findDeclaration(source, handle);
+        validate(declaration !== undefined, errors.handleNotDeclared(handle, path));
+        requested.add(declaration);
+        collectDependencies(declaration, included);
+    }
+
+    // copy constants, preserving their relative order
+    const imported: string[] = [];
+    const getHandle = (declaration: Declaration) => {
+        const handle = declaration.handle;
+        if (!handle || (!requested.has(declaration) && target.hasHandle(handle))) return undefined;
+        imported.push(handle);
+        return handle;
+    };
+
+    const constantMap = new Map<Constant, number>();
+    source.constants.forEach(constant => {
+        if (!included.has(constant)) return;
+        const handle = getHandle(constant);
+        constantMap.set(constant, target.constantCount);
+        target.addConstant(constant.value.value, handle);
+    });
+
+    // copy functions; a function can call only the functions declared before it, so copying
+    // them in the original order guarantees that all callees are copied first
+    const functionMap = new Map<AirFunction, number>();
+    source.functions.forEach(func => {
+        if (!included.has(func)) return;
+        const handle = getHandle(func);
+        const context = target.createFunctionContext(func.dimensions, handle);
+        func.params.forEach(p => context.addParam(p.dimensions, p.handle));
+        const body = rebuildBody(func, context, constantMap, functionMap);
+        functionMap.set(func, target.functions.length);
+        target.addFunction(context, body.statements, body.result);
+    });
+
+    return imported;
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function areSameFields(f1: FiniteField, f2: FiniteField): boolean {
+    if (f1.characteristic !== f2.characteristic) return false;
+    if (f1.extensionDegree !== f2.extensionDegree) return false;
+    if (f1 instanceof ExtensionField && f2 instanceof ExtensionField) {
+        return f1.polynomial.every((c, i) => c === f2.polynomial[i]);
+    }
+    return true;
+}
+
+function findDeclaration(schema: AirSchema, handle: string): Declaration | undefined {
+    return schema.constants.find(c => c.handle === handle)
+        || schema.functions.find(f => f.handle === handle);
+}
+
+function collectDependencies(declaration: Declaration, result: Set<Declaration>): void {
+    if (result.has(declaration)) return;
+    result.add(declaration);
+    if (declaration instanceof AirFunction) {
+        const body: ProcedureBody = declaration;
+        body.statements.forEach(s => collectExpressionDependencies(s.expression, result));
+        collectExpressionDependencies(body.result, result);
+    }
+}
+
+function collectExpressionDependencies(e: Expression, result: Set<Declaration>): void {
+    if (e instanceof LoadExpression && e.binding instanceof Constant) {
+        result.add(e.binding);
+    }
+    else if (e instanceof CallExpression) {
+        collectDependencies(e.func, result);
+    }
+
+    for (let child of e.children) {
+        collectExpressionDependencies(child, result);
+    }
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    fieldMismatch       : (p: any) => `cannot import from '${p}': imported module is defined over a different field`,
+    handleNotDeclared   : (h: any, p: any) => `cannot import ${h} from '${p}': ${h} is not declared in the imported module`
+};
\ No newline at end of file
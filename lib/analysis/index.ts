@@ -1 +1,3 @@
-export { analyzeProcedure } from './analyzer';
\ No newline at end of file
+export { analyzeProcedure } from './analyzer';
+export { optimizeSchema } from './optimizer';
+export { compressProcedure } from './compressor';
@@ -104,6 +104,57 @@ export function sumDegree(d1: bigint, d2: bigint): bigint {
     return d1 + d2;
 }
 
+// VECTOR MANIPULATION FUNCTIONS
+// ================================================================================================
+export function rotateVector(source: ExpressionInfo, offset: number): InfoItem[] {
+    const items = source as InfoItem[];
+    return [...items.slice(offset), ...items.slice(0, offset)];
+}
+
+export function reverseVector(source: ExpressionInfo): InfoItem[] {
+    return (source as InfoItem[]).slice().reverse();
+}
+
+export function repeatVector(source: ExpressionInfo, count: number): InfoItem[] {
+    const items = Array.isArray(source) ? source as InfoItem[] : [source as InfoItem];
+    let result: InfoItem[] = [];
+    for (let i = 0; i < count; i++) {
+        result = result.concat(items);
+    }
+    return result;
+}
+
+// MATRIX ACCESS FUNCTIONS
+// ================================================================================================
+export function extractMatrixElement(source: ExpressionInfo, row: number, column: number): InfoItem {
+    return (source as InfoItem[][])[row][column];
+}
+
+export function extractMatrixRow(source: ExpressionInfo, index: number): InfoItem[] {
+    return (source as InfoItem[][])[index].slice();
+}
+
+export function extractMatrixColumn(source: ExpressionInfo, index: number): InfoItem[] {
+    return (source as InfoItem[][]).map(row => row[index]);
+}
+
+export function transposeMatrix(source: ExpressionInfo): InfoItem[][] {
+    const rows = source as InfoItem[][];
+    return rows[0].map((_, j) => rows.map(row => row[j]));
+}
+
+// BIT OPERATION FUNCTIONS
+// ================================================================================================
+export function composeBits(source: ExpressionInfo): InfoItem {
+    const items = source as InfoItem[];
+    return items.reduce((result, item) => applySimpleOperation(maxDegree, result, item) as InfoItem);
+}
+
+export function checkBits(source: ExpressionInfo): ExpressionInfo {
+    // v * (v - 1) has twice the degree of v
+    return applyExponentOperation(source, 2n);
+}
+
 // HELPER FUNCTIONS
 // ================================================================================================
 function applyToVector(op: DegreeOp, lhs: InfoItem[], rhs: InfoItem[] | InfoItem): InfoItem[] {
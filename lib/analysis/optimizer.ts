@@ -1,16 +1,31 @@
 // IMPORTS
 // ================================================================================================
-import { AirSchema } from "@guildofweavers/air-assembly";
+import { AirSchema } from "../AirSchema";
+import { rebuildSchema } from "./rebuilder";
+import { reduceSubroutines } from "./subroutines";
+import { inlineScalarConstants, extractNonScalarConstants } from "./constants";
+import { compressSubroutines, compressExpressions } from "./compressor";
+import { extractCommonExpressions } from "./subexpressions";
 
 // PUBLIC FUNCTIONS
 // ================================================================================================
 export function optimizeSchema(schema: AirSchema): AirSchema {
 
-    // reduce subroutines
+    // inline single-use local variables, compress expressions, and remove unused statements
+    const field = schema.field;
+    schema = rebuildSchema(schema, body => compressSubroutines(body, field));
+
     // inline scalar constants
-    // compress expressions
+    schema = inlineScalarConstants(schema);
+
+    // fold expressions over inlined constants, and remove statements which became unused
+    schema = rebuildSchema(schema, body => reduceSubroutines(compressExpressions(body, field)));
+
     // pull out non-scalar constants
+    schema = extractNonScalarConstants(schema);
+
     // pull out common sub-expressions
+    schema = rebuildSchema(schema, extractCommonExpressions);
 
-    return undefined as any;
-}
\ No newline at end of file
+    return schema;
+}
@@ -0,0 +1,305 @@
+// IMPORTS
+// ================================================================================================
+import { AirSchema } from "../AirSchema";
+import { AirComponent } from "../AirComponent";
+import {
+    AirFunction, AirProcedure, Constant, ExecutionContext, LocalVariable, Parameter, StoreOperation
+} from "../procedures";
+import {
+    Expression, ExpressionVisitor, LiteralValue, BinaryOperation, UnaryOperation, SelectExpression,
+    MakeVector, GetVectorElement, SliceVector, ConcatVectors, RotateVector, ReverseVector, RepeatVector, MakeMatrix,
+    GetMatrixElement, GetMatrixRow, GetMatrixColumn, TransposeMatrix, ComposeBits, CheckBits, LoadExpression, CallExpression, TraceSegment
+} from "../expressions";
+import { InputRegister, MaskRegister, CyclicRegister, ConstantSequence } from "../registers";
+import { ExtensionField } from "../fields";
+
+// INTERFACES
+// ================================================================================================
+export interface ProcedureBody {
+    readonly locals     : ReadonlyArray<LocalVariable>;
+    readonly statements : ReadonlyArray<StoreOperation>;
+    readonly result     : Expression;
+}
+
+export interface BodyTransformer {
+    (body: ProcedureBody): ProcedureBody;
+}
+
+interface RebuildContext {
+    readonly execution  : ExecutionContext;
+    readonly constants  : Map<Constant, number>;
+    readonly functions  : Map<AirFunction, number>;
+    readonly locals     : Map<number, number>;
+}
+
+// EXPRESSION REBUILDER
+// ================================================================================================
+class ExpressionRebuilder extends ExpressionVisitor<Expression> {
+
+    // LITERALS
+    // --------------------------------------------------------------------------------------------
+    literalValue(e: LiteralValue, ctx: RebuildContext): Expression {
+        return ctx.execution.buildLiteralValue(e.value);
+    }
+
+    // OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    binaryOperation(e: BinaryOperation, ctx: RebuildContext): Expression {
+        const lhs = this.visit(e.lhs, ctx);
+        const rhs = this.visit(e.rhs, ctx);
+        return ctx.execution.buildBinaryOperation(e.operation, lhs, rhs);
+    }
+
+    unaryOperation(e: UnaryOperation, ctx: RebuildContext): Expression {
+        const operand = this.visit(e.operand, ctx);
+        return ctx.execution.buildUnaryOperation(e.operation, operand);
+    }
+
+    selectExpression(e: SelectExpression, ctx: RebuildContext): Expression {
+        const condition = this.visit(e.condition, ctx);
+        const onTrue = this.visit(e.onTrue, ctx);
+        const onFalse = this.visit(e.onFalse, ctx);
+        return ctx.execution.buildSelectExpression(condition, onTrue, onFalse);
+    }
+
+    // VECTORS AND MATRIXES
+    // --------------------------------------------------------------------------------------------
+    makeVector(e: MakeVector, ctx: RebuildContext): Expression {
+        const elements = e.elements.map(element => this.visit(element, ctx));
+        return ctx.execution.buildMakeVectorExpression(elements);
+    }
+
+    getVectorElement(e: GetVectorElement, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildGetVectorElementExpression(source, e.index);
+    }
+
+    sliceVector(e: SliceVector, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildSliceVectorExpression(source, e.start, e.end);
+    }
+
+    concatVectors(e: ConcatVectors, ctx: RebuildContext): Expression {
+        const elements = e.elements.map(element => this.visit(element, ctx));
+        return ctx.execution.buildConcatVectorsExpression(elements);
+    }
+
+    rotateVector(e: RotateVector, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildRotateVectorExpression(source, e.shift);
+    }
+
+    reverseVector(e: ReverseVector, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildReverseVectorExpression(source);
+    }
+
+    repeatVector(e: RepeatVector, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildRepeatVectorExpression(source, e.count);
+    }
+
+    makeMatrix(e: MakeMatrix, ctx: RebuildContext): Expression {
+        const rows = e.elements.map(row => row.map(element => this.visit(element, ctx)));
+        return ctx.execution.buildMakeMatrixExpression(rows);
+    }
+
+    getMatrixElement(e: GetMatrixElement, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildGetMatrixElementExpression(source, e.row, e.column);
+    }
+
+    getMatrixRow(e: GetMatrixRow, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildGetMatrixRowExpression(source, e.index);
+    }
+
+    getMatrixColumn(e: GetMatrixColumn, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildGetMatrixColumnExpression(source, e.index);
+    }
+
+    transposeMatrix(e: TransposeMatrix, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildTransposeMatrixExpression(source);
+    }
+
+    composeBits(e: ComposeBits, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildComposeBitsExpression(source);
+    }
+
+    checkBits(e: CheckBits, ctx: RebuildContext): Expression {
+        const source = this.visit(e.source, ctx);
+        return ctx.execution.buildCheckBitsExpression(source);
+    }
+
+    // LOAD AND STORE
+    // --------------------------------------------------------------------------------------------
+    loadExpression(e: LoadExpression, ctx: RebuildContext): Expression {
+        const binding = e.binding;
+        if (binding instanceof Constant) {
+            const index = ctx.constants.get(binding);
+            if (index === undefined) throw new Error(`cannot rebuild constant load: constant ${e.index} is not defined`);
+            return ctx.execution.buildLoadExpression('load.const', index);
+        }
+        else if (binding instanceof Parameter) {
+            return ctx.execution.buildLoadExpression('load.param', e.index);
+        }
+        else if (binding instanceof StoreOperation) {
+            const index = ctx.locals.get(binding.target);
+            if (index === undefined) throw new Error(`cannot rebuild local load: local variable ${e.index} is not defined`);
+            return ctx.execution.buildLoadExpression('load.local', index);
+        }
+        else if (binding instanceof TraceSegment) {
+            return ctx.execution.buildLoadExpression(`load.${binding.segment}`, e.index);
+        }
+        else {
+            throw new Error(`invalid load binding: ${binding}`);
+        }
+    }
+
+    // CALL EXPRESSION
+    // --------------------------------------------------------------------------------------------
+    callExpression(e: CallExpression, ctx: RebuildContext): Expression {
+        const index = ctx.functions.get(e.func);
+        if (index === undefined) throw new Error(`cannot rebuild function call: function ${e.index} is not defined`);
+        const params = e.params.map(p => this.visit(p, ctx));
+        return ctx.execution.buildCallExpression(index, params);
+    }
+}
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+const rebuilder = new ExpressionRebuilder();
+
+/**
+ * Builds a copy of the schema by replaying all declarations through a new schema object. Bodies of
+ * functions and procedures are passed through the transformer before they are added to the new schema.
+ * If a list of constants is provided, it will replace constants of the original schema.
+ */
+export function rebuildSchema(schema: AirSchema, transformer: BodyTransformer, constants = schema.constants): AirSchema {
+    const field = schema.field;
+    const result = (field instanceof ExtensionField)
+        ? new AirSchema('extension', field.characteristic, field.extensionDegree, field.polynomial.slice())
+        : new AirSchema('prime', field.characteristic);
+
+    const constantMap = new Map<Constant, number>();
+    constants.forEach((constant, i) => {
+        result.addConstant(constant.value.value, constant.handle);
+        constantMap.set(constant, i);
+    });
+
+    const functionMap = new Map<AirFunction, number>();
+    schema.functions.forEach((func, i) => {
+        const context = result.createFunctionContext(func.dimensions, func.handle);
+        func.params.forEach(p => context.addParam(p.dimensions, p.handle));
+        const body = rebuildBody(transformer(func), context, constantMap, functionMap);
+        result.addFunction(context, body.statements, body.result);
+        functionMap.set(func, i);
+    });
+
+    schema.components.forEach(source => {
+        const registers = source.traceRegisterHandles
+            ? source.traceRegisterHandles.slice()
+            : source.traceRegisterCount;
+        const component = result.createComponent(source.name, registers,
+            source.constraintCount, source.cycleLength, source.frameSize);
+        copyStaticRegisters(source, component, constantMap);
+
+        let procedure = source.traceInitializer;
+        let context = component.createProcedureContext(procedure.name);
+        procedure.params.forEach(p => context.addParam(p.dimensions, p.handle));
+        let body = rebuildBody(transformer(procedure), context, constantMap, functionMap);
+        component.setTraceInitializer(context, body.statements, body.result);
+
+        procedure = source.transitionFunction;
+        context = component.createProcedureContext(procedure.name);
+        body = rebuildBody(transformer(procedure), context, constantMap, functionMap);
+        component.setTransitionFunction(context, body.statements, body.result);
+
+        if (source.auxiliaryFunction) {
+            procedure = source.auxiliaryFunction;
+            component.setAuxiliaryRegisters(source.auxiliaryInitialValues!.slice());
+            context = component.createProcedureContext(procedure.name);
+            procedure.params.forEach(p => context.addParam(p.dimensions, p.handle));
+            body = rebuildBody(transformer(procedure), context, constantMap, functionMap);
+            component.setAuxiliaryFunction(context, body.statements, body.result);
+        }
+
+        procedure = source.constraintEvaluator;
+        context = component.createProcedureContext(procedure.name);
+        procedure.params.forEach(p => context.addParam(p.dimensions, p.handle));
+        body = rebuildBody(transformer(procedure), context, constantMap, functionMap);
+        component.setConstraintEvaluator(context, body.statements, body.result);
+
+        source.permutations.forEach(p => component.addPermutation(p.left.slice(), p.right.slice()));
+        source.lookups.forEach(l => component.addLookup(l.register, l.table));
+        source.outputs.forEach(o => component.addOutput(o.register, o.step));
+        source.assertions.forEach(a => component.addAssertion(a.register, a.step, a.value, a.aux));
+        result.addComponent(component);
+    });
+
+    return result;
+}
+
+/**
+ * Replays the body into the provided execution context. Only local variables which are assigned
+ * values within the body are declared in the context; these variables are renumbered sequentially
+ * in the order of their original declaration.
+ */
+export function rebuildBody(body: ProcedureBody, context: ExecutionContext, constants: Map<Constant, number>, functions: Map<AirFunction, number>) {
+
+    // declare local variables which are still in use
+    const assigned = new Set(body.statements.map(s => s.target));
+    const locals = new Map<number, number>();
+    body.locals.forEach((variable, i) => {
+        if (!assigned.has(i)) return;
+        locals.set(i, context.locals.length);
+        context.addLocal(variable.dimensions, variable.handle);
+    });
+
+    // rebuild statements and result expression
+    const ctx: RebuildContext = { execution: context, constants, functions, locals };
+    const statements = body.statements.map(s => {
+        const value = rebuilder.visit(s.expression, ctx);
+        const index = locals.get(s.target)!;
+        const handle = context.locals[index].handle;
+        return context.buildStoreOperation(handle || index, value);
+    });
+    const result = rebuilder.visit(body.result, ctx);
+
+    return { locals: context.locals, statements, result };
+}
+
+/** Builds lookup maps for constants and functions available within the execution context */
+export function mapDeclarations(context: ExecutionContext) {
+    const constants = new Map<Constant, number>();
+    context.constants.forEach((constant, i) => constants.set(constant, i));
+    const functions = new Map<AirFunction, number>();
+    context.functions.forEach((func, i) => functions.set(func, i));
+    return { constants, functions };
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function copyStaticRegisters(source: AirComponent, target: AirComponent, constantMap: Map<Constant, number>): void {
+    for (let register of source.staticRegisters) {
+        if (register instanceof InputRegister) {
+            const scope = register.secret ? 'secret' : 'public';
+            target.addInputRegister(scope, register.binary, register.master, register.steps, register.offset, register.handle);
+        }
+        else if (register instanceof MaskRegister) {
+            target.addMaskRegister(register.source, register.inverted, register.handle);
+        }
+        else if (register instanceof CyclicRegister) {
+            let values = register.values;
+            if (values instanceof ConstantSequence) {
+                const index = constantMap.get(values.constant);
+                if (index === undefined) throw new Error(`cannot rebuild cyclic register: constant ${values.index} is not defined`);
+                values = target.createConstantSequence(index, values.row);
+            }
+            target.addCyclicRegister(values, register.handle);
+        }
+    }
+}
@@ -0,0 +1,181 @@
+// IMPORTS
+// ================================================================================================
+import { LocalVariable, StoreOperation } from "../procedures";
+import {
+    Expression, LiteralValue, BinaryOperation, UnaryOperation, SelectExpression, GetVectorElement,
+    SliceVector, RotateVector, RepeatVector, GetMatrixElement, GetMatrixRow, GetMatrixColumn, LoadExpression,
+    CallExpression
+} from "../expressions";
+import { ProcedureBody } from "./rebuilder";
+import { transformExpression } from "./utils";
+
+// INTERFACES
+// ================================================================================================
+interface ExpressionIndex {
+    readonly keys       : Map<string, number>;
+    readonly bindings   : Map<object, number>;
+    readonly sizes      : Map<number, number>;
+    readonly entries    : Map<number, Occurrence[]>;
+}
+
+interface Occurrence {
+    readonly expression : Expression;
+    readonly statement  : number;
+}
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+/**
+ * Moves expressions which occur more than once within the body into new local variables. Larger
+ * expressions are extracted first; the body is modified in place.
+ */
+export function extractCommonExpressions(body: ProcedureBody): ProcedureBody {
+    const locals = body.locals.slice();
+    const statements = body.statements.slice();
+    let result = body.result;
+
+    while (true) {
+        const index = indexExpressions(statements, result);
+        const occurrences = findLargestCommonExpression(index);
+        if (!occurrences) break;
+
+        // determine where the value of the expression should be stored
+        const first = occurrences[0];
+        let binding: StoreOperation;
+        if (first.statement < statements.length && statements[first.statement].expression === first.expression
+            && !isReassigned(statements, first.statement, occurrences[occurrences.length - 1].statement))
+        {
+            binding = statements[first.statement];
+        }
+        else {
+            locals.push(new LocalVariable(first.expression.dimensions));
+            binding = new StoreOperation(locals.length - 1, first.expression);
+            statements.splice(first.statement, 0, binding);
+        }
+
+        // replace all other occurrences with loads of the stored value
+        const replaced = new Set(occurrences.map(o => o.expression));
+        const transformer = (e: Expression) => replaced.has(e) ? new LoadExpression(binding, binding.target) : e;
+        for (let i = 0; i < statements.length; i++) {
+            const statement = statements[i];
+            if (statement === binding) continue;
+            const expression = transformExpression(statement.expression, transformer);
+            if (expression !== statement.expression) {
+                statements[i] = new StoreOperation(statement.target, expression, statement.handle);
+            }
+        }
+        result = transformExpression(result, transformer);
+    }
+
+    return { locals, statements, result };
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function indexExpressions(statements: StoreOperation[], result: Expression): ExpressionIndex {
+    const index: ExpressionIndex = {
+        keys: new Map(), bindings: new Map(), sizes: new Map(), entries: new Map()
+    };
+
+    statements.forEach((s, i) => indexExpression(s.expression, i, index));
+    indexExpression(result, statements.length, index);
+    return index;
+}
+
+function indexExpression(e: Expression, statement: number, index: ExpressionIndex): number {
+    let key: string;
+    let size = 1;
+    if (e instanceof LiteralValue) {
+        key = `literal:${e.toString()}`;
+    }
+    else if (e instanceof LoadExpression) {
+        key = `load.${e.source}:${getBindingId(e.binding, index)}:${e.index}`;
+    }
+    else if (e instanceof BinaryOperation && e.operation === 'exp') {
+        // exponents must remain static values, so they are never extracted
+        const lhs = indexExpression(e.lhs, statement, index);
+        key = `exp:${lhs}:${e.rhs.toString()}`;
+        size += index.sizes.get(lhs)!;
+    }
+    else {
+        const children = e.children.map(child => indexExpression(child, statement, index));
+        children.forEach(child => size += index.sizes.get(child)!);
+        if (e instanceof BinaryOperation || e instanceof UnaryOperation) {
+            key = `${e.operation}:${children.join(',')}`;
+        }
+        else if (e instanceof CallExpression) {
+            key = `call:${getBindingId(e.func, index)}:${children.join(',')}`;
+        }
+        else if (e instanceof GetVectorElement) {
+            key = `get:${children[0]}:${e.index}`;
+        }
+        else if (e instanceof SliceVector) {
+            key = `slice:${children[0]}:${e.start}:${e.end}`;
+        }
+        else if (e instanceof RotateVector) {
+            key = `rotate:${children[0]}:${e.offset}`;
+        }
+        else if (e instanceof RepeatVector) {
+            key = `repeat:${children[0]}:${e.count}`;
+        }
+        else if (e instanceof GetMatrixElement) {
+            key = `get:${children[0]}:${e.row}:${e.column}`;
+        }
+        else if (e instanceof GetMatrixRow) {
+            key = `get.row:${children[0]}:${e.index}`;
+        }
+        else if (e instanceof GetMatrixColumn) {
+            key = `get.col:${children[0]}:${e.index}`;
+        }
+        else {
+            key = `${e.constructor.name}:${e.dimensions.join('x')}:${children.join(',')}`;
+        }
+    }
+
+    let id = index.keys.get(key);
+    if (id === undefined) {
+        id = index.keys.size;
+        index.keys.set(key, id);
+        index.sizes.set(id, size);
+    }
+
+    if (e instanceof BinaryOperation || e instanceof UnaryOperation || e instanceof SelectExpression
+        || e instanceof CallExpression) {
+        const entries = index.entries.get(id) || [];
+        entries.push({ expression: e, statement });
+        index.entries.set(id, entries);
+    }
+
+    return id;
+}
+
+function getBindingId(binding: object, index: ExpressionIndex): number {
+    let id = index.bindings.get(binding);
+    if (id === undefined) {
+        id = index.bindings.size;
+        index.bindings.set(binding, id);
+    }
+    return id;
+}
+
+function findLargestCommonExpression(index: ExpressionIndex): Occurrence[] | undefined {
+    let result: Occurrence[] | undefined;
+    let resultSize = 0;
+    for (let [id, occurrences] of index.entries) {
+        if (occurrences.length < 2) continue;
+        const size = index.sizes.get(id)!;
+        if (size > resultSize) {
+            result = occurrences;
+            resultSize = size;
+        }
+    }
+    return result;
+}
+
+function isReassigned(statements: StoreOperation[], start: number, end: number): boolean {
+    const target = statements[start].target;
+    for (let i = start + 1; i < end && i < statements.length; i++) {
+        if (statements[i].target === target) return true;
+    }
+    return false;
+}
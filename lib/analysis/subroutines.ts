@@ -1,37 +1,78 @@
 // IMPORTS
 // ================================================================================================
-import { AirProcedure, StoreOperation } from "../procedures";
+import { StoreOperation } from "../procedures";
 import { Expression, LoadExpression } from "../expressions";
-import { LocalVariable } from "../procedures/LocalVariable";
+import { ProcedureBody } from "./rebuilder";
 
-// PROCEDURE COMPRESSOR
+// PUBLIC FUNCTIONS
 // ================================================================================================
-export function compressProcedure(procedure: AirProcedure): AirProcedure {
-
-    /*
-    let expressions = [...procedure.subroutines.map(s => s.expression), procedure.result];
-    const subroutineReferences = new Map<Subroutine, LoadExpression[]>();
-    expressions.forEach(e => collectSubroutineReferences(e, subroutineReferences));
+/**
+ * Removes statements which store values into local variables when these values are never loaded
+ * by the result expression or by any of the retained statements.
+ */
+export function reduceSubroutines(body: ProcedureBody): ProcedureBody {
+    const subroutineReferences = new Map<StoreOperation, LoadExpression[]>();
+    collectSubroutineReferences(body.result, subroutineReferences);
 
     const retainedSubroutines: StoreOperation[] = [];
-    for (let i = 0; i < procedure.subroutines.length; i++) {
-        let subroutine = procedure.subroutines[i];
-        let references = subroutineReferences.get(subroutine);
-        if (!references) continue;
-        if (references.length === 1) {
-            let reference = references[0];
-            procedure.transformExpressions(e => e === reference ? subroutine.expression : e, i + 1);
+    for (let i = body.statements.length - 1; i >= 0; i--) {
+        let subroutine = body.statements[i];
+        if (!subroutineReferences.has(subroutine)) continue;
+        collectSubroutineReferences(subroutine.expression, subroutineReferences);
+        retainedSubroutines.unshift(subroutine);
+    }
+
+    return { locals: body.locals, statements: retainedSubroutines, result: body.result };
+}
+
+/**
+ * Finds statements which can be inlined into their consumers. A statement can be inlined if the
+ * value it stores is loaded exactly once, and none of the local variables referenced by the
+ * statement are reassigned before the value is loaded.
+ */
+export function findInlinableSubroutines(body: ProcedureBody): Set<StoreOperation> {
+    const statements = body.statements;
+    const positions = new Map<StoreOperation, number>();
+    statements.forEach((s, i) => positions.set(s, i));
+
+    // determine how many times each subroutine is referenced, and where it is referenced from;
+    // position equal to the number of statements means a reference from the result expression
+    const subroutineReferences = new Map<StoreOperation, LoadExpression[]>();
+    const consumers = new Map<StoreOperation, number>();
+    const dependencies = new Map<StoreOperation, StoreOperation[]>();
+    [...statements.map(s => s.expression), body.result].forEach((expression, i) => {
+        const references = new Map<StoreOperation, LoadExpression[]>();
+        collectSubroutineReferences(expression, references);
+        references.forEach((loads, subroutine) => {
+            const existing = subroutineReferences.get(subroutine) || [];
+            subroutineReferences.set(subroutine, existing.concat(loads));
+            consumers.set(subroutine, i);
+        });
+        if (i < statements.length) {
+            dependencies.set(statements[i], Array.from(references.keys()));
+        }
+    });
+
+    const result = new Set<StoreOperation>();
+    for (let subroutine of statements) {
+        // dependencies of inlined subroutines move together with them
+        let requirements: StoreOperation[] = [];
+        for (let dependency of dependencies.get(subroutine)!) {
+            requirements = requirements.concat(result.has(dependency)
+                ? dependencies.get(dependency)!
+                : [dependency]);
         }
-        else {
-            retainedSubroutines.push(subroutine);
+        dependencies.set(subroutine, requirements);
+
+        const references = subroutineReferences.get(subroutine);
+        if (!references || references.length !== 1) continue;
+        const consumer = consumers.get(subroutine)!;
+        if (requirements.every(r => !isReassigned(statements, r.target, positions.get(r)!, consumer))) {
+            result.add(subroutine);
         }
     }
 
-    const locals = procedure.locals.forEach(v => new LocalVariable(v));
-
-    procedure.replaceSubroutines(retainedSubroutines);
-    */
-    return procedure;
+    return result;
 }
 
 // HELPER FUNCTIONS
@@ -48,4 +89,11 @@ function collectSubroutineReferences(e: Expression, result: Map<StoreOperation,
             collectSubroutineReferences(child, result);
         }
     }
-}
\ No newline at end of file
+}
+
+function isReassigned(statements: ReadonlyArray<StoreOperation>, target: number, start: number, end: number): boolean {
+    for (let i = start + 1; i < end; i++) {
+        if (statements[i].target === target) return true;
+    }
+    return false;
+}
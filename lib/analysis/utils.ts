@@ -1,6 +1,6 @@
 // IMPORTS
 // ================================================================================================
-import { Expression, LiteralValue, LoadExpression } from "../expressions";
+import { Expression, ExpressionTransformer, LiteralValue, LoadExpression } from "../expressions";
 import { Constant } from "../procedures";
 
 // PUBLIC FUNCTIONS
@@ -17,4 +17,15 @@ export function getExponentValue(exp: Expression): bigint {
     else {
         throw new Error(`cannot raise to non-constant power`);
     }
-}
\ No newline at end of file
+}
+/**
+ * Applies the transformer to the expression and, if the expression was not replaced, to all of its
+ * descendants. Descendants are replaced in place.
+ */
+export function transformExpression(e: Expression, transformer: ExpressionTransformer): Expression {
+    const result = transformer(e);
+    if (result === e) {
+        e.transform(transformer);
+    }
+    return result;
+}
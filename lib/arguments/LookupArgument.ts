@@ -0,0 +1,68 @@
+// IMPORTS
+// ================================================================================================
+import { LookupArgument as ILookupArgument, ConstraintDescriptor, AssertionDescriptor } from '@guildofweavers/air-assembly';
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * Asserts that values of a trace register are contained in a table defined by a cyclic register.
+ * The argument is enforced with a log-derivative running sum column of the auxiliary trace:
+ * s[i + 1] = s[i] + 1 / (trace[i] + gamma) - m[i] / (table[i] + gamma), where m is a multiplicity
+ * register appended to the execution trace; the sum starts at 0. Same as with permutation arguments,
+ * a closing column adds the terms at the remaining steps of the frame to the next row of the sum,
+ * and thus, covers all rows at step -frameSize, where it must be equal to 0.
+ */
+export class LookupArgument implements ILookupArgument {
+
+    readonly register   : number;
+    readonly table      : number;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(register: number, table: number) {
+        this.register = register;
+        this.table = table;
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get randomElementCount(): number {
+        return 1;   // gamma
+    }
+
+    get auxRegisterCount(): number {
+        return 2;   // running sum and closing columns
+    }
+
+    // PUBLIC METHODS
+    // --------------------------------------------------------------------------------------------
+    /**
+     * Builds descriptors for constraints of the running sum and closing columns; the constraints are
+     * multiplied by both denominators at each of the referenced steps; the closing constraint reads
+     * the table at all rows of the frame except the first one.
+     */
+    getConstraints(frameSize: number): ConstraintDescriptor[] {
+        const frameRefs = new Array(frameSize).fill(0).map((_, i) => i);
+        return [
+            { degree: 3, traceRefs: [0, 1], staticRefs: [0] },
+            { degree: 2 * frameSize - 1, traceRefs: frameRefs, staticRefs: frameRefs.slice(1) }
+        ];
+    }
+
+    /**
+     * Builds boundary constraints for the running sum column starting at the specified register;
+     * the closing column is checked at the last step for which transition constraints are enforced.
+     */
+    getAssertions(register: number, frameSize: number): AssertionDescriptor[] {
+        return [
+            { register, step: 0, value: 0n, aux: true },
+            { register: register + 1, step: -frameSize, value: 0n, aux: true }
+        ];
+    }
+
+    toString(traceHandles?: ReadonlyArray<string>, staticHandles?: ReadonlyArray<string | undefined>): string {
+        const register = traceHandles ? traceHandles[this.register] : this.register;
+        const table = (staticHandles && staticHandles[this.table]) || this.table;
+        return `(lookup (trace ${register}) (table ${table}))`;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+// IMPORTS
+// ================================================================================================
+import { PermutationArgument as IPermutationArgument, ConstraintDescriptor, AssertionDescriptor } from '@guildofweavers/air-assembly';
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * Asserts that rows formed by the left group of trace registers are a permutation of rows formed by
+ * the right group. The argument is enforced with a running product column of the auxiliary trace:
+ * z[i + 1] * (right[i] + gamma) = z[i] * (left[i] + gamma), where rows are compressed into single
+ * values using powers of alpha; the product starts at 1. Since transition constraints are not
+ * enforced at the last frameSize - 1 steps, a closing column folds the rows at the remaining steps
+ * of the frame into the product: c[i] * right[i + 1] * ... = z[i + 1] * left[i + 1] * ...; at step
+ * -frameSize, the frame ends at the last row, and thus, c covers all rows and must be equal to 1.
+ */
+export class PermutationArgument implements IPermutationArgument {
+
+    readonly left   : ReadonlyArray<number>;
+    readonly right  : ReadonlyArray<number>;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(left: number[], right: number[]) {
+        this.left = left.slice();
+        this.right = right.slice();
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get randomElementCount(): number {
+        return 2;   // alpha and gamma
+    }
+
+    get auxRegisterCount(): number {
+        return 2;   // running product and closing columns
+    }
+
+    // PUBLIC METHODS
+    // --------------------------------------------------------------------------------------------
+    /**
+     * Builds descriptors for constraints of the running product and closing columns; the closing
+     * constraint multiplies the running product by both groups at all remaining steps of the frame.
+     */
+    getConstraints(frameSize: number): ConstraintDescriptor[] {
+        const frameRefs = new Array(frameSize).fill(0).map((_, i) => i);
+        return [
+            { degree: 2, traceRefs: [0, 1], staticRefs: [] },
+            { degree: frameSize, traceRefs: frameRefs, staticRefs: [] }
+        ];
+    }
+
+    /**
+     * Builds boundary constraints for the running product column starting at the specified register;
+     * the closing column is checked at the last step for which transition constraints are enforced.
+     */
+    getAssertions(register: number, frameSize: number): AssertionDescriptor[] {
+        return [
+            { register, step: 0, value: 1n, aux: true },
+            { register: register + 1, step: -frameSize, value: 1n, aux: true }
+        ];
+    }
+
+    toString(handles?: ReadonlyArray<string>): string {
+        const left = this.left.map(r => handles ? handles[r] : r).join(' ');
+        const right = this.right.map(r => handles ? handles[r] : r).join(' ');
+        return `(permutation (cols ${left}) (cols ${right}))`;
+    }
+}
\ No newline at end of file
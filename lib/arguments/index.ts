@@ -0,0 +1,2 @@
+export { PermutationArgument } from './PermutationArgument';
+export { LookupArgument } from './LookupArgument';
\ No newline at end of file
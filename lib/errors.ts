@@ -1,5 +1,6 @@
 // IMPORTS
 // ================================================================================================
+import { AssemblyErrorEntry, SourceSpan } from "@guildofweavers/air-assembly";
 import { ILexerErrorMessageProvider, IToken, IParserErrorMessageProvider } from "chevrotain";
 
 // MESSAGE PROVIDERS
@@ -29,28 +30,90 @@ export const parserErrorMessageProvider: IParserErrorMessageProvider = {
     }
 };
 
+// SOURCE SPANS
+// ================================================================================================
+export function getSourceSpan(start: IToken, end = start): SourceSpan | undefined {
+    // tokens inserted during error recovery and the end-of-file token have no location
+    if (isNaN(start.startOffset) || isNaN(end.startOffset)) return undefined;
+    return {
+        start   : { offset: start.startOffset, line: start.startLine!, column: start.startColumn! },
+        end     : { offset: end.endOffset!, line: end.endLine!, column: end.endColumn! }
+    };
+}
+
+// SOURCE ERROR
+// ================================================================================================
+/**
+ * Error raised for a specific section of the source code; the location of the section is appended
+ * to the error message in the same way as it is done for lexer and parser errors.
+ */
+export class SourceError extends Error {
+
+    readonly span: SourceSpan;
+
+    constructor(message: string, span: SourceSpan) {
+        super(`${message} [${span.start.line}, ${span.start.column}]`);
+        this.span = span;
+    }
+}
+
 // SCRIPT ERROR
 // ================================================================================================
 export class AssemblyError extends Error {
 
-    readonly errors: any[];
+    readonly errors: AssemblyErrorEntry[];
+
+    constructor(errors: any[], file?: string) {
+        const entries = errors.map(error => toErrorEntry(error, file));
 
-    constructor(errors: any[]) {
         let message = `Failed to parse AIR script`;
         let prefix = '';
-        if (errors.length === 1) {
+        if (entries.length === 1) {
             message += ': ';
         }
         else {
-            message += `; ${errors.length} errors detected:`;
+            message += `; ${entries.length} errors detected:`;
             prefix = '\n\t';
         }
 
-        for (let error of errors) {
-            message += `${prefix}${error.message}`;
+        for (let entry of entries) {
+            message += `${prefix}${entry.message}`;
         }
 
         super(message);
-        this.errors = errors;
+        this.errors = entries;
+    }
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+/**
+ * Converts lexer errors, parser errors, source errors, and generic errors into error entries.
+ * Entries which already reference a file retain it; all other entries are assigned to the file.
+ */
+function toErrorEntry(error: any, file?: string): AssemblyErrorEntry {
+    let span: SourceSpan | undefined;
+    if (error.span) {
+        // source error or an existing error entry
+        span = error.span;
+        file = error.file || file;
     }
+    else if (error.token) {
+        // parser error
+        span = getSourceSpan(error.token);
+    }
+    else if (typeof error.offset === 'number' && typeof error.line === 'number') {
+        // lexer error; unexpected characters never span multiple lines
+        span = {
+            start   : { offset: error.offset, line: error.line, column: error.column },
+            end     : { offset: error.offset + error.length - 1, line: error.line, column: error.column + error.length - 1 }
+        };
+    }
+    else if (error.file) {
+        file = error.file;
+    }
+
+    return (span === undefined)
+        ? { message: error.message, file }
+        : { message: error.message, file, line: span.start.line, column: span.start.column, span };
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * Resolves to v * (v - 1) computed element-wise; every element of the result is 0 only if the
+ * corresponding element of the source is either 0 or 1.
+ */
+export class CheckBits extends Expression {
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression) {
+        if (source.isMatrix) throw new Error('cannot check bits of a matrix value');
+        super(source.dimensions, [source]);
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(bits.check ${this.source.toString()})`;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * Composes a vector of bits into a scalar value; the first element of the vector is treated as
+ * the least significant bit, and thus, the expression resolves to sum(v[i] * 2^i).
+ */
+export class ComposeBits extends Expression {
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression) {
+        if (!source.isVector) throw new Error('cannot compose bits: bits must be a vector');
+        super(Dimensions.scalar(), [source]);
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(bits.compose ${this.source.toString()})`;
+    }
+}
\ No newline at end of file
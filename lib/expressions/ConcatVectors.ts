@@ -0,0 +1,32 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+export class ConcatVectors extends Expression {
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(elements: Expression[]) {
+        if (elements.length === 0) throw new Error('cannot concatenate an empty list of vectors');
+
+        let length = 0;
+        for (let element of elements) {
+            if (!element.isVector) throw new Error('cannot concatenate a non-vector value');
+            length += element.dimensions[0];
+        }
+        super(Dimensions.vector(length), elements);
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get elements(): Expression[] { return this.children; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(concat ${this.elements.map(e => e.toString()).join(' ')})`;
+    }
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 // IMPORTS
 // ================================================================================================
-import { Expression as IExpression } from '@guildofweavers/air-assembly';
+import { Expression as IExpression, SourceSpan } from '@guildofweavers/air-assembly';
 import { Dimensions } from "./utils";
 
 // INTERFACES
@@ -19,6 +19,7 @@ export abstract class Expression implements IExpression {
 
     readonly dimensions : Dimensions;
     readonly children   : Expression[];
+    span?               : SourceSpan;
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
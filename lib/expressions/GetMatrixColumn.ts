@@ -0,0 +1,35 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+export class GetMatrixColumn extends Expression {
+
+    readonly index: number;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression, index: number) {
+        if (!source.isMatrix) throw new Error('cannot extract matrix column from a non-matrix value');
+
+        const [rowCount, colCount] = source.dimensions;
+        if (index < 0 || index >= colCount) {
+            throw new Error(`matrix column index ${index} is out of bounds; expected to be within [${0}, ${colCount})`);
+        }
+
+        super(Dimensions.vector(rowCount), [source]);
+        this.index = index;
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(get.col ${this.source.toString()} ${this.index})`;
+    }
+}
\ No newline at end of file
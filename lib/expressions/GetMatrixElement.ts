@@ -0,0 +1,41 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+export class GetMatrixElement extends Expression {
+
+    readonly row    : number;
+    readonly column : number;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression, row: number, column: number) {
+        if (!source.isMatrix) throw new Error('cannot extract matrix element from a non-matrix value');
+
+        const [rowCount, colCount] = source.dimensions;
+        if (row < 0 || row >= rowCount) {
+            throw new Error(`matrix row index ${row} is out of bounds; expected to be within [${0}, ${rowCount})`);
+        }
+
+        if (column < 0 || column >= colCount) {
+            throw new Error(`matrix column index ${column} is out of bounds; expected to be within [${0}, ${colCount})`);
+        }
+
+        super(Dimensions.scalar(), [source]);
+        this.row = row;
+        this.column = column;
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(get ${this.source.toString()} ${this.row} ${this.column})`;
+    }
+}
\ No newline at end of file
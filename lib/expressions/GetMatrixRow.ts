@@ -0,0 +1,35 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+export class GetMatrixRow extends Expression {
+
+    readonly index: number;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression, index: number) {
+        if (!source.isMatrix) throw new Error('cannot extract matrix row from a non-matrix value');
+
+        const [rowCount, colCount] = source.dimensions;
+        if (index < 0 || index >= rowCount) {
+            throw new Error(`matrix row index ${index} is out of bounds; expected to be within [${0}, ${rowCount})`);
+        }
+
+        super(Dimensions.vector(colCount), [source]);
+        this.index = index;
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(get.row ${this.source.toString()} ${this.index})`;
+    }
+}
\ No newline at end of file
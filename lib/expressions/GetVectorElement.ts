@@ -1,6 +1,8 @@
 // IMPORTS
 // ================================================================================================
 import { Expression } from "./Expression";
+import { LoadExpression } from "./LoadExpression";
+import { TraceSegment } from "./TraceSegment";
 import { Dimensions } from "./utils";
 
 // CLASS DEFINITION
@@ -34,6 +36,10 @@ export class GetVectorElement extends Expression {
     // PUBLIC MEMBERS
     // --------------------------------------------------------------------------------------------
     toString(): string {
-        return `(get ${this.source.toString()} ${this.index})`;
+        const source = this.source;
+        const handle = (source instanceof LoadExpression && source.binding instanceof TraceSegment)
+            ? source.binding.getRegisterHandle(this.index)
+            : undefined;
+        return `(get ${source.toString()} ${handle || this.index})`;
     }
 }
\ No newline at end of file
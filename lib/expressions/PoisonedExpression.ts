@@ -0,0 +1,26 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * Placeholder for an expression which could not be built because of a semantic error. Poisoned
+ * expressions are produced only when the parser collects errors, and expressions which depend on
+ * them are poisoned as well, so that the original error is not reported again by its dependents.
+ */
+export class PoisonedExpression extends Expression {
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(dimensions = Dimensions.scalar()) {
+        super(dimensions);
+    }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(poisoned)`;
+    }
+}
\ No newline at end of file
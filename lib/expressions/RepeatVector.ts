@@ -0,0 +1,34 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+export class RepeatVector extends Expression {
+
+    readonly count: number;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression, count: number) {
+        if (source.isMatrix) throw new Error('cannot repeat a matrix value');
+        if (!Number.isInteger(count) || count < 1) {
+            throw new Error(`repeat count ${count} is invalid; count must be an integer greater than 0`);
+        }
+
+        const length = source.isScalar ? 1 : source.dimensions[0];
+        super(Dimensions.vector(length * count), [source]);
+        this.count = count;
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(repeat ${this.source.toString()} ${this.count})`;
+    }
+}
\ No newline at end of file
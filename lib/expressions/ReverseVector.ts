@@ -0,0 +1,28 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+export class ReverseVector extends Expression {
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression) {
+        if (source.isScalar) throw new Error('cannot reverse a scalar value');
+        if (source.isMatrix) throw new Error('cannot reverse a matrix value');
+
+        super(Dimensions.vector(source.dimensions[0]), [source]);
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(reverse ${this.source.toString()})`;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+export class RotateVector extends Expression {
+
+    readonly shift: number;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression, shift: number) {
+        if (source.isScalar) throw new Error('cannot rotate a scalar value');
+        if (source.isMatrix) throw new Error('cannot rotate a matrix value');
+        if (!Number.isInteger(shift)) throw new Error(`rotation shift ${shift} is invalid; shift must be an integer`);
+
+        super(Dimensions.vector(source.dimensions[0]), [source]);
+        this.shift = shift;
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // number of positions by which elements are rotated to the left, normalized into [0, length)
+    get offset(): number {
+        const length = this.dimensions[0];
+        return ((this.shift % length) + length) % length;
+    }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(rotate ${this.source.toString()} ${this.shift})`;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { LiteralValue } from "./LiteralValue";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * Selects one of two values based on a binary condition. The selection is expressed arithmetically
+ * as a * c + b * (1 - c), and thus, the condition must evaluate to 0 or 1.
+ */
+export class SelectExpression extends Expression {
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(condition: Expression, onTrue: Expression, onFalse: Expression) {
+        if (!condition.isScalar) throw new Error(`select condition must be a scalar value`);
+        if (condition instanceof LiteralValue) {
+            const value = condition.value as bigint;
+            if (value !== 0n && value !== 1n)
+                throw new Error(`select condition must be a binary value, but ${value} was provided`);
+        }
+
+        if (!Dimensions.areSameDimensions(onTrue.dimensions, onFalse.dimensions)) {
+            const d1 = `${onTrue.dimensions[0]}x${onTrue.dimensions[1]}`;
+            const d2 = `${onFalse.dimensions[0]}x${onFalse.dimensions[1]}`;
+            throw new Error(`cannot select between {${d1}} and {${d2}} values`);
+        }
+
+        super(onTrue.dimensions, [condition, onTrue, onFalse]);
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get condition(): Expression { return this.children[0]; }
+    get onTrue(): Expression    { return this.children[1]; }
+    get onFalse(): Expression   { return this.children[2]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(select ${this.condition.toString()} ${this.onTrue.toString()} ${this.onFalse.toString()})`;
+    }
+}
\ No newline at end of file
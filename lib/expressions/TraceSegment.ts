@@ -9,17 +9,23 @@ import { Dimensions } from "./utils";
 // ================================================================================================
 export class TraceSegment extends Expression {
 
-    readonly segment: 'trace' | 'static'
+    readonly segment: 'trace' | 'static' | 'aux'
+    readonly handles: ReadonlyArray<string | undefined>;
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
-    constructor(segment: 'trace' | 'static', width: number) {
+    constructor(segment: 'trace' | 'static' | 'aux', width: number, handles: ReadonlyArray<string | undefined> = []) {
         super(Dimensions.vector(width));
         this.segment = segment;
+        this.handles = handles;
     }
 
     // PUBLIC METHODS
     // --------------------------------------------------------------------------------------------
+    getRegisterHandle(index: number): string | undefined {
+        return this.handles[index];
+    }
+
     toString(): string {
         return this.segment;
     }
@@ -0,0 +1,28 @@
+// IMPORTS
+// ================================================================================================
+import { Expression } from "./Expression";
+import { Dimensions } from "./utils";
+
+// CLASS DEFINITION
+// ================================================================================================
+export class TransposeMatrix extends Expression {
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(source: Expression) {
+        if (!source.isMatrix) throw new Error('cannot transpose a non-matrix value');
+
+        const [rowCount, colCount] = source.dimensions;
+        super(Dimensions.matrix(colCount, rowCount), [source]);
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get source(): Expression { return this.children[0]; }
+
+    // PUBLIC MEMBERS
+    // --------------------------------------------------------------------------------------------
+    toString(): string {
+        return `(transpose ${this.source.toString()})`;
+    }
+}
\ No newline at end of file
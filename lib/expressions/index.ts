@@ -2,12 +2,24 @@ export { Expression, ExpressionTransformer } from './Expression';
 export { LiteralValue } from './LiteralValue';
 export { BinaryOperation } from './BinaryOperation';
 export { UnaryOperation } from './UnaryOperation';
+export { SelectExpression } from './SelectExpression';
 export { MakeVector } from './MakeVector';
 export { GetVectorElement } from './GetVectorElement';
 export { SliceVector } from './SliceVector';
+export { ConcatVectors } from './ConcatVectors';
+export { RotateVector } from './RotateVector';
+export { ReverseVector } from './ReverseVector';
+export { RepeatVector } from './RepeatVector';
 export { MakeMatrix } from './MakeMatrix';
+export { GetMatrixElement } from './GetMatrixElement';
+export { GetMatrixRow } from './GetMatrixRow';
+export { GetMatrixColumn } from './GetMatrixColumn';
+export { TransposeMatrix } from './TransposeMatrix';
+export { ComposeBits } from './ComposeBits';
+export { CheckBits } from './CheckBits';
 export { LoadExpression } from './LoadExpression';
 export { CallExpression } from './CallExpression';
+export { PoisonedExpression } from './PoisonedExpression';
 export { TraceSegment } from './TraceSegment';
 export { ExpressionVisitor } from './ExpressionVisitor';
 export { Dimensions } from './utils';
\ No newline at end of file
@@ -0,0 +1,770 @@
+// IMPORTS
+// ================================================================================================
+import * as crypto from 'crypto';
+import { FiniteField, Vector, Matrix, Polynom, createPrimeField } from "@guildofweavers/galois";
+import { isPowerOf2, validate } from "../utils";
+
+// CONSTANTS
+// ================================================================================================
+const MAX_POLYNOMIAL_SEARCH = 256;
+const MAX_ROOT_CANDIDATES = 256;
+
+// INTERFACES
+// ================================================================================================
+type Coefficients = bigint[];
+type ElementOp = (x: bigint, y: bigint) => bigint;
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * Finite field GF(p^n) defined as GF(p)[x] / f(x), where f(x) is a monic irreducible polynomial
+ * of degree n. Field elements are encoded as bigints a0 + a1*p + ... + a(n-1)*p^(n-1), where
+ * a0, ..., a(n-1) are coefficients of the polynomial representing the element; this way, elements
+ * of the base field map onto themselves.
+ */
+export class ExtensionField implements FiniteField {
+
+    readonly characteristic     : bigint;
+    readonly extensionDegree    : number;
+
+    private _polynomial         : bigint[];
+
+    private readonly order      : bigint;
+    private readonly base       : FiniteField;
+
+    // vectors and matrices are stored in galois structures; the storage field is used only to
+    // create these structures and to rearrange their elements, never for arithmetic
+    private readonly storage    : FiniteField;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(modulus: bigint, degree: number, polynomial?: bigint[]) {
+        validate(Number.isInteger(degree), errors.degreeNotInteger(degree));
+        validate(degree > 1, errors.degreeTooSmall(degree));
+
+        this.base = createPrimeField(modulus);
+        this.characteristic = modulus;
+        this.extensionDegree = degree;
+        this.order = modulus ** BigInt(degree);
+        this.storage = createPrimeField(this.order);
+
+        if (polynomial) {
+            validate(polynomial.length === degree, errors.polynomialLengthInvalid(degree));
+            polynomial.forEach(c => validate(this.base.isElement(c), errors.invalidCoefficient(c)));
+            this._polynomial = polynomial.slice();
+            validate(this.isIrreducible(), errors.polynomialReducible());
+        }
+        else {
+            this._polynomial = [];
+            this.findIrreduciblePolynomial();
+        }
+    }
+
+    // PUBLIC ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    /** Coefficients c0, ..., c(n-1) of the modulus polynomial x^n + c(n-1)*x^(n-1) + ... + c0 */
+    get polynomial(): ReadonlyArray<bigint> {
+        return this._polynomial;
+    }
+
+    get jsField(): FiniteField {
+        return this;
+    }
+
+    get isOptimized(): boolean {
+        return false;
+    }
+
+    get elementSize(): number {
+        return this.storage.elementSize;
+    }
+
+    get zero(): bigint {
+        return 0n;
+    }
+
+    get one(): bigint {
+        return 1n;
+    }
+
+    isElement(value: bigint): boolean {
+        return (value >= 0n && value < this.order);
+    }
+
+    // BASIC ARITHMETIC
+    // --------------------------------------------------------------------------------------------
+    add(x: bigint, y: bigint): bigint {
+        const a = this.toCoefficients(x), b = this.toCoefficients(y);
+        return this.fromCoefficients(a.map((c, i) => this.base.add(c, b[i])));
+    }
+
+    sub(x: bigint, y: bigint): bigint {
+        const a = this.toCoefficients(x), b = this.toCoefficients(y);
+        return this.fromCoefficients(a.map((c, i) => this.base.sub(c, b[i])));
+    }
+
+    mul(x: bigint, y: bigint): bigint {
+        return this.fromCoefficients(this.mulCoefficients(this.toCoefficients(x), this.toCoefficients(y)));
+    }
+
+    div(x: bigint, y: bigint): bigint {
+        return this.mul(x, this.inv(y));
+    }
+
+    exp(base: bigint, exponent: bigint): bigint {
+        base = this.reduce(base);
+        if (base === 0n) {
+            if (exponent === 0n) {
+                throw new TypeError('Base and exponent cannot be both 0');
+            }
+            return 0n;
+        }
+
+        // handle raising to negative power
+        if (exponent < 0n) {
+            base = this.inv(base);
+            exponent = -exponent;
+        }
+
+        let result = this.toCoefficients(1n);
+        let power = this.toCoefficients(base);
+        while (exponent > 0n) {
+            if (exponent % 2n) {
+                result = this.mulCoefficients(result, power);
+            }
+            exponent = exponent / 2n;
+            power = this.mulCoefficients(power, power);
+        }
+        return this.fromCoefficients(result);
+    }
+
+    inv(value: bigint): bigint {
+        value = this.reduce(value);
+        if (value === 0n) return 0n;
+        // the multiplicative group has order p^n - 1
+        return this.exp(value, this.order - 2n);
+    }
+
+    neg(value: bigint): bigint {
+        return this.fromCoefficients(this.toCoefficients(value).map(c => this.base.neg(c)));
+    }
+
+    // RANDOMNESS
+    // --------------------------------------------------------------------------------------------
+    rand(): bigint {
+        const coefficients = new Array<bigint>(this.extensionDegree);
+        for (let i = 0; i < coefficients.length; i++) {
+            coefficients[i] = this.base.rand();
+        }
+        return this.fromCoefficients(coefficients);
+    }
+
+    prng(seed: bigint | Buffer): bigint;
+    prng(seed: bigint | Buffer, length: number): Vector;
+    prng(seed: bigint | Buffer, length?: number): bigint | Vector {
+        if (length === undefined) {
+            // if length is not specified, return just a single element
+            return this.reduce(sha256(seed));
+        }
+
+        const result = new Array<bigint>(length);
+        let state = sha256(seed);
+        for (let i = 0; i < length; i++) {
+            result[i] = this.reduce(state);
+            state = sha256(state);
+        }
+        return this.newVectorFrom(result);
+    }
+
+    // VECTOR OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    newVector(length: number): Vector {
+        return this.storage.newVector(length);
+    }
+
+    newVectorFrom(values: bigint[]): Vector {
+        return this.storage.newVectorFrom(values);
+    }
+
+    addVectorElements(a: Vector, b: Vector | bigint): Vector {
+        return this.vectorOp(this.add, a, b);
+    }
+
+    subVectorElements(a: Vector, b: Vector | bigint): Vector {
+        return this.vectorOp(this.sub, a, b);
+    }
+
+    mulVectorElements(a: Vector, b: Vector | bigint): Vector {
+        return this.vectorOp(this.mul, a, b);
+    }
+
+    divVectorElements(a: Vector, b: Vector | bigint): Vector {
+        return this.vectorOp(this.div, a, b);
+    }
+
+    expVectorElements(a: Vector, b: Vector | bigint): Vector {
+        return this.vectorOp(this.exp, a, b);
+    }
+
+    invVectorElements(v: Vector): Vector {
+        return this.newVectorFrom(v.toValues().map(value => this.inv(value)));
+    }
+
+    negVectorElements(v: Vector): Vector {
+        return this.newVectorFrom(v.toValues().map(value => this.neg(value)));
+    }
+
+    combineVectors(a: Vector, b: Vector): bigint {
+        const aValues = a.toValues(), bValues = b.toValues();
+        let result = 0n;
+        for (let i = 0; i < a.length; i++) {
+            result = this.add(result, this.mul(aValues[i], bValues[i]));
+        }
+        return result;
+    }
+
+    combineManyVectors(v: Vector[], k: Vector): Vector {
+        if (v.length !== k.length) {
+            throw new Error('Number of vectors must be the same as number of coefficients');
+        }
+
+        const kValues = k.toValues();
+        const rValues = new Array<bigint>(v[0].length).fill(0n);
+        for (let j = 0; j < v.length; j++) {
+            const vValues = v[j].toValues();
+            for (let i = 0; i < rValues.length; i++) {
+                rValues[i] = this.add(rValues[i], this.mul(kValues[j], vValues[i]));
+            }
+        }
+        return this.newVectorFrom(rValues);
+    }
+
+    pluckVector(v: Vector, skip: number, times: number): Vector {
+        return this.storage.pluckVector(v, skip, times);
+    }
+
+    truncateVector(v: Vector, newLength: number): Vector {
+        return this.storage.truncateVector(v, newLength);
+    }
+
+    duplicateVector(v: Vector, times?: number): Vector {
+        return this.storage.duplicateVector(v, times);
+    }
+
+    rotateVector(v: Vector, slots: number): Vector {
+        return this.storage.rotateVector(v, slots);
+    }
+
+    transposeVector(v: Vector, columns: number, step?: number): Matrix {
+        return this.storage.transposeVector(v, columns, step);
+    }
+
+    splitVector(v: Vector, rows: number): Matrix {
+        return this.storage.splitVector(v, rows);
+    }
+
+    // MATRIX OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    newMatrix(rows: number, columns: number): Matrix {
+        return this.storage.newMatrix(rows, columns);
+    }
+
+    newMatrixFrom(values: bigint[][]): Matrix {
+        return this.storage.newMatrixFrom(values);
+    }
+
+    newMatrixFromVectors(v: Vector[]): Matrix {
+        return this.storage.newMatrixFromVectors(v);
+    }
+
+    addMatrixElements(a: Matrix, b: Matrix | bigint): Matrix {
+        return this.matrixOp(this.add, a, b);
+    }
+
+    subMatrixElements(a: Matrix, b: Matrix | bigint): Matrix {
+        return this.matrixOp(this.sub, a, b);
+    }
+
+    mulMatrixElements(a: Matrix, b: Matrix | bigint): Matrix {
+        return this.matrixOp(this.mul, a, b);
+    }
+
+    divMatrixElements(a: Matrix, b: Matrix | bigint): Matrix {
+        return this.matrixOp(this.div, a, b);
+    }
+
+    expMatrixElements(a: Matrix, b: Matrix | bigint): Matrix {
+        return this.matrixOp(this.exp, a, b);
+    }
+
+    invMatrixElements(m: Matrix): Matrix {
+        return this.newMatrixFrom(m.toValues().map(row => row.map(value => this.inv(value))));
+    }
+
+    negMatrixElements(m: Matrix): Matrix {
+        return this.newMatrixFrom(m.toValues().map(row => row.map(value => this.neg(value))));
+    }
+
+    mulMatrixes(a: Matrix, b: Matrix): Matrix {
+        if (a.colCount !== b.rowCount) {
+            throw new Error(`Cannot multiply ${a.rowCount}x${a.colCount} matrix by ${b.rowCount}x${b.colCount} matrix`);
+        }
+
+        const aValues = a.toValues(), bValues = b.toValues();
+        const rValues = new Array<bigint[]>(a.rowCount);
+        for (let i = 0; i < a.rowCount; i++) {
+            const row = rValues[i] = new Array<bigint>(b.colCount);
+            for (let j = 0; j < b.colCount; j++) {
+                let sum = 0n;
+                for (let k = 0; k < a.colCount; k++) {
+                    sum = this.add(sum, this.mul(aValues[i][k], bValues[k][j]));
+                }
+                row[j] = sum;
+            }
+        }
+        return this.newMatrixFrom(rValues);
+    }
+
+    mulMatrixByVector(m: Matrix, v: Vector): Vector {
+        if (m.colCount !== v.length) {
+            throw new Error(`Cannot multiply ${m.rowCount}x${m.colCount} matrix by ${v.length}x1 vector`);
+        }
+        return this.newVectorFrom(m.toValues().map(row => this.combineVectors(this.newVectorFrom(row), v)));
+    }
+
+    mulMatrixRows(m: Matrix, v: Vector): Matrix {
+        if (m.colCount !== v.length) {
+            throw new Error('Number of columns must be the same as vector length');
+        }
+        const vValues = v.toValues();
+        return this.newMatrixFrom(m.toValues().map(row => row.map((value, i) => this.mul(value, vValues[i]))));
+    }
+
+    subMatrixElementsFromVectors(v: Vector[], m: Matrix): Matrix {
+        if (v.length !== m.rowCount) {
+            throw new Error('Cannot subtract matrix elements from vectors: number of vectors is different from number of rows');
+        }
+
+        const mValues = m.toValues();
+        const rValues = new Array<bigint[]>(v.length);
+        for (let i = 0; i < rValues.length; i++) {
+            const r1 = v[i].toValues(), r2 = mValues[i];
+            if (r1.length !== m.colCount) {
+                throw new Error('Cannot subtract matrix elements from vectors: parameters have different number of columns');
+            }
+            rValues[i] = r1.map((value, j) => this.sub(value, r2[j]));
+        }
+        return this.newMatrixFrom(rValues);
+    }
+
+    matrixRowsToVectors(m: Matrix): Vector[] {
+        return this.storage.matrixRowsToVectors(m);
+    }
+
+    joinMatrixRows(m: Matrix): Vector {
+        return this.storage.joinMatrixRows(m);
+    }
+
+    transposeMatrix(m: Matrix): Matrix {
+        return this.storage.transposeMatrix(m);
+    }
+
+    // OTHER OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    getRootOfUnity(order: number): bigint {
+        if (!isPowerOf2(order)) {
+            throw new Error('Order of unity must be 2^n');
+        }
+
+        const bigOrder = BigInt(order);
+        if ((this.order - 1n) % bigOrder !== 0n) {
+            throw new Error(`Root of Unity for order ${order} does not exist in the field`);
+        }
+
+        // try elements x + i; elements of the base field are tried first because, when a root
+        // exists in the base field, its computation stays within the base field
+        const candidates = [2n, 3n, 5n, 7n, 11n, 13n];
+        for (let i = 0n; i < MAX_ROOT_CANDIDATES; i++) {
+            candidates.push(this.characteristic + i);
+        }
+
+        for (let candidate of candidates) {
+            let g = this.exp(candidate, (this.order - 1n) / bigOrder);
+            if (this.exp(g, bigOrder) === 1n && (order === 1 || this.exp(g, bigOrder / 2n) !== 1n)) {
+                return g;
+            }
+        }
+        throw new Error(`Root of Unity for order ${order} was not found`);
+    }
+
+    getPowerSeries(base: bigint, length: number): Vector {
+        const powers = new Array<bigint>(length);
+        powers[0] = 1n;
+        for (let i = 1; i < length; i++) {
+            powers[i] = this.mul(powers[i - 1], base);
+        }
+        return this.newVectorFrom(powers);
+    }
+
+    // BASIC POLYNOMIAL OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    addPolys(a: Polynom, b: Polynom): Polynom {
+        return this.polyOp(this.add, a, b);
+    }
+
+    subPolys(a: Polynom, b: Polynom): Polynom {
+        return this.polyOp(this.sub, a, b);
+    }
+
+    mulPolys(a: Polynom, b: Polynom): Polynom {
+        const aValues = a.toValues(), bValues = b.toValues();
+        const rValues = new Array<bigint>(a.length + b.length - 1).fill(0n);
+        for (let i = 0; i < a.length; i++) {
+            for (let j = 0; j < b.length; j++) {
+                rValues[i + j] = this.add(rValues[i + j], this.mul(aValues[i], bValues[j]));
+            }
+        }
+        return this.newVectorFrom(rValues);
+    }
+
+    divPolys(a: Polynom, b: Polynom): Polynom {
+        const aValues = a.toValues().slice(), bValues = b.toValues();
+        let apos = lastNonZeroIndex(aValues);
+        const bpos = lastNonZeroIndex(bValues);
+        if (apos < bpos) {
+            throw new Error('Cannot divide by polynomial of higher order');
+        }
+
+        let diff = apos - bpos;
+        const rValues = new Array<bigint>(diff + 1);
+        for (let p = rValues.length - 1; diff >= 0; diff--, apos--, p--) {
+            const quot = this.div(aValues[apos], bValues[bpos]);
+            rValues[p] = quot;
+            for (let i = bpos; i >= 0; i--) {
+                aValues[diff + i] = this.sub(aValues[diff + i], this.mul(bValues[i], quot));
+            }
+        }
+        return this.newVectorFrom(rValues);
+    }
+
+    mulPolyByConstant(p: Polynom, c: bigint): Polynom {
+        return this.vectorOp(this.mul, p, c);
+    }
+
+    // POLYNOMIAL EVALUATION
+    // --------------------------------------------------------------------------------------------
+    evalPolyAt(p: Polynom, x: bigint): bigint {
+        const pValues = p.toValues();
+        let y = 0n;
+        for (let i = pValues.length - 1; i >= 0; i--) {
+            y = this.add(this.mul(y, x), pValues[i]);
+        }
+        return y;
+    }
+
+    evalPolyAtRoots(p: Polynom, rootsOfUnity: Vector): Vector {
+        if (!isPowerOf2(rootsOfUnity.length)) {
+            throw new Error('Number of roots of unity must be a power of 2');
+        }
+        if (p.length > rootsOfUnity.length) {
+            throw new Error('Polynomial degree must be smaller than or equal to the number of roots of unity');
+        }
+
+        // make sure values and roots of unity are of the same length
+        const pValues = p.toValues().slice();
+        pValues.length = rootsOfUnity.length;
+        pValues.fill(0n, p.length);
+
+        return this.newVectorFrom(this.fastFT(pValues, rootsOfUnity.toValues(), 0, 0));
+    }
+
+    evalPolysAtRoots(p: Matrix, rootsOfUnity: Vector): Matrix {
+        const rValues = this.matrixRowsToVectors(p).map(row => this.evalPolyAtRoots(row, rootsOfUnity).toValues());
+        return this.newMatrixFrom(rValues);
+    }
+
+    evalQuarticBatch(polys: Matrix, x: bigint | Vector): Vector {
+        if (polys.colCount !== 4) {
+            throw new Error('Quartic polynomials must have exactly 4 terms');
+        }
+
+        const rows = this.matrixRowsToVectors(polys);
+        if (typeof x === 'bigint') {
+            return this.newVectorFrom(rows.map(row => this.evalPolyAt(row, x)));
+        }
+        else {
+            if (polys.rowCount !== x.length) {
+                throw new Error('Number of quartic polynomials must be the same as the number of x coordinates');
+            }
+            return this.newVectorFrom(rows.map((row, i) => this.evalPolyAt(row, x.getValue(i))));
+        }
+    }
+
+    // POLYNOMIAL INTERPOLATION
+    // --------------------------------------------------------------------------------------------
+    interpolate(xs: Vector, ys: Vector): Vector {
+        if (xs.length !== ys.length) {
+            throw new Error('Number of x coordinates must be the same as number of y coordinates');
+        }
+
+        // build the polynomial which evaluates to 0 at all x coordinates
+        const xValues = xs.toValues(), yValues = ys.toValues();
+        let root = this.newVectorFrom([1n]);
+        for (let x of xValues) {
+            root = this.mulPolys(root, this.newVectorFrom([this.neg(x), 1n]));
+        }
+
+        // sum up Lagrange basis polynomials scaled by y coordinates
+        let result = this.newVectorFrom(new Array<bigint>(xs.length).fill(0n));
+        for (let i = 0; i < xs.length; i++) {
+            const numerator = this.divPolys(root, this.newVectorFrom([this.neg(xValues[i]), 1n]));
+            const denominator = this.evalPolyAt(numerator, xValues[i]);
+            const scale = this.div(yValues[i], denominator);
+            result = this.addPolys(result, this.mulPolyByConstant(numerator, scale));
+        }
+        return result;
+    }
+
+    interpolateRoots(rootsOfUnity: Vector, ys: Vector): Vector;
+    interpolateRoots(rootsOfUnity: Vector, ySets: Matrix): Matrix;
+    interpolateRoots(rootsOfUnity: Vector, ys: Vector | Matrix): Vector | Matrix {
+        if (!isPowerOf2(rootsOfUnity.length)) {
+            throw new Error('Number of roots of unity must be 2^n');
+        }
+
+        // reverse roots of unity
+        const rouValues = rootsOfUnity.toValues();
+        const invlen = this.inv(BigInt(rootsOfUnity.length));
+        const reversedRoots = new Array<bigint>(rootsOfUnity.length);
+        reversedRoots[0] = 1n;
+        for (let i = rootsOfUnity.length - 1, j = 1; i > 0; i--, j++) {
+            reversedRoots[j] = rouValues[i];
+        }
+
+        // run FFT to compute the interpolation
+        const interpolateRow = (yValues: bigint[]) => {
+            if (rootsOfUnity.length !== yValues.length) {
+                throw new Error('Number of roots of unity must be the same as number of y coordinates');
+            }
+            return this.fastFT(yValues, reversedRoots, 0, 0).map(value => this.mul(value, invlen));
+        };
+
+        return isMatrix(ys)
+            ? this.newMatrixFrom(ys.toValues().map(interpolateRow))
+            : this.newVectorFrom(interpolateRow(ys.toValues()));
+    }
+
+    interpolateQuarticBatch(xSets: Matrix, ySets: Matrix): Matrix {
+        const xRows = this.matrixRowsToVectors(xSets), yRows = this.matrixRowsToVectors(ySets);
+        const rValues = xRows.map((xs, i) => this.interpolate(xs, yRows[i]).toValues());
+        return this.newMatrixFrom(rValues);
+    }
+
+    // ELEMENT ENCODING
+    // --------------------------------------------------------------------------------------------
+    private reduce(value: bigint): bigint {
+        return value >= 0n
+            ? value % this.order
+            : ((value % this.order) + this.order) % this.order;
+    }
+
+    private toCoefficients(value: bigint): Coefficients {
+        value = this.reduce(value);
+        const coefficients = new Array<bigint>(this.extensionDegree);
+        for (let i = 0; i < coefficients.length; i++) {
+            coefficients[i] = value % this.characteristic;
+            value = value / this.characteristic;
+        }
+        return coefficients;
+    }
+
+    private fromCoefficients(coefficients: Coefficients): bigint {
+        let value = 0n;
+        for (let i = coefficients.length - 1; i >= 0; i--) {
+            value = value * this.characteristic + coefficients[i];
+        }
+        return value;
+    }
+
+    // COEFFICIENT ARITHMETIC
+    // --------------------------------------------------------------------------------------------
+    private mulCoefficients(a: Coefficients, b: Coefficients): Coefficients {
+        const base = this.base, degree = this.extensionDegree;
+
+        const product = new Array<bigint>(2 * degree - 1).fill(0n);
+        for (let i = 0; i < degree; i++) {
+            if (a[i] === 0n) continue;
+            for (let j = 0; j < degree; j++) {
+                product[i + j] = base.add(product[i + j], base.mul(a[i], b[j]));
+            }
+        }
+
+        // reduce the product by the modulus polynomial using x^n = -(c(n-1)*x^(n-1) + ... + c0)
+        for (let i = product.length - 1; i >= degree; i--) {
+            const c = product[i];
+            if (c === 0n) continue;
+            for (let j = 0; j < degree; j++) {
+                product[i - degree + j] = base.sub(product[i - degree + j], base.mul(c, this._polynomial[j]));
+            }
+        }
+        return product.slice(0, degree);
+    }
+
+    /**
+     * Checks irreducibility of the modulus polynomial using Rabin's test: a polynomial f of degree
+     * n is irreducible iff x^(p^n) = x mod f, and gcd(x^(p^(n/q)) - x, f) = 1 for every prime
+     * divisor q of n.
+     */
+    private isIrreducible(): boolean {
+        const x = this.characteristic;  // encoding of polynomial x
+
+        // compute x^(p^i) mod f for i = 1, ..., n
+        const frobenius = [x];
+        for (let i = 1; i <= this.extensionDegree; i++) {
+            frobenius[i] = this.exp(frobenius[i - 1], this.characteristic);
+        }
+        if (frobenius[this.extensionDegree] !== x) return false;
+
+        const modulus = [...this._polynomial, 1n];
+        for (let q of getPrimeFactors(this.extensionDegree)) {
+            const h = this.toCoefficients(this.sub(frobenius[this.extensionDegree / q], x));
+            const gcd = gcdPolys(modulus, h, this.base);
+            if (gcd.length !== 1) return false;
+        }
+        return true;
+    }
+
+    private findIrreduciblePolynomial(): void {
+        // try binomials x^n - b first, then trinomials x^n + x - b
+        for (let linear of [0n, 1n]) {
+            for (let b = 1n; b <= MAX_POLYNOMIAL_SEARCH; b++) {
+                this._polynomial = new Array<bigint>(this.extensionDegree).fill(0n);
+                this._polynomial[0] = this.base.neg(b);
+                this._polynomial[1] = linear;
+                if (this.isIrreducible()) return;
+            }
+        }
+        throw new Error(errors.polynomialNotFound(this.characteristic, this.extensionDegree));
+    }
+
+    // HELPER METHODS
+    // --------------------------------------------------------------------------------------------
+    private vectorOp(op: ElementOp, a: Vector, b: Vector | bigint): Vector {
+        const aValues = a.toValues();
+        if (typeof b === 'bigint') {
+            return this.newVectorFrom(aValues.map(value => op.call(this, value, b)));
+        }
+        const bValues = b.toValues();
+        return this.newVectorFrom(aValues.map((value, i) => op.call(this, value, bValues[i])));
+    }
+
+    private matrixOp(op: ElementOp, a: Matrix, b: Matrix | bigint): Matrix {
+        const aValues = a.toValues();
+        if (typeof b === 'bigint') {
+            return this.newMatrixFrom(aValues.map(row => row.map(value => op.call(this, value, b))));
+        }
+        const bValues = b.toValues();
+        return this.newMatrixFrom(aValues.map((row, i) => row.map((value, j) => op.call(this, value, bValues[i][j]))));
+    }
+
+    private polyOp(op: ElementOp, a: Polynom, b: Polynom): Polynom {
+        const aValues = a.toValues(), bValues = b.toValues();
+        const rValues = new Array<bigint>(Math.max(a.length, b.length));
+        for (let i = 0; i < rValues.length; i++) {
+            rValues[i] = op.call(this, i < a.length ? aValues[i] : 0n, i < b.length ? bValues[i] : 0n);
+        }
+        return this.newVectorFrom(rValues);
+    }
+
+    private fastFT(values: bigint[], roots: bigint[], depth: number, offset: number): bigint[] {
+        const step = 1 << depth;
+        const resultLength = roots.length / step;
+
+        // if only 1 value left, the result is the value itself
+        if (resultLength === 1) {
+            return [values[offset]];
+        }
+
+        const even = this.fastFT(values, roots, depth + 1, offset);
+        const odd = this.fastFT(values, roots, depth + 1, offset + step);
+
+        const halfLength = resultLength / 2;
+        const result = new Array<bigint>(resultLength);
+        for (let i = 0; i < halfLength; i++) {
+            const x = even[i];
+            const yTimesRoot = this.mul(odd[i], roots[i * step]);
+            result[i] = this.add(x, yTimesRoot);
+            result[i + halfLength] = this.sub(x, yTimesRoot);
+        }
+        return result;
+    }
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function sha256(value: bigint | Buffer): bigint {
+    const buffer = (typeof value === 'bigint')
+        ? Buffer.from(value.toString(16), 'hex')
+        : value;
+    const hash = crypto.createHash('sha256').update(buffer);
+    return BigInt('0x' + hash.digest().toString('hex'));
+}
+
+function isMatrix(value: Vector | Matrix): value is Matrix {
+    return (value as Matrix).rowCount !== undefined;
+}
+
+function lastNonZeroIndex(values: bigint[]): number {
+    for (let i = values.length - 1; i >= 0; i--) {
+        if (values[i] !== 0n) return i;
+    }
+    return -1;
+}
+
+function getPrimeFactors(value: number): number[] {
+    const factors: number[] = [];
+    for (let d = 2; d <= value; d++) {
+        if (value % d !== 0) continue;
+        factors.push(d);
+        while (value % d === 0) value = value / d;
+    }
+    return factors;
+}
+
+/** Computes greatest common divisor of two polynomials over the base field */
+function gcdPolys(a: Coefficients, b: Coefficients, field: FiniteField): Coefficients {
+    a = trimPoly(a);
+    b = trimPoly(b);
+    while (b.length > 0) {
+        // compute remainder of a divided by b
+        const r = a.slice();
+        const lead = field.inv(b[b.length - 1]);
+        for (let i = r.length - b.length; i >= 0; i--) {
+            const quot = field.mul(r[i + b.length - 1], lead);
+            if (quot === 0n) continue;
+            for (let j = 0; j < b.length; j++) {
+                r[i + j] = field.sub(r[i + j], field.mul(b[j], quot));
+            }
+        }
+        a = b;
+        b = trimPoly(r.slice(0, b.length - 1));
+    }
+    return a;
+}
+
+function trimPoly(p: Coefficients): Coefficients {
+    let length = p.length;
+    while (length > 0 && p[length - 1] === 0n) length--;
+    return p.slice(0, length);
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    degreeNotInteger        : (d: any) => `extension degree ${d} is invalid: degree must be an integer`,
+    degreeTooSmall          : (d: any) => `extension degree ${d} is invalid: degree must be greater than 1`,
+    polynomialLengthInvalid : (d: any) => `extension polynomial is invalid: exactly ${d} coefficients must be provided`,
+    invalidCoefficient      : (c: any) => `extension polynomial is invalid: coefficient ${c} is not a valid field element`,
+    polynomialReducible     : () => `extension polynomial is invalid: polynomial is not irreducible`,
+    polynomialNotFound      : (p: any, d: any) => `could not find irreducible polynomial of degree ${d} over field ${p}`
+};
@@ -0,0 +1 @@
+export { ExtensionField } from './ExtensionField';
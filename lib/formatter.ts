@@ -0,0 +1,262 @@
+// IMPORTS
+// ================================================================================================
+import { IToken, tokenMatcher } from "chevrotain";
+import { lexer, LParen, RParen, Minus } from "./lexer";
+import { AssemblyError, SourceError, getSourceSpan } from "./errors";
+
+// CONSTANTS
+// ================================================================================================
+const MAX_LINE_WIDTH = 100;
+const INDENT = '    ';
+const COMMENT_GAP = '    ';
+
+// lists with these keywords are always broken into multiple lines
+const BROKEN_LISTS = new Set(['module', 'function', 'export']);
+
+// within a module, declarations with these keywords are separated by blank lines
+const SEPARATED_DECLARATIONS = new Set(['function', 'export']);
+
+// INTERFACES
+// ================================================================================================
+interface Atom {
+    readonly image      : string;
+    readonly comments   : string[];
+    trailing?           : string;
+}
+
+interface List {
+    readonly start      : IToken;
+    readonly children   : Node[];
+    readonly comments   : string[];
+    trailing?           : string;
+    footer              : string[];
+}
+
+type Node = Atom | List;
+
+interface Line {
+    text                : string;
+    comment?            : string;
+}
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+/**
+ * Re-emits AirAssembly source code in canonical layout: lists which fit into a single line are kept
+ * on one line, other lists are broken with their children indented by 4 spaces. Comments are kept
+ * next to the expressions they precede or follow. Tokens are never reordered, and thus, formatted
+ * source code compiles to the same schema as the original source code.
+ */
+export function formatSource(source: string): string {
+    const lexResult = lexer.tokenize(source);
+    if (lexResult.errors.length > 0) {
+        throw new AssemblyError(lexResult.errors);
+    }
+
+    const root = buildTree(lexResult.tokens, lexResult.groups.comments || []);
+    const lines: Line[] = [];
+    root.children.forEach(node => lines.push(...renderNode(node, '')));
+    root.footer.forEach(comment => lines.push({ text: comment }));
+
+    return lines.map(line => line.comment ? `${line.text}${COMMENT_GAP}${line.comment}` : line.text).join('\n') + '\n';
+}
+
+// TREE BUILDING
+// ================================================================================================
+function buildTree(tokens: IToken[], comments: IToken[]): List {
+    const all = [...tokens, ...comments].sort((a, b) => a.startOffset - b.startOffset);
+    const root: List = { start: all[0], children: [], comments: [], footer: [] };
+    const stack = [root];
+
+    let pending: string[] = [];
+    let lastToken: IToken | undefined;
+    let lastNode: Node | undefined;
+    for (let i = 0; i < all.length; i++) {
+        const token = all[i];
+        const parent = stack[stack.length - 1];
+        if (isComment(token)) {
+            // comments on the same line as the preceding expression trail it, others lead the next one
+            const comment = token.image.trimEnd();
+            if (lastNode && lastToken && lastToken.endLine === token.startLine) {
+                lastNode.trailing = comment;
+            }
+            else {
+                pending.push(comment);
+            }
+            lastNode = undefined;
+            continue;
+        }
+
+        if (tokenMatcher(token, LParen)) {
+            const list: List = { start: token, children: [], comments: pending, footer: [] };
+            parent.children.push(list);
+            stack.push(list);
+            lastNode = undefined;
+        }
+        else if (tokenMatcher(token, RParen)) {
+            if (stack.length === 1) throw new SourceError(errors.unexpectedParen(), getSourceSpan(token)!);
+            parent.footer = pending;
+            lastNode = stack.pop();
+        }
+        else {
+            // a minus sign is always followed by a literal, so the two are kept together
+            let image = token.image;
+            if (tokenMatcher(token, Minus) && i + 1 < all.length && !isComment(all[i + 1])) {
+                image += all[++i].image;
+            }
+            lastNode = { image, comments: pending };
+            parent.children.push(lastNode);
+        }
+        pending = [];
+        lastToken = all[i];
+    }
+
+    if (stack.length > 1) {
+        const list = stack[stack.length - 1];
+        throw new SourceError(errors.listNotClosed(), getSourceSpan(list.start)!);
+    }
+    root.footer = pending;
+    return root;
+}
+
+// RENDERING
+// ================================================================================================
+function renderNode(node: Node, indent: string): Line[] {
+    const lines: Line[] = node.comments.map(comment => ({ text: `${indent}${comment}` }));
+    if (isAtom(node)) {
+        lines.push({ text: `${indent}${node.image}`, comment: node.trailing });
+    }
+    else {
+        lines.push(...renderList(node, indent));
+        if (node.trailing) {
+            lines[lines.length - 1].comment = node.trailing;
+        }
+    }
+    return lines;
+}
+
+function renderList(list: List, indent: string): Line[] {
+    const keyword = getKeyword(list);
+
+    // keep the list on a single line if it fits
+    if (!BROKEN_LISTS.has(keyword!)) {
+        const flat = renderFlat(list);
+        if (flat !== undefined && indent.length + flat.length <= MAX_LINE_WIDTH) {
+            return [{ text: `${indent}${flat}` }];
+        }
+    }
+
+    // otherwise, put leading atoms on the first line and the remaining children on separate lines
+    const childIndent = indent + INDENT;
+    const lines: Line[] = [];
+    let current: string | undefined = `${indent}(`;
+    let i = 0;
+    for (; i < list.children.length; i++) {
+        const child = list.children[i];
+        if (!isAtom(child) || child.comments.length > 0) break;
+        current = appendAtom(lines, current, child, childIndent);
+    }
+    if (current !== undefined) {
+        lines.push({ text: current });
+    }
+
+    let atoms: string | undefined;
+    for (; i < list.children.length; i++) {
+        const child = list.children[i];
+        if (isAtom(child) && child.comments.length === 0) {
+            // consecutive atoms are packed into lines
+            atoms = appendAtom(lines, atoms, child, childIndent);
+            continue;
+        }
+
+        if (atoms !== undefined) {
+            lines.push({ text: atoms });
+            atoms = undefined;
+        }
+        if (keyword === 'module' && SEPARATED_DECLARATIONS.has(getKeyword(child)!)) {
+            lines.push({ text: '' });
+        }
+        lines.push(...renderNode(child, childIndent));
+    }
+    if (atoms !== undefined) {
+        lines.push({ text: atoms });
+    }
+
+    // close the list; comments at the end of the list force the closing paren onto a separate line,
+    // and so does a comment following the list when the last line already ends with a comment
+    if (list.footer.length > 0) {
+        list.footer.forEach(comment => lines.push({ text: `${childIndent}${comment}` }));
+        lines.push({ text: `${indent})` });
+    }
+    else if (list.trailing && lines[lines.length - 1].comment) {
+        lines.push({ text: `${indent})` });
+    }
+    else {
+        lines[lines.length - 1].text += ')';
+    }
+    return lines;
+}
+
+/**
+ * Appends the atom to the current line; if the line becomes too long, or the atom is followed by a
+ * comment, the line is moved into the list of complete lines.
+ */
+function appendAtom(lines: Line[], current: string | undefined, atom: Atom, indent: string): string | undefined {
+    if (current === undefined) {
+        current = `${indent}${atom.image}`;
+    }
+    else {
+        const next = current.endsWith('(') ? `${current}${atom.image}` : `${current} ${atom.image}`;
+        if (next.length > MAX_LINE_WIDTH && current.trim().length > 1) {
+            lines.push({ text: current });
+            current = `${indent}${atom.image}`;
+        }
+        else {
+            current = next;
+        }
+    }
+
+    if (atom.trailing) {
+        lines.push({ text: current, comment: atom.trailing });
+        return undefined;
+    }
+    return current;
+}
+
+/**
+ * Renders the list on a single line; returns undefined if the list contains comments.
+ */
+function renderFlat(list: List): string | undefined {
+    if (list.footer.length > 0) return undefined;
+    const elements: string[] = [];
+    for (let child of list.children) {
+        if (child.comments.length > 0 || child.trailing) return undefined;
+        const element = isAtom(child) ? child.image : renderFlat(child);
+        if (element === undefined) return undefined;
+        elements.push(element);
+    }
+    return `(${elements.join(' ')})`;
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function isAtom(node: Node): node is Atom {
+    return (node as List).children === undefined;
+}
+
+function isComment(token: IToken): boolean {
+    return token.tokenType.GROUP === 'comments';
+}
+
+function getKeyword(node: Node): string | undefined {
+    if (isAtom(node) || node.children.length === 0) return undefined;
+    const first = node.children[0];
+    return isAtom(first) ? first.image : undefined;
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    unexpectedParen : () => `Unexpected ')'`,
+    listNotClosed   : () => `Expression is not closed`
+};
\ No newline at end of file
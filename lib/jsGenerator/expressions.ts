@@ -1,8 +1,10 @@
 // IMPORTS
 // ================================================================================================
 import {
-    ExpressionVisitor, Expression, LiteralValue, BinaryOperation, UnaryOperation, MakeVector,
-    GetVectorElement, SliceVector, MakeMatrix, LoadExpression, TraceSegment, CallExpression 
+    ExpressionVisitor, Expression, LiteralValue, BinaryOperation, UnaryOperation, SelectExpression,
+    MakeVector, GetVectorElement, SliceVector, ConcatVectors, RotateVector, ReverseVector, RepeatVector, MakeMatrix,
+    GetMatrixElement, GetMatrixRow, GetMatrixColumn, TransposeMatrix, ComposeBits, CheckBits, LoadExpression,
+    TraceSegment, CallExpression
 } from "../expressions";
 import { getBinaryFunction, getUnaryFunction } from "./utils";
 import { StoreOperation, Constant, Parameter } from "../procedures";
@@ -53,6 +55,16 @@ class ExpressionCodeGenerator extends ExpressionVisitor<string> {
         return code;
     }
 
+    selectExpression(e: SelectExpression, options: JsCodeOptions = {}): string {
+        // the condition is assumed to be binary, so selection is computed as a * c + b * (1 - c);
+        // this keeps the results consistent with evaluations of constraint polynomials
+        let code = `selectValue(${this.visit(e.condition)}, ${this.visit(e.onTrue)}, ${this.visit(e.onFalse)})`;
+        if (e.isVector && options.vectorAsArray) {
+            code = `${code}.toValues()`;
+        }
+        return code;
+    }
+
     // VECTORS AND MATRIXES
     // --------------------------------------------------------------------------------------------
     makeVector(e: MakeVector, options: JsCodeOptions = {}): string {
@@ -73,11 +85,67 @@ class ExpressionCodeGenerator extends ExpressionVisitor<string> {
             : `f.newVectorFrom(${code}.slice(${e.start}, ${e.end + 1}))`;
     }
 
+    concatVectors(e: ConcatVectors, options: JsCodeOptions = {}): string {
+        const elements = e.elements.map(v => `...${this.visit(v, { vectorAsArray: true })}`);
+        const code = `[${elements.join(', ')}]`;
+        return options.vectorAsArray ? code : `f.newVectorFrom(${code})`;
+    }
+
+    rotateVector(e: RotateVector, options: JsCodeOptions = {}): string {
+        const code = `rotateVector(${this.visit(e.source, { vectorAsArray: true })}, ${e.offset})`;
+        return options.vectorAsArray ? code : `f.newVectorFrom(${code})`;
+    }
+
+    reverseVector(e: ReverseVector, options: JsCodeOptions = {}): string {
+        const code = `${this.visit(e.source, { vectorAsArray: true })}.slice().reverse()`;
+        return options.vectorAsArray ? code : `f.newVectorFrom(${code})`;
+    }
+
+    repeatVector(e: RepeatVector, options: JsCodeOptions = {}): string {
+        const source = e.source.isScalar
+            ? `[${this.visit(e.source)}]`
+            : this.visit(e.source, { vectorAsArray: true });
+        const code = `repeatVector(${source}, ${e.count})`;
+        return options.vectorAsArray ? code : `f.newVectorFrom(${code})`;
+    }
+
     makeMatrix(e: MakeMatrix): string {
         const rows = e.elements.map(r => `[${r.map(v => this.visit(v)).join(', ')}]`);
         return `f.newMatrixFrom([${rows.join(', ')}])`;
     }
 
+    getMatrixElement(e: GetMatrixElement): string {
+        return `${this.visit(e.source)}.getValue(${e.row}, ${e.column})`;
+    }
+
+    getMatrixRow(e: GetMatrixRow, options: JsCodeOptions = {}): string {
+        const code = `${this.visit(e.source)}.toValues()[${e.index}]`;
+        return options.vectorAsArray ? code : `f.newVectorFrom(${code})`;
+    }
+
+    getMatrixColumn(e: GetMatrixColumn, options: JsCodeOptions = {}): string {
+        const code = `getMatrixColumn(${this.visit(e.source)}, ${e.index})`;
+        return options.vectorAsArray ? code : `f.newVectorFrom(${code})`;
+    }
+
+    transposeMatrix(e: TransposeMatrix): string {
+        return `transposeMatrix(${this.visit(e.source)})`;
+    }
+
+    // BIT OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    composeBits(e: ComposeBits): string {
+        return `composeBits(${this.visit(e.source, { vectorAsArray: true })})`;
+    }
+
+    checkBits(e: CheckBits, options: JsCodeOptions = {}): string {
+        if (e.isScalar) {
+            return `checkBits([${this.visit(e.source)}])[0]`;
+        }
+        const code = `checkBits(${this.visit(e.source, { vectorAsArray: true })})`;
+        return options.vectorAsArray ? code : `f.newVectorFrom(${code})`;
+    }
+
     // LOAD EXPRESSION
     // --------------------------------------------------------------------------------------------
     loadExpression(e: LoadExpression, options: JsCodeOptions = {}): string {
@@ -132,6 +200,10 @@ function getRegisterBankReference(e: LoadExpression): string {
         case `trace:0`  : { return 'r'; }
         case `trace:1`  : { return 'n'; }
         default: {
+            // rows beyond the next row are passed to constraint evaluators as an array
+            if (e.source === 'trace' && e.index > 1) return `w[${e.index - 2}]`;
+            // all rows of the auxiliary trace frame are passed as a single array
+            if (e.source === 'aux') return `u[${e.index}]`;
             throw new Error(`load source '${e.source}:${e.index}' is invalid`);
         }
     }
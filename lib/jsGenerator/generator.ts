@@ -6,7 +6,8 @@ import {
 } from "@guildofweavers/air-assembly";
 import { AirComponent } from "../AirComponent";
 import { AirProcedure, AirFunction } from '../procedures';
-import { InputRegister, CyclicRegister, MaskRegister } from "../registers";
+import { InputRegister, CyclicRegister, MaskRegister, PrngSequence } from "../registers";
+import { ExtensionField } from "../fields";
 import { getCompositionFactor } from "../utils";
 import * as expressions from "./expressions";
 import * as jsTemplate from './template';
@@ -16,7 +17,8 @@ import * as jsTemplate from './template';
 const procedureSignatures = {
     init        : `initializeTrace(k, p0)`,
     transition  : 'applyTransition(r, k)',
-    evaluation  : 'evaluateConstraints(r, n, k)'
+    auxiliary   : 'applyAuxiliaryTransition(r, k, u, p0)',
+    evaluation  : 'evaluateConstraints(r, n, k, w, u, p0)'
 }
 
 // PUBLIC FUNCTIONS
@@ -26,18 +28,28 @@ export function instantiateModule(component: AirComponent, options: AirModuleOpt
 
     // set up module variables
     code += `const traceCycleLength = ${component.cycleLength};\n`;
-    code += `const traceRegisterCount = ${component.traceRegisterCount};\n`;
+    code += `const traceRegisterCount = ${component.traceRegisterCount + component.lookups.length};\n`;
     code += `const extensionFactor = ${options.extensionFactor};\n`;
     code += `const compositionFactor = ${getCompositionFactor(component)};\n`;
+    code += `const frameSize = ${component.frameSize};\n`;
+    code += `const auxRegisterCount = ${component.auxiliaryRegisterCount};\n`;
+    code += `const auxInitialValues = [${(component.auxiliaryInitialValues || []).map(v => `${v}n`).join(', ')}];\n`;
+    code += `const randomElementCount = ${component.randomElementCount};\n`;
+    code += `const permutations = ${JSON.stringify(component.permutations.map(p => ({ left: p.left, right: p.right })))};\n`;
+    code += `const lookups = ${JSON.stringify(component.lookups.map(l => ({ register: l.register, table: l.table })))};\n`;
+    code += `const outputs = ${JSON.stringify(component.outputs)};\n`;
 
     // build supporting functions
     code += '\n';
     code += component.functions.map((func, i) => generateFunctionCode(func, i)).join('\n');
 
-    // build trace initializer, transition function, and constraint evaluator
+    // build trace initializer, transition function, auxiliary procedure, and constraint evaluator
     code += '\n';
     code += `${generateProcedureCode(component.traceInitializer)}\n`;
     code += `${generateProcedureCode(component.transitionFunction)}\n`;
+    if (component.auxiliaryFunction) {
+        code += `${generateProcedureCode(component.auxiliaryFunction)}\n`;
+    }
     code += `${generateProcedureCode(component.constraintEvaluator)}\n`;
 
     // add functions from the template
@@ -50,23 +62,30 @@ export function instantiateModule(component: AirComponent, options: AirModuleOpt
     code += 'return {\n';
     code += `field: f,\n`;
     code += `traceRegisterCount: traceRegisterCount,\n`;
+    code += `frameSize: frameSize,\n`;
+    code += `auxiliaryRegisterCount: auxRegisterCount,\n`;
+    code += `randomElementCount: randomElementCount,\n`;
     code += `staticRegisterCount: ${component.staticRegisterCount},\n`;
     code += `inputDescriptors: staticRegisters.inputs,\n`;
     code += `secretInputCount: ${component.secretInputCount},\n`;
     code += `constraints: constraints,\n`;
+    code += `assertions: assertions,\n`;
+    code += `outputDescriptors: outputs,\n`;
     code += `maxConstraintDegree: ${component.maxConstraintDegree},\n`;
     code += `extensionFactor: extensionFactor,\n`;
+    code += `prngMethods: ${JSON.stringify(getPrngMethods(component))},\n`;
     code += `initProvingContext,\n`;
     code += `initVerificationContext\n`;
     code += '};';
 
     // create and execute module builder function
     const field = buildField(component, options.wasmOptions);
-    const buildModule = new Function('f', 'g', 'constraints', 'staticRegisters', code);
+    const buildModule = new Function('f', 'g', 'constraints', 'assertions', 'staticRegisters', code);
     return buildModule(
         field,
         buildConstants(component, field),
         component.constraints,
+        component.assertions.concat(component.auxiliaryAssertions),
         buildStaticRegisters(component)
     );
 }
@@ -104,6 +123,10 @@ function buildField(component: AirComponent, wasmOptions?: Partial<WasmOptions>
             ? createPrimeField(component.field.characteristic, wasmOptions)
             : createPrimeField(component.field.characteristic, wasmOptions);
     }
+    else if (component.field instanceof ExtensionField) {
+        // extension fields are implemented in JavaScript only, so WASM options do not apply
+        return component.field;
+    }
     else {
         throw new Error('non-prime fields are not supported');
     }
@@ -144,6 +167,16 @@ function buildStaticRegisters(component: AirComponent) {
     return { inputs, masked, cyclic };
 }
 
+function getPrngMethods(component: AirComponent): string[] {
+    const methods = new Set<string>();
+    for (let register of component.staticRegisters) {
+        if (register instanceof CyclicRegister && register.values instanceof PrngSequence) {
+            methods.add(register.values.method);
+        }
+    }
+    return Array.from(methods);
+}
+
 function findInputParentIndex(register: InputRegister, component: AirComponent): number | undefined {
     let index: number | undefined;
     while (register.master) {
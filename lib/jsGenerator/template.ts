@@ -1,9 +1,9 @@
 // INTERFACE IMPORTS
 // ================================================================================================
 import {
-    FiniteField, Vector, Matrix, TraceInitializer, TransitionFunction, ConstraintEvaluator,
+    FiniteField, Vector, Matrix, TraceInitializer, TransitionFunction, AuxiliaryFunction, ConstraintEvaluator,
     RegisterEvaluatorSpecs, ProvingContext, VerificationContext, ConstraintDescriptor, InputDescriptor,
-    MaskRegisterDescriptor,
+    MaskRegisterDescriptor, AssertionDescriptor, BoundaryConstraint, OutputDescriptor
 } from "@guildofweavers/air-assembly";
 
 // INTERFACES
@@ -17,8 +17,16 @@ const traceCycleLength = 0;
 const traceRegisterCount = 0;
 const compositionFactor = 0;
 const extensionFactor = 0;
+const frameSize = 0;
+const auxRegisterCount = 0;
+const auxInitialValues: bigint[] = [];
+const randomElementCount = 0;
+const permutations: { left: number[], right: number[] }[] = [];
+const lookups: { register: number, table: number }[] = [];
+const outputs: OutputDescriptor[] = [];
 
 const constraints: ConstraintDescriptor[] = [];
+const assertions: AssertionDescriptor[] = [];
 const staticRegisters: {
     inputs  : InputDescriptor[];
     masked  : MaskRegisterDescriptor[];
@@ -29,6 +37,7 @@ const staticRegisters: {
 // ================================================================================================
 const initializeTrace: TraceInitializer = function () { return []; }
 const applyTransition: TransitionFunction = function () { return []; }
+const applyAuxiliaryTransition: AuxiliaryFunction = function () { return []; }
 const evaluateConstraints: ConstraintEvaluator = function () { return []; }
 
 // PROVER GENERATOR
@@ -57,6 +66,12 @@ export function initProvingContext(inputs: any[] = [], seed: bigint[] = []): Pro
     // build static register evaluators
     const kRegisters = registerSpecs.map(r => buildStaticRegisterEvaluator(r));
 
+    // resolve boundary constraints against values of public input registers
+    const boundaryConstraints = buildBoundaryConstraints(traceLength, registerSpecs);
+
+    // resolve steps of outputs against the length of the execution trace
+    const outputSteps = resolveOutputSteps(traceLength);
+
     // EXECUTION TRACE GENERATOR
     // --------------------------------------------------------------------------------------------
     function generateExecutionTrace(): Matrix {
@@ -101,10 +116,160 @@ export function initProvingContext(inputs: any[] = [], seed: bigint[] = []): Pro
                 rValues = nValues;
             }
         }
+
+        // build multiplicity registers of lookup arguments; multiplicities are assigned to the first
+        // occurrence of each table value in the trace
+        lookups.forEach((lookup, i) => {
+            const tableSteps = new Map<bigint, number>();
+            for (let step = traceLength - 1; step >= 0; step--) {
+                tableSteps.set(kRegisters[lookup.table](step * compositionFactor), step);
+            }
+
+            const multiplicities = new Array<bigint>(traceLength).fill(f.zero);
+            for (let step = 0; step < traceLength; step++) {
+                const value = traceTable[lookup.register][step];
+                const tableStep = tableSteps.get(value);
+                if (tableStep === undefined) {
+                    throw new Error(`Lookup for register ${lookup.register} failed at step ${step}: value ${value} is not in the table`);
+                }
+                multiplicities[tableStep] = f.add(multiplicities[tableStep], f.one);
+            }
+            traceTable[traceRegisterCount - lookups.length + i] = multiplicities;
+        });
+
+        // make sure the trace satisfies boundary constraints
+        for (let { register, step, value, aux } of boundaryConstraints) {
+            if (aux) continue;
+            if (traceTable[register][step] !== value) {
+                throw new Error(`Assertion for register ${register} didn't hold at step: ${step}`);
+            }
+        }
         
         return f.newMatrixFrom(traceTable);
     }
 
+    // AUXILIARY TRACE GENERATOR
+    // --------------------------------------------------------------------------------------------
+    function generateAuxiliaryTrace(mainTrace: Matrix, randomness: bigint[] = []): Matrix {
+        if (auxRegisterCount === 0) {
+            throw new Error('Auxiliary trace is not defined for the computation');
+        }
+
+        // make sure the main trace and random elements are valid
+        validateExecutionTrace(mainTrace, traceLength);
+        validateRandomElements(randomness);
+
+        const steps = traceLength - 1;
+        const p0 = f.newVectorFrom(getProcedureRandomness(randomness));
+        const rValues = new Array<bigint>(traceRegisterCount);
+        const kValues = new Array<bigint>(kRegisters.length);
+
+        // initialize auxiliary trace and copy over the first row
+        let uValues = auxInitialValues;
+        const traceTable = new Array<bigint[]>(auxRegisterCount);
+        for (let register = 0; register < traceTable.length; register++) {
+            traceTable[register] = new Array<bigint>(traceLength);
+            traceTable[register][0] = uValues[register];
+        }
+
+        // apply auxiliary procedure for each step
+        for (let step = 0; step < steps && auxInitialValues.length > 0; step++) {
+            let position = step * compositionFactor;
+
+            // get values of trace and static registers for the current step
+            for (let register = 0; register < rValues.length; register++) {
+                rValues[register] = mainTrace.getValue(register, step);
+            }
+            for (let i = 0; i < kValues.length; i++) {
+                kValues[i] = kRegisters[i](position);
+            }
+
+            // compute the next row of the auxiliary trace and copy it to the trace table
+            uValues = applyAuxiliaryTransition(rValues, kValues, [uValues], p0);
+            for (let register = 0; register < uValues.length; register++) {
+                traceTable[register][step + 1] = uValues[register];
+            }
+        }
+
+        // build running product and closing columns of permutation arguments
+        const alphaOffset = getArgumentRandomnessOffset();
+        permutations.forEach((permutation, i) => {
+            const alpha = randomness[alphaOffset + i * 2], gamma = randomness[alphaOffset + i * 2 + 1];
+            const ratios = new Array<bigint>(traceLength);
+            for (let step = 0; step < traceLength; step++) {
+                const row = (register: number) => mainTrace.getValue(register, step);
+                const left = combineColumns(permutation.left.map(row), alpha, gamma);
+                const right = combineColumns(permutation.right.map(row), alpha, gamma);
+                ratios[step] = f.div(left, right);
+            }
+
+            const column = traceTable[auxInitialValues.length + i * 2];
+            column[0] = f.one;
+            for (let step = 0; step < steps; step++) {
+                column[step + 1] = f.mul(column[step], ratios[step]);
+            }
+
+            // the closing column multiplies the next row of the running product by the ratios at
+            // the remaining steps of the frame; the frame wraps around the end of the trace
+            const closing = traceTable[auxInitialValues.length + i * 2 + 1];
+            for (let step = 0; step < traceLength; step++) {
+                let value = column[(step + 1) % traceLength];
+                for (let offset = 1; offset < frameSize; offset++) {
+                    value = f.mul(value, ratios[(step + offset) % traceLength]);
+                }
+                closing[step] = value;
+            }
+        });
+
+        // build running sum and closing columns of lookup arguments
+        const gammaOffset = alphaOffset + permutations.length * 2;
+        lookups.forEach((lookup, i) => {
+            const gamma = randomness[gammaOffset + i];
+            const multiplicities = traceRegisterCount - lookups.length + i;
+            const terms = new Array<bigint>(traceLength);
+            for (let step = 0; step < traceLength; step++) {
+                const value = f.inv(f.add(mainTrace.getValue(lookup.register, step), gamma));
+                const table = f.add(kRegisters[lookup.table](step * compositionFactor), gamma);
+                const entry = f.div(mainTrace.getValue(multiplicities, step), table);
+                terms[step] = f.sub(value, entry);
+            }
+
+            const column = traceTable[auxInitialValues.length + permutations.length * 2 + i * 2];
+            column[0] = f.zero;
+            for (let step = 0; step < steps; step++) {
+                column[step + 1] = f.add(column[step], terms[step]);
+            }
+
+            // the closing column adds the terms at the remaining steps of the frame to the next row
+            // of the running sum; the frame wraps around the end of the trace
+            const closing = traceTable[auxInitialValues.length + permutations.length * 2 + i * 2 + 1];
+            for (let step = 0; step < traceLength; step++) {
+                let value = column[(step + 1) % traceLength];
+                for (let offset = 1; offset < frameSize; offset++) {
+                    value = f.add(value, terms[(step + offset) % traceLength]);
+                }
+                closing[step] = value;
+            }
+        });
+
+        // make sure the trace satisfies boundary constraints
+        for (let { register, step, value, aux } of boundaryConstraints) {
+            if (!aux) continue;
+            if (traceTable[register][step] !== value) {
+                throw new Error(`Assertion for auxiliary register ${register} didn't hold at step: ${step}`);
+            }
+        }
+
+        return f.newMatrixFrom(traceTable);
+    }
+
+    // OUTPUT EXTRACTOR
+    // --------------------------------------------------------------------------------------------
+    function getOutputs(trace: Matrix): bigint[] {
+        validateExecutionTrace(trace, traceLength);
+        return outputSteps.map(o => trace.getValue(o.register, o.step));
+    }
+
     // STATIC TRACE GENERATOR
     // --------------------------------------------------------------------------------------------
     function generateStaticTrace(): Matrix {
@@ -128,15 +293,22 @@ export function initProvingContext(inputs: any[] = [], seed: bigint[] = []): Pro
 
     // CONSTRAINT EVALUATOR
     // --------------------------------------------------------------------------------------------
-    function evaluateTransitionConstraints(polynomials: Matrix): Matrix {
+    function evaluateTransitionConstraints(polynomials: Matrix, auxPolynomials?: Matrix, randomness: bigint[] = []): Matrix {
 
         const constraintCount = constraints.length;
 
         // make sure trace polynomials are valid
         validateTracePolynomials(polynomials, traceLength);
+        if (auxRegisterCount > 0) {
+            validateAuxiliaryPolynomials(auxPolynomials, traceLength);
+            validateRandomElements(randomness);
+        }
 
         // evaluate transition polynomials over composition domain
         const tEvaluations = f.evalPolysAtRoots(polynomials, compositionDomain);
+        const uEvaluations = (auxRegisterCount > 0)
+            ? f.evalPolysAtRoots(auxPolynomials!, compositionDomain)
+            : undefined;
 
         // initialize evaluation arrays
         const evaluations = new Array<bigint[]>(constraintCount);
@@ -144,10 +316,20 @@ export function initProvingContext(inputs: any[] = [], seed: bigint[] = []): Pro
             evaluations[i] = new Array<bigint>(compositionDomainSize);
         }
 
-        const nfSteps = compositionDomainSize - compositionFactor;
+        // constraints are not enforced for the last steps of the trace since the frame wraps around
+        const nfSteps = compositionDomainSize - (frameSize - 1) * compositionFactor;
         const rValues = new Array<bigint>(traceRegisterCount);
         const nValues = new Array<bigint>(traceRegisterCount);
+        const wValues = new Array<bigint[]>(frameSize - 2);
+        for (let i = 0; i < wValues.length; i++) {
+            wValues[i] = new Array<bigint>(traceRegisterCount);
+        }
         const kValues = new Array<bigint>(kRegisters.length);
+        const uValues = new Array<bigint[]>(uEvaluations ? frameSize : 0);
+        for (let i = 0; i < uValues.length; i++) {
+            uValues[i] = new Array<bigint>(auxRegisterCount);
+        }
+        const p0 = f.newVectorFrom(getProcedureRandomness(randomness));
 
         // evaluate constraints for each position of the extended trace
         let qValues: bigint[]
@@ -159,6 +341,20 @@ export function initProvingContext(inputs: any[] = [], seed: bigint[] = []): Pro
 
                 let nextStepIndex = (position + compositionFactor) % compositionDomainSize;
                 nValues[register] = tEvaluations.getValue(register, nextStepIndex);
+
+                // set values for the remaining steps of the frame
+                for (let i = 0; i < wValues.length; i++) {
+                    nextStepIndex = (nextStepIndex + compositionFactor) % compositionDomainSize;
+                    wValues[i][register] = tEvaluations.getValue(register, nextStepIndex);
+                }
+            }
+
+            // set values for auxiliary registers for all steps of the frame
+            for (let i = 0; i < uValues.length; i++) {
+                let stepIndex = (position + i * compositionFactor) % compositionDomainSize;
+                for (let register = 0; register < auxRegisterCount; register++) {
+                    uValues[i][register] = uEvaluations!.getValue(register, stepIndex);
+                }
             }
 
             // get values of readonly registers for the current position
@@ -167,7 +363,18 @@ export function initProvingContext(inputs: any[] = [], seed: bigint[] = []): Pro
             }
 
             // populate qValues with results of constraint evaluations
-            qValues = evaluateConstraints(rValues, nValues, kValues);
+            qValues = evaluateConstraints(rValues, nValues, kValues, wValues, uValues, p0);
+            if (permutations.length > 0) {
+                const tRows = [rValues, nValues, ...wValues];
+                qValues = qValues.concat(evaluatePermutationConstraints(tRows, uValues, randomness));
+            }
+            if (lookups.length > 0) {
+                const tRows = [rValues, nValues, ...wValues];
+                const tables = lookups.map(lookup => tRows.map((_, i) => {
+                    return kRegisters[lookup.table]((position + i * compositionFactor) % compositionDomainSize);
+                }));
+                qValues = qValues.concat(evaluateLookupConstraints(tRows, tables, uValues, randomness));
+            }
 
             // copy evaluations to the result, and also check that constraints evaluate to 0
             // at multiples of the extensions factor
@@ -248,13 +455,17 @@ export function initProvingContext(inputs: any[] = [], seed: bigint[] = []): Pro
         rootOfUnity                     : rootOfUnity,
         traceLength                     : traceLength,
         extensionFactor                 : extensionFactor,
+        frameSize                       : frameSize,
         constraints                     : constraints,
+        boundaryConstraints             : boundaryConstraints,
         inputShapes                     : inputShapes,
         executionDomain                 : executionDomain,
         evaluationDomain                : evaluationDomain,
         compositionDomain               : compositionDomain,
         generateExecutionTrace          : generateExecutionTrace,
         generateStaticTrace             : generateStaticTrace,
+        generateAuxiliaryTrace          : generateAuxiliaryTrace,
+        getOutputs                      : getOutputs,
         evaluateTransitionConstraints   : evaluateTransitionConstraints,
         secretRegisterTraces            : secretRegisterTraces
     };
@@ -272,9 +483,31 @@ export function initVerificationContext(inputShapes: number[][] = [], publicInpu
     // build static register evaluators
     const kRegisters = registerSpecs.map(r => buildStaticRegisterEvaluator(r));
 
+    // resolve boundary constraints against values of public input registers
+    const boundaryConstraints = buildBoundaryConstraints(traceLength, registerSpecs);
+
+    // resolve steps of outputs against the length of the execution trace
+    const outputSteps = resolveOutputSteps(traceLength);
+
+    // shifts from the current step to the remaining steps of the frame
+    const frameShifts = new Array<bigint>(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+        frameShifts[i] = f.exp(rootOfUnity, BigInt(i * extensionFactor));
+    }
+
     // CONSTRAINT EVALUATOR
     // --------------------------------------------------------------------------------------------
-    function evaluateConstraintsAt(x: bigint, rValues: bigint[], nValues: bigint[], sValues: bigint[]): bigint[] {
+    function evaluateConstraintsAt(x: bigint, rValues: bigint[], nValues: bigint[], sValues: bigint[], wValues: bigint[][] = [], uValues: bigint[][] = [], randomness: bigint[] = []): bigint[] {
+        if (wValues.length !== frameSize - 2) {
+            throw new Error(`expected values for ${frameSize - 2} additional trace rows, but received ${wValues.length}`);
+        }
+
+        const auxRowCount = (auxRegisterCount > 0) ? frameSize : 0;
+        if (uValues.length !== auxRowCount) {
+            throw new Error(`expected values for ${auxRowCount} auxiliary trace rows, but received ${uValues.length}`);
+        }
+        validateRandomElements(randomness);
+
         // get values of static registers for the current position
         const kValues = new Array<bigint>(kRegisters.length);
         for (let i = 0, j = 0; i < kValues.length; i++) {
@@ -289,10 +522,30 @@ export function initVerificationContext(inputShapes: number[][] = [], publicInpu
         }
 
         // populate qValues with constraint evaluations
-        const qValues = evaluateConstraints(rValues, nValues, kValues);
+        const p0 = f.newVectorFrom(getProcedureRandomness(randomness));
+        let qValues = evaluateConstraints(rValues, nValues, kValues, wValues, uValues, p0);
+        if (permutations.length > 0) {
+            const tRows = [rValues, nValues, ...wValues];
+            qValues = qValues.concat(evaluatePermutationConstraints(tRows, uValues, randomness));
+        }
+        if (lookups.length > 0) {
+            // tables are defined by cyclic registers, and thus, can be evaluated at any step of the frame
+            const tRows = [rValues, nValues, ...wValues];
+            const tables = lookups.map(lookup => tRows.map((_, i) => {
+                return kRegisters[lookup.table]!(f.mul(x, frameShifts[i]));
+            }));
+            qValues = qValues.concat(evaluateLookupConstraints(tRows, tables, uValues, randomness));
+        }
         return qValues;
     }
 
+    // OUTPUT CONSTRAINTS
+    // --------------------------------------------------------------------------------------------
+    function getOutputConstraints(values: bigint[]): BoundaryConstraint[] {
+        validateOutputs(values);
+        return outputSteps.map((o, i) => ({ register: o.register, step: o.step, value: values[i] }));
+    }
+
     // STATIC REGISTER EVALUATOR BUILDER
     // --------------------------------------------------------------------------------------------
     function buildStaticRegisterEvaluator(register: RegisterEvaluatorSpecs | undefined): StaticRegisterEvaluator<bigint> | null {
@@ -343,12 +596,154 @@ export function initVerificationContext(inputShapes: number[][] = [], publicInpu
         rootOfUnity                 : rootOfUnity,
         traceLength                 : traceLength,
         extensionFactor             : extensionFactor,
+        frameSize                   : frameSize,
         constraints                 : constraints,
+        boundaryConstraints         : boundaryConstraints,
         inputShapes                 : inputShapes,
-        evaluateConstraintsAt       : evaluateConstraintsAt
+        evaluateConstraintsAt       : evaluateConstraintsAt,
+        getOutputConstraints        : getOutputConstraints
     };
 }
 
+// BOUNDARY CONSTRAINTS
+// ================================================================================================
+export function buildBoundaryConstraints(traceLength: number, registerSpecs: (RegisterEvaluatorSpecs | undefined)[]): BoundaryConstraint[] {
+    // negative steps can resolve to the same step as positive ones only once trace length is known
+    const resolved = new Set<string>();
+    return assertions.map(a => {
+        const step = (a.step < 0) ? traceLength + a.step : a.step;
+        if (step < 0 || step >= traceLength) {
+            throw new Error(`assertion for register ${a.register} is invalid: step ${a.step} is outside of the execution trace`);
+        }
+        const key = `${a.aux ? 'aux' : 'trace'}:${a.register}:${step}`;
+        if (resolved.has(key)) {
+            throw new Error(`assertion for register ${a.register} is invalid: multiple assertions for the register resolve to step ${step}`);
+        }
+        resolved.add(key);
+
+        // values of input registers can be asserted only at steps which hold input values
+        let value = a.value;
+        if (typeof value !== 'bigint') {
+            const input = value.input;
+            value = getInputValueAt(registerSpecs[input]!, step, traceLength)!;
+            if (value === undefined) {
+                throw new Error(`assertion for register ${a.register} is invalid: input register ${input} has no value at step ${step}`);
+            }
+        }
+        return a.aux ? { register: a.register, step, value, aux: true } : { register: a.register, step, value };
+    });
+}
+
+/**
+ * Returns the input value placed into the trace of an input register at the specified step, or
+ * undefined if the register trace is not set to an input value at this step.
+ */
+export function getInputValueAt(register: RegisterEvaluatorSpecs, step: number, traceLength: number): bigint | undefined {
+    const period = traceLength / register.values.length;
+    const position = ((step - (register.rotate || 0)) % traceLength + traceLength) % traceLength;
+    return (position % period === 0) ? register.values[position / period] : undefined;
+}
+
+export function resolveOutputSteps(traceLength: number): OutputDescriptor[] {
+    const resolved = new Set<string>();
+    return outputs.map(o => {
+        const step = (o.step < 0) ? traceLength + o.step : o.step;
+        if (step < 0 || step >= traceLength) {
+            throw new Error(`output for register ${o.register} is invalid: step ${o.step} is outside of the execution trace`);
+        }
+        const key = `${o.register}:${step}`;
+        if (resolved.has(key)) {
+            throw new Error(`output for register ${o.register} is invalid: multiple outputs for the register resolve to step ${step}`);
+        }
+        resolved.add(key);
+        return { register: o.register, step };
+    });
+}
+
+// PERMUTATION ARGUMENTS
+// ================================================================================================
+/**
+ * Evaluates transition constraints of running product and closing columns; random elements of
+ * permutation arguments follow the elements consumed by the auxiliary procedure, and the closing
+ * column of each argument follows its running product column.
+ */
+export function evaluatePermutationConstraints(tRows: bigint[][], uValues: bigint[][], randomness: bigint[]): bigint[] {
+    const alphaOffset = getArgumentRandomnessOffset();
+    const result: bigint[] = [];
+    permutations.forEach((permutation, i) => {
+        const alpha = randomness[alphaOffset + i * 2], gamma = randomness[alphaOffset + i * 2 + 1];
+        const z = auxInitialValues.length + i * 2, c = z + 1;
+
+        // compress rows of both groups at all steps of the frame
+        const left = tRows.map(row => combineColumns(permutation.left.map(r => row[r]), alpha, gamma));
+        const right = tRows.map(row => combineColumns(permutation.right.map(r => row[r]), alpha, gamma));
+
+        // z[i + 1] * right[i] = z[i] * left[i]
+        result.push(f.sub(f.mul(uValues[1][z], right[0]), f.mul(uValues[0][z], left[0])));
+
+        // c[i] * right[i + 1] * ... * right[i + frameSize - 1] = z[i + 1] * left[i + 1] * ... * left[i + frameSize - 1]
+        let lhs = uValues[0][c], rhs = uValues[1][z];
+        for (let k = 1; k < tRows.length; k++) {
+            lhs = f.mul(lhs, right[k]);
+            rhs = f.mul(rhs, left[k]);
+        }
+        result.push(f.sub(lhs, rhs));
+    });
+    return result;
+}
+
+export function combineColumns(values: bigint[], alpha: bigint, gamma: bigint): bigint {
+    let result = f.zero;
+    for (let value of values) {
+        result = f.add(f.mul(result, alpha), value);
+    }
+    return f.add(result, gamma);
+}
+
+// LOOKUP ARGUMENTS
+// ================================================================================================
+/**
+ * Evaluates transition constraints of running sum and closing columns; random elements of lookup
+ * arguments follow the elements of permutation arguments, multiplicity registers follow the registers
+ * of the execution trace, and table values are provided for all steps of the frame.
+ */
+export function evaluateLookupConstraints(tRows: bigint[][], tables: bigint[][], uValues: bigint[][], randomness: bigint[]): bigint[] {
+    const gammaOffset = getArgumentRandomnessOffset() + permutations.length * 2;
+    const result: bigint[] = [];
+    lookups.forEach((lookup, i) => {
+        const gamma = randomness[gammaOffset + i];
+        const s = auxInitialValues.length + permutations.length * 2 + i * 2, c = s + 1;
+        const m = traceRegisterCount - lookups.length + i;
+
+        const values = tRows.map(row => f.add(row[lookup.register], gamma));
+        const entries = tables[i].map(value => f.add(value, gamma));
+
+        // (s[i + 1] - s[i]) * value[i] * table[i] = table[i] - m[i] * value[i]
+        const lhs = f.mul(f.mul(f.sub(uValues[1][s], uValues[0][s]), values[0]), entries[0]);
+        result.push(f.sub(lhs, f.sub(entries[0], f.mul(tRows[0][m], values[0]))));
+
+        // (c[i] - s[i + 1]) * d = n, where n / d is the sum of the terms at the remaining steps of the frame
+        let n = f.zero, d = f.one;
+        for (let k = 1; k < tRows.length; k++) {
+            const denominator = f.mul(values[k], entries[k]);
+            n = f.add(f.mul(n, denominator), f.mul(d, f.sub(entries[k], f.mul(tRows[k][m], values[k]))));
+            d = f.mul(d, denominator);
+        }
+        result.push(f.sub(f.mul(f.sub(uValues[0][c], uValues[1][s]), d), n));
+    });
+    return result;
+}
+
+// RANDOM ELEMENTS
+// ================================================================================================
+export function getArgumentRandomnessOffset(): number {
+    return randomElementCount - permutations.length * 2 - lookups.length;
+}
+
+export function getProcedureRandomness(randomness: bigint[]): bigint[] {
+    return randomness.slice(0, getArgumentRandomnessOffset());
+}
+
 // INPUT PROCESSING
 // ================================================================================================
 export function digestInputs(inputs: any[]) {
@@ -483,6 +878,52 @@ export function validateTracePolynomials(trace: Matrix, traceLength: number): vo
     }
 }
 
+export function validateExecutionTrace(trace: Matrix, traceLength: number): void {
+    if (!trace) throw new TypeError('Execution trace is undefined');
+    if (!isMatrix(trace)) {
+        throw new TypeError('Execution trace must be provided as a matrix of register values');
+    }
+    if (trace.rowCount !== traceRegisterCount) {
+        throw new Error(`Execution trace matrix must contain exactly ${traceRegisterCount} rows`);
+    }
+    if (trace.colCount !== traceLength) {
+        throw new Error(`Execution trace matrix must contain exactly ${traceLength} columns`);
+    }
+}
+
+export function validateAuxiliaryPolynomials(trace: Matrix | undefined, traceLength: number): void {
+    if (!trace) throw new TypeError('Auxiliary trace polynomials are undefined');
+    if (!isMatrix(trace)) {
+        throw new TypeError('Auxiliary trace polynomials must be provided as a matrix of coefficients');
+    }
+    if (trace.rowCount !== auxRegisterCount) {
+        throw new Error(`Auxiliary trace polynomials matrix must contain exactly ${auxRegisterCount} rows`);
+    }
+    if (trace.colCount !== traceLength) {
+        throw new Error(`Auxiliary trace polynomials matrix must contain exactly ${traceLength} columns`);
+    }
+}
+
+export function validateRandomElements(randomness: bigint[]): void {
+    if (!Array.isArray(randomness)) throw new TypeError(`Random elements must be provided as an array`);
+    if (randomness.length !== randomElementCount) {
+        throw new Error(`Expected ${randomElementCount} random elements, but received ${randomness.length}`);
+    }
+    for (let value of randomness) {
+        if (typeof value !== 'bigint') throw new TypeError(`Random element '${value}' is not a field element`);
+    }
+}
+
+export function validateOutputs(values: bigint[]): void {
+    if (!Array.isArray(values)) throw new TypeError(`Outputs must be provided as an array`);
+    if (values.length !== outputs.length) {
+        throw new Error(`Expected ${outputs.length} outputs, but received ${values.length}`);
+    }
+    for (let value of values) {
+        if (!f.isElement(value)) throw new TypeError(`Output '${value}' is not a valid field element`);
+    }
+}
+
 export function validateBinaryValues(values: bigint[], regIdx: number): void {
     for (let i = 0; i < values.length; i++) {
         let value = values[i];
@@ -556,6 +997,63 @@ export function unrollRegisterValues(value: any[] | bigint, regIdx: number, rank
     }
 }
 
+export function rotateVector(v: bigint[], offset: number): bigint[] {
+    return [...v.slice(offset), ...v.slice(0, offset)];
+}
+
+export function repeatVector(v: bigint[], count: number): bigint[] {
+    const result = new Array<bigint>(v.length * count);
+    for (let i = 0; i < result.length; i++) {
+        result[i] = v[i % v.length];
+    }
+    return result;
+}
+
+/**
+ * Computes a * c + b * (1 - c) for a binary condition c; the condition is passed in already
+ * evaluated so that the expression which computes it is executed only once.
+ */
+export function selectValue(c: bigint, a: any, b: any): any {
+    const nc = f.sub(f.one, c);
+    if (typeof a === 'bigint') {
+        return f.add(f.mul(a, c), f.mul(b, nc));
+    }
+    else if ((a as Matrix).rowCount !== undefined) {
+        return f.addMatrixElements(f.mulMatrixElements(a, c), f.mulMatrixElements(b, nc));
+    }
+    else {
+        return f.addVectorElements(f.mulVectorElements(a, c), f.mulVectorElements(b, nc));
+    }
+}
+
+export function getMatrixColumn(m: Matrix, index: number): bigint[] {
+    const column = new Array<bigint>(m.rowCount);
+    for (let i = 0; i < m.rowCount; i++) {
+        column[i] = m.getValue(i, index);
+    }
+    return column;
+}
+
+export function transposeMatrix(m: Matrix): Matrix {
+    const rows = new Array<bigint[]>(m.colCount);
+    for (let j = 0; j < m.colCount; j++) {
+        rows[j] = getMatrixColumn(m, j);
+    }
+    return f.newMatrixFrom(rows);
+}
+
+export function composeBits(bits: bigint[]): bigint {
+    let result = bits[bits.length - 1];
+    for (let i = bits.length - 2; i >= 0; i--) {
+        result = f.add(f.mul(result, 2n), bits[i]);
+    }
+    return result;
+}
+
+export function checkBits(bits: bigint[]): bigint[] {
+    return bits.map(bit => f.mul(bit, f.sub(bit, 1n)));
+}
+
 export function computeTraceLength(shapes: number[][]): number {
         
     let result = 0;
@@ -580,4 +1078,9 @@ export function computeTraceLength(shapes: number[][]): number {
 
 export function isPowerOf2(value: number): boolean {
     return (value !== 0) && (value & (value - 1)) === 0;
+}
+
+export function isMatrix(value: any): value is Matrix {
+    return Number.isInteger(value.rowCount) && Number.isInteger(value.colCount)
+        && typeof value.getValue === 'function';
 }
\ No newline at end of file
@@ -9,78 +9,109 @@ export const HexLiteral = createToken({ name: "HexLiteral", pattern: /0x[0-9a-f]
 export const Literal    = createToken({ name: "Literal",    pattern: /0|[1-9]\d*/,  longer_alt: HexLiteral });
 export const Identifier = createToken({ name: "Identifier", pattern: /[a-zA-Z]\w*/    });
 export const Handle     = createToken({ name: "Handle",     pattern: /\$[_a-zA-Z]\w*/ });
+export const StringLiteral = createToken({ name: "StringLiteral", pattern: /"[^"\n]*"/ });
 
 // KEYWORDS
 // ================================================================================================
-export const Module     = createToken({ name: "Module",     pattern: /module/,      longer_alt: Identifier });
-export const Field      = createToken({ name: "Field",      pattern: /field/,       longer_alt: Identifier });
-export const Prime      = createToken({ name: "Prime",      pattern: /prime/,       longer_alt: Identifier });
-
-export const Const      = createToken({ name: "Const",      pattern: /const/,       longer_alt: Identifier });
-export const Static     = createToken({ name: "Static",     pattern: /static/,      longer_alt: Identifier });
-
-export const Input      = createToken({ name: "Input",      pattern: /input/,       longer_alt: Identifier });
-export const Secret     = createToken({ name: "Secret",     pattern: /secret/,      longer_alt: Identifier });
-export const Public     = createToken({ name: "Public",     pattern: /public/,      longer_alt: Identifier });
-export const Binary     = createToken({ name: "Binary",     pattern: /binary/,      longer_alt: Identifier });
-export const ChildOf    = createToken({ name: "ChildOf",    pattern: /childof/,     longer_alt: Identifier });
-export const PeerOf     = createToken({ name: "PeerOf",     pattern: /peerof/,      longer_alt: Identifier });
-export const Steps      = createToken({ name: "Steps",      pattern: /steps/,       longer_alt: Identifier });
-export const Shift      = createToken({ name: "Shift",      pattern: /shift/,       longer_alt: Identifier });
-
-export const Cycle      = createToken({ name: "Cycle",      pattern: /cycle/,       longer_alt: Identifier });
-export const Power      = createToken({ name: "Power",      pattern: /power/,       longer_alt: Identifier });
-export const Prng       = createToken({ name: "Prng",       pattern: /prng/,        longer_alt: Identifier });
-export const Sha256     = createToken({ name: "Sha256",     pattern: /sha256/,      longer_alt: Identifier });
-
-export const Mask       = createToken({ name: "Mask",       pattern: /mask/,        longer_alt: Identifier });
-export const Inverted   = createToken({ name: "Inverted",   pattern: /inverted/,    longer_alt: Identifier });
-
-export const Function   = createToken({ name: "Function",   pattern: /function/,    longer_alt: Identifier });
-export const Transition = createToken({ name: "Transition", pattern: /transition/,  longer_alt: Identifier });
-export const Evaluation = createToken({ name: "Evaluation", pattern: /evaluation/,  longer_alt: Identifier });
-
-export const Result     = createToken({ name: "Result",     pattern: /result/,      longer_alt: Identifier });
-export const Param      = createToken({ name: "Param",      pattern: /param/,       longer_alt: Identifier });
-export const Local      = createToken({ name: "Local",      pattern: /local/,       longer_alt: Identifier });
-
-export const Export     = createToken({ name: "Export",     pattern: /export/,      longer_alt: Identifier });
-export const Registers  = createToken({ name: "Registers",  pattern: /registers/,   longer_alt: Identifier });
-export const Constraints= createToken({ name: "Constraints",pattern: /constraints/, longer_alt: Identifier });
-export const Init       = createToken({ name: "Init",       pattern: /init/,        longer_alt: Identifier });
+/** keywords which can also be used as names, e.g. as names of components and PRNG methods */
+export const Keyword    = createToken({ name: "Keyword",    pattern: Lexer.NA       });
+
+export const Module     = createToken({ name: "Module",     pattern: /module/,      longer_alt: Identifier, categories: Keyword });
+export const Field      = createToken({ name: "Field",      pattern: /field/,       longer_alt: Identifier, categories: Keyword });
+export const Import     = createToken({ name: "Import",     pattern: /import/,      longer_alt: Identifier, categories: Keyword });
+export const Prime      = createToken({ name: "Prime",      pattern: /prime/,       longer_alt: Identifier, categories: Keyword });
+export const Extension  = createToken({ name: "Extension",  pattern: /extension/,   longer_alt: Identifier, categories: Keyword });
+
+export const Const      = createToken({ name: "Const",      pattern: /const/,       longer_alt: Identifier, categories: Keyword });
+export const Static     = createToken({ name: "Static",     pattern: /static/,      longer_alt: Identifier, categories: Keyword });
+
+export const Input      = createToken({ name: "Input",      pattern: /input/,       longer_alt: Identifier, categories: Keyword });
+export const Secret     = createToken({ name: "Secret",     pattern: /secret/,      longer_alt: Identifier, categories: Keyword });
+export const Public     = createToken({ name: "Public",     pattern: /public/,      longer_alt: Identifier, categories: Keyword });
+export const Binary     = createToken({ name: "Binary",     pattern: /binary/,      longer_alt: Identifier, categories: Keyword });
+export const ChildOf    = createToken({ name: "ChildOf",    pattern: /childof/,     longer_alt: Identifier, categories: Keyword });
+export const PeerOf     = createToken({ name: "PeerOf",     pattern: /peerof/,      longer_alt: Identifier, categories: Keyword });
+export const Steps      = createToken({ name: "Steps",      pattern: /steps/,       longer_alt: Identifier, categories: Keyword });
+export const Shift      = createToken({ name: "Shift",      pattern: /shift/,       longer_alt: Identifier, categories: Keyword });
+export const Frame      = createToken({ name: "Frame",      pattern: /frame/,       longer_alt: Identifier, categories: Keyword });
+
+export const Cycle      = createToken({ name: "Cycle",      pattern: /cycle/,       longer_alt: Identifier, categories: Keyword });
+export const Power      = createToken({ name: "Power",      pattern: /power/,       longer_alt: Identifier, categories: Keyword });
+export const Prng       = createToken({ name: "Prng",       pattern: /prng/,        longer_alt: Identifier, categories: Keyword });
+export const Selector   = createToken({ name: "Selector",   pattern: /selector/,    longer_alt: Identifier, categories: Keyword });
+export const Range      = createToken({ name: "Range",      pattern: /range/,       longer_alt: Identifier, categories: Keyword });
+export const Row        = createToken({ name: "Row",        pattern: /row/,         longer_alt: Identifier, categories: Keyword });
+
+export const Mask       = createToken({ name: "Mask",       pattern: /mask/,        longer_alt: Identifier, categories: Keyword });
+export const Inverted   = createToken({ name: "Inverted",   pattern: /inverted/,    longer_alt: Identifier, categories: Keyword });
+
+export const Function   = createToken({ name: "Function",   pattern: /function/,    longer_alt: Identifier, categories: Keyword });
+export const Transition = createToken({ name: "Transition", pattern: /transition/,  longer_alt: Identifier, categories: Keyword });
+export const Auxiliary  = createToken({ name: "Auxiliary",  pattern: /auxiliary/,   longer_alt: Identifier, categories: Keyword });
+export const Aux        = createToken({ name: "Aux",        pattern: /aux/,         longer_alt: Identifier, categories: Keyword });
+export const Evaluation = createToken({ name: "Evaluation", pattern: /evaluation/,  longer_alt: Identifier, categories: Keyword });
+export const Permutation= createToken({ name: "Permutation",pattern: /permutation/, longer_alt: Identifier, categories: Keyword });
+export const Cols       = createToken({ name: "Cols",       pattern: /cols/,        longer_alt: Identifier, categories: Keyword });
+export const Lookup     = createToken({ name: "Lookup",     pattern: /lookup/,      longer_alt: Identifier, categories: Keyword });
+export const Trace      = createToken({ name: "Trace",      pattern: /trace/,       longer_alt: Identifier, categories: Keyword });
+export const Table      = createToken({ name: "Table",      pattern: /table/,       longer_alt: Identifier, categories: Keyword });
+export const Output     = createToken({ name: "Output",     pattern: /output/,      longer_alt: Identifier, categories: Keyword });
+export const Assertions = createToken({ name: "Assertions", pattern: /assertions/,  longer_alt: Identifier, categories: Keyword });
+export const Assert     = createToken({ name: "Assert",     pattern: /assert/,      longer_alt: Identifier, categories: Keyword });
+
+export const Result     = createToken({ name: "Result",     pattern: /result/,      longer_alt: Identifier, categories: Keyword });
+export const Param      = createToken({ name: "Param",      pattern: /param/,       longer_alt: Identifier, categories: Keyword });
+export const Local      = createToken({ name: "Local",      pattern: /local/,       longer_alt: Identifier, categories: Keyword });
+export const Repeat     = createToken({ name: "Repeat",     pattern: /repeat/,      longer_alt: Identifier, categories: Keyword });
+
+export const Export     = createToken({ name: "Export",     pattern: /export/,      longer_alt: Identifier, categories: Keyword });
+export const Registers  = createToken({ name: "Registers",  pattern: /registers/,   longer_alt: Identifier, categories: Keyword });
+export const Constraints= createToken({ name: "Constraints",pattern: /constraints/, longer_alt: Identifier, categories: Keyword });
+export const Init       = createToken({ name: "Init",       pattern: /init/,        longer_alt: Identifier, categories: Keyword });
 
 // TYPES
 // ================================================================================================
-export const Scalar     = createToken({ name: "Scalar",     pattern: /scalar/,      longer_alt: Identifier });
-export const Vector     = createToken({ name: "Vector",     pattern: /vector/,      longer_alt: Identifier });
-export const Matrix     = createToken({ name: "Matrix",     pattern: /matrix/,      longer_alt: Identifier });
+export const Scalar     = createToken({ name: "Scalar",     pattern: /scalar/,      longer_alt: Identifier, categories: Keyword });
+export const Vector     = createToken({ name: "Vector",     pattern: /vector/,      longer_alt: Identifier, categories: Keyword });
+export const Matrix     = createToken({ name: "Matrix",     pattern: /matrix/,      longer_alt: Identifier, categories: Keyword });
 
 // OPERATORS
 // ================================================================================================
-export const Get        = createToken({ name: "Get",        pattern: /get/,         longer_alt: Identifier });
-export const Slice      = createToken({ name: "Slice",      pattern: /slice/,       longer_alt: Identifier });
+export const GetRow     = createToken({ name: "GetRow",     pattern: /get.row/,     longer_alt: Identifier });
+export const GetCol     = createToken({ name: "GetCol",     pattern: /get.col/,     longer_alt: Identifier });
+export const Get        = createToken({ name: "Get",        pattern: /get/,         longer_alt: Identifier, categories: Keyword });
+export const Transpose  = createToken({ name: "Transpose",  pattern: /transpose/,   longer_alt: Identifier, categories: Keyword });
+export const Slice      = createToken({ name: "Slice",      pattern: /slice/,       longer_alt: Identifier, categories: Keyword });
+export const Concat     = createToken({ name: "Concat",     pattern: /concat/,      longer_alt: Identifier, categories: Keyword });
+export const Rotate     = createToken({ name: "Rotate",     pattern: /rotate/,      longer_alt: Identifier, categories: Keyword });
+export const Reverse    = createToken({ name: "Reverse",    pattern: /reverse/,     longer_alt: Identifier, categories: Keyword });
+export const Select     = createToken({ name: "Select",     pattern: /select/,      longer_alt: Identifier, categories: Keyword });
+export const BitsCompose= createToken({ name: "BitsCompose",pattern: /bits.compose/,longer_alt: Identifier });
+export const BitsCheck  = createToken({ name: "BitsCheck",  pattern: /bits.check/,  longer_alt: Identifier });
 
 export const BinaryOp   = createToken({ name: "BinaryOp",   pattern: Lexer.NA       });
-export const Add        = createToken({ name: "Add",        pattern: /add/,         longer_alt: Identifier, categories: BinaryOp });
-export const Sub        = createToken({ name: "Sub",        pattern: /sub/,         longer_alt: Identifier, categories: BinaryOp });
-export const Mul        = createToken({ name: "Mul",        pattern: /mul/,         longer_alt: Identifier, categories: BinaryOp });
-export const Div        = createToken({ name: "Div",        pattern: /div/,         longer_alt: Identifier, categories: BinaryOp });
-export const Exp        = createToken({ name: "Exp",        pattern: /exp/,         longer_alt: Identifier, categories: BinaryOp });
-export const Prod       = createToken({ name: "Prod",       pattern: /prod/,        longer_alt: Identifier, categories: BinaryOp });
+export const Add        = createToken({ name: "Add",        pattern: /add/,         longer_alt: Identifier, categories: [BinaryOp, Keyword] });
+export const Sub        = createToken({ name: "Sub",        pattern: /sub/,         longer_alt: Identifier, categories: [BinaryOp, Keyword] });
+export const Mul        = createToken({ name: "Mul",        pattern: /mul/,         longer_alt: Identifier, categories: [BinaryOp, Keyword] });
+export const Div        = createToken({ name: "Div",        pattern: /div/,         longer_alt: Identifier, categories: [BinaryOp, Keyword] });
+export const Exp        = createToken({ name: "Exp",        pattern: /exp/,         longer_alt: Identifier, categories: [BinaryOp, Keyword] });
+export const Prod       = createToken({ name: "Prod",       pattern: /prod/,        longer_alt: Identifier, categories: [BinaryOp, Keyword] });
 
 export const UnaryOp    = createToken({ name: "UnaryOp",    pattern: Lexer.NA       });
-export const Neg        = createToken({ name: "Neg",        pattern: /neg/,         longer_alt: Identifier, categories: UnaryOp  });
-export const Inv        = createToken({ name: "Inv",        pattern: /inv/,         longer_alt: Identifier, categories: UnaryOp  });
+export const Neg        = createToken({ name: "Neg",        pattern: /neg/,         longer_alt: Identifier, categories: [UnaryOp, Keyword] });
+export const Inv        = createToken({ name: "Inv",        pattern: /inv/,         longer_alt: Identifier, categories: [UnaryOp, Keyword] });
 
 export const LoadOp     = createToken({ name: "LoadOp",     pattern: Lexer.NA       });
 export const LoadConst  = createToken({ name: "LoadConst",  pattern: /load.const/,  longer_alt: Identifier, categories: LoadOp   });
 export const LoadTrace  = createToken({ name: "LoadTrace",  pattern: /load.trace/,  longer_alt: Identifier, categories: LoadOp   });
 export const LoadStatic = createToken({ name: "LoadStatic", pattern: /load.static/, longer_alt: Identifier, categories: LoadOp   });
+export const LoadAux    = createToken({ name: "LoadAux",    pattern: /load.aux/,    longer_alt: Identifier, categories: LoadOp   });
 export const LoadParam  = createToken({ name: "LoadParam",  pattern: /load.param/,  longer_alt: Identifier, categories: LoadOp   });
 export const LoadLocal  = createToken({ name: "LoadLocal",  pattern: /load.local/,  longer_alt: Identifier, categories: LoadOp   });
+export const LoadReg    = createToken({ name: "LoadRegister", pattern: /load.register/, longer_alt: Identifier });
 
 export const StoreOp    = createToken({ name: "StoreLocal", pattern: /store.local/, longer_alt: Identifier });
-export const CallOp     = createToken({ name: "CallOp",     pattern: /call/,        longer_alt: Identifier });
+export const CallOp     = createToken({ name: "CallOp",     pattern: /call/,        longer_alt: Identifier, categories: Keyword });
 
 // SYMBOLS
 // ================================================================================================
@@ -97,20 +128,22 @@ export const Comment    = createToken({ name: "Comment",    pattern : /#.+/,
 // ================================================================================================
 export const allTokens = [
     WhiteSpace, Comment,
-    
+
+    Keyword,
     Export, Registers, Constraints, Init,
 
-    Module, Field, Prime, Const, Static, Input, Secret, Public, Binary, ChildOf, PeerOf, Steps, Shift,
-    Cycle, Power, Prng, Sha256, Mask, Inverted, Function, Transition, Evaluation, Result, Param, Local,
+    Module, Field, Import, Prime, Extension, Const, Static, Input, Secret, Public, Binary, ChildOf, PeerOf, Steps, Shift, Frame,
+    Cycle, Power, Prng, Selector, Range, Row, Mask, Inverted, Function, Transition, Auxiliary, Aux, Evaluation, Permutation,
+    Cols, Lookup, Trace, Table, Output, Assertions, Assert, Result, Param, Local, Repeat,
 
     Scalar, Vector, Matrix,
 
-    Get, Slice, BinaryOp, Add, Sub, Mul, Div, Exp, Prod, UnaryOp, Neg, Inv,
-    LoadOp, LoadConst, LoadTrace, LoadStatic, LoadParam, LoadLocal, StoreOp, CallOp,
+    GetRow, GetCol, Get, Slice, Concat, Rotate, Reverse, Transpose, Select, BitsCompose, BitsCheck, BinaryOp, Add, Sub, Mul, Div, Exp, Prod, UnaryOp, Neg, Inv,
+    LoadOp, LoadConst, LoadTrace, LoadStatic, LoadAux, LoadParam, LoadLocal, LoadReg, StoreOp, CallOp,
 
     LParen, RParen, Minus,
 
-    HexLiteral, Literal, Identifier, Handle
+    HexLiteral, Literal, StringLiteral, Identifier, Handle
 ];
 
 // EXPORT LEXER INSTANCE
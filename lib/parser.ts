@@ -1,40 +1,88 @@
 // IMPORTS
 // ================================================================================================
-import { EmbeddedActionsParser } from "chevrotain";
+import { EmbeddedActionsParser, IToken } from "chevrotain";
+import { SourceSpan, AssemblyErrorEntry } from "@guildofweavers/air-assembly";
 import { FiniteField } from "@guildofweavers/galois";
 import { AirSchema } from "./AirSchema";
 import { AirComponent } from "./AirComponent";
-import { PrngSequence, PowerSequence } from "./registers";
-import { ExecutionContext, StoreOperation } from "./procedures";
+import { StaticRegister, PrngSequence, PowerSequence, SelectorSequence, RangeSequence, ConstantSequence } from "./registers";
+import { ExecutionContext, StoreOperation, Constant, AirFunction, Parameter, LocalVariable } from "./procedures";
 import {
     allTokens, LParen, RParen, Module, Field, Literal, Prime, Const, Vector, Matrix, Static, Input, Binary, 
-    Scalar, Local, Get, Slice, BinaryOp, UnaryOp, LoadOp, StoreOp, Transition, Evaluation, Secret, Public,
-    Result, Cycle, Steps, ChildOf, PeerOf, Mask, Inverted, Export, Identifier, Init, Shift, Minus,
-    Power, Prng, Sha256, HexLiteral, Handle, Param, Function, CallOp, Registers, Constraints
+    Scalar, Local, Get, Slice, BinaryOp, UnaryOp, LoadOp, LoadReg, StoreOp, Transition, Evaluation, Secret, Public,
+    Result, Cycle, Steps, Frame, ChildOf, PeerOf, Mask, Inverted, Export, Identifier, Keyword, Init, Shift, Minus,
+    Power, Prng, Selector, Range, Row, LoadConst, HexLiteral, Handle, Param, Function, CallOp, Registers, Constraints, Assertions, Assert,
+    Extension, Import, StringLiteral, Select, GetRow, GetCol, Transpose, Concat, Rotate, Reverse, Repeat,
+    BitsCompose, BitsCheck, Auxiliary, Aux, Permutation, Cols, Lookup, Trace, Table, Output
 } from './lexer';
-import {
-    Expression, LiteralValue, BinaryOperation, UnaryOperation, MakeVector, MakeMatrix, 
-    GetVectorElement, SliceVector, LoadExpression, CallExpression, Dimensions
-} from "./expressions";
-import { parserErrorMessageProvider } from "./errors";
+import { Expression, PoisonedExpression, Dimensions } from "./expressions";
+import { parserErrorMessageProvider, AssemblyError, SourceError, getSourceSpan } from "./errors";
+import { validate } from "./utils";
+
+// CONSTANTS
+// ================================================================================================
+const MAX_REPEAT_COUNT = 1024;
+
+// INTERFACES
+// ================================================================================================
+export interface ModuleLoader {
+    (path: string): AirSchema;
+}
+
+/** expressions and statements are built after they are parsed so that repeat blocks can build them many times */
+type ExpressionBuilder = () => Expression;
+type StatementBuilder = () => void;
+
+type SourceNode = Expression | StoreOperation | Constant | AirFunction | Parameter | LocalVariable
+    | StaticRegister | AirComponent;
 
 // PARSER DEFINITION
 // ================================================================================================
 class AirParser extends EmbeddedActionsParser {
+
+    /** when set to true, semantic errors are recorded and parsing continues with placeholders */
+    collectErrors = false;
+    semanticErrors: Array<Error | AssemblyErrorEntry> = [];
+
+    /** indexes of current iterations of repeat blocks being built, keyed by handles of the blocks */
+    private iterations = new Map<string, number>();
+
     constructor() {
         super(allTokens, { errorMessageProvider: parserErrorMessageProvider });
         this.performSelfAnalysis();
     }
 
+    reset(): void {
+        super.reset();
+        this.semanticErrors = [];
+        this.iterations.clear();
+    }
+
     // MODULE
     // --------------------------------------------------------------------------------------------
-    public module = this.RULE<AirSchema>('module', () => {
+    public module = this.RULE<AirSchema>('module', (loader?: ModuleLoader, imported?: boolean) => {
         this.CONSUME(LParen);
         this.CONSUME(Module);
         const schema = this.SUBRULE(this.fieldDeclaration);
-        this.MANY1(() => this.SUBRULE(this.constantDeclaration,         { ARGS: [schema] }));
-        this.MANY2(() => this.SUBRULE(this.airFunction,                 { ARGS: [schema] }));
-        this.AT_LEAST_ONE(() => this.SUBRULE(this.componentDeclaration, { ARGS: [schema] }));
+        this.MANY1(() => this.SUBRULE1(this.importDeclaration,          { ARGS: [schema, loader] }));
+        // imports which follow declarations are parsed only to be reported
+        this.MANY2(() => this.OR1([
+            { ALT: () => this.SUBRULE(this.constantDeclaration,         { ARGS: [schema] }) },
+            { ALT: () => this.SUBRULE2(this.importDeclaration,          { ARGS: [schema, loader, true] }) }
+        ]));
+        this.MANY3(() => this.OR2([
+            { ALT: () => this.SUBRULE(this.airFunction,                 { ARGS: [schema] }) },
+            { ALT: () => this.SUBRULE3(this.importDeclaration,          { ARGS: [schema, loader, true] }) }
+        ]));
+        // only imported modules may omit component exports
+        this.OR([
+            { GATE: () => !imported, IGNORE_AMBIGUITIES: true, ALT: () => {
+                this.AT_LEAST_ONE(() => this.SUBRULE1(this.componentDeclaration, { ARGS: [schema] }));
+            }},
+            { GATE: () => imported === true, ALT: () => {
+                this.MANY4(() => this.SUBRULE2(this.componentDeclaration, { ARGS: [schema] }));
+            }}
+        ]);
         this.CONSUME(RParen);
         return schema;
     });
@@ -42,17 +90,49 @@ class AirParser extends EmbeddedActionsParser {
     // FINITE FIELD
     // --------------------------------------------------------------------------------------------
     private fieldDeclaration = this.RULE<AirSchema>('fieldDeclaration', () => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Field);
-        this.CONSUME(Prime);
-        const modulus = this.CONSUME(Literal).image;
+        const schema = this.OR([
+            { ALT: () => {
+                this.CONSUME(Prime);
+                const modulus = this.CONSUME1(Literal).image;
+                return this.located(start, () => new AirSchema('prime', BigInt(modulus)));
+            }},
+            { ALT: () => {
+                this.CONSUME(Extension);
+                const modulus = this.CONSUME2(Literal).image;
+                const degree = this.SUBRULE(this.integerLiteral);
+                const polynomial = this.OPTION(() => this.SUBRULE(this.fieldElementSequence));
+                return this.located(start, () => new AirSchema('extension', BigInt(modulus), degree, polynomial));
+            }}
+        ]);
+        this.CONSUME(RParen);
+        return schema;
+    });
+
+    // IMPORTS
+    // --------------------------------------------------------------------------------------------
+    private importDeclaration = this.RULE('importDeclaration', (schema: AirSchema, loader?: ModuleLoader, misplaced?: boolean) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Import);
+        const path = this.CONSUME(StringLiteral).image;
+        const handles: string[] = [];
+        this.AT_LEAST_ONE(() => handles.push(this.CONSUME(Handle).image));
         this.CONSUME(RParen);
-        return this.ACTION(() => new AirSchema('prime', BigInt(modulus)));
+        this.located(start, () => {
+            validate(!misplaced, errors.importMisplaced());
+            validate(loader !== undefined, errors.importsNotSupported());
+            const modulePath = path.slice(1, -1);
+            schema.importDeclarations(loader(modulePath), handles, modulePath);
+        }, skip);
     });
 
     // GLOBAL CONSTANTS
     // --------------------------------------------------------------------------------------------
     private constantDeclaration = this.RULE('constantDeclaration', (schema: AirSchema) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Const);
         const handle = this.OPTION(() => this.CONSUME(Handle).image);
@@ -77,12 +157,13 @@ class AirParser extends EmbeddedActionsParser {
             }}
         ]);
         this.CONSUME(RParen);
-        this.ACTION(() => schema.addConstant(value, handle));
+        this.located(start, () => schema.addConstant(value, handle), skip);
     });
 
     // GLOBAL FUNCTIONS
     // --------------------------------------------------------------------------------------------
     private airFunction = this.RULE('airFunction', (schema: AirSchema) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Function);
 
@@ -90,17 +171,17 @@ class AirParser extends EmbeddedActionsParser {
 
         // build function context
         const resultType = this.SUBRULE(this.functionResultType);
-        const context = this.ACTION(() => schema.createFunctionContext(resultType, handle));
+        const context = this.located(start, () => schema.createFunctionContext(resultType, handle));
         this.MANY1(() => this.SUBRULE(this.paramDeclaration, { ARGS: [context] }));
         this.MANY2(() => this.SUBRULE(this.localDeclaration, { ARGS: [context] }));
         
         // build function body
         const statements: StoreOperation[] = [];
-        this.MANY3(() => statements.push(this.SUBRULE(this.storeOperation, { ARGS: [context] })));
+        this.MANY3(() => this.ACTION(this.SUBRULE(this.statement, { ARGS: [context, statements] })));
         const result = this.SUBRULE(this.expression, { ARGS: [context] });
         this.CONSUME(RParen);
 
-        this.ACTION(() => schema.addFunction(context, statements, result));
+        this.located(start, () => schema.addFunction(context, statements, cure(result(), context.result)), skip);
     });
 
     private functionResultType = this.RULE<Dimensions>('functionResultType', () => {
@@ -112,21 +193,23 @@ class AirParser extends EmbeddedActionsParser {
     });
 
     private paramDeclaration = this.RULE('paramDeclaration', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Param);
         const handle = this.OPTION(() => this.CONSUME(Handle).image);
         const dimensions = this.SUBRULE(this.typeDimensions);
         this.CONSUME(RParen);
-        this.ACTION(() => ctx.addParam(dimensions, handle));
+        this.located(start, () => ctx.addParam(dimensions, handle), skip);
     });
 
     private localDeclaration = this.RULE('localDeclaration', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Local);
         const handle = this.OPTION(() => this.CONSUME(Handle).image);
         const dimensions = this.SUBRULE(this.typeDimensions);
         this.CONSUME(RParen);
-        this.ACTION(() => ctx.addLocal(dimensions, handle));
+        this.located(start, () => ctx.addLocal(dimensions, handle), skip);
     });
 
     private typeDimensions = this.RULE<Dimensions>('typeDimensions', () => {
@@ -153,13 +236,21 @@ class AirParser extends EmbeddedActionsParser {
     // COMPONENTS
     // --------------------------------------------------------------------------------------------
     private componentDeclaration = this.RULE('componentDeclaration', (schema: AirSchema) => {
+        const start = this.LA(1);
         this.CONSUME1(LParen);
         this.CONSUME(Export);
-        const name = this.CONSUME(Identifier).image;
+        const name = this.SUBRULE(this.name);
 
         this.CONSUME2(LParen);
         this.CONSUME(Registers);
-        const registers = this.SUBRULE1(this.integerLiteral);
+        const registers = this.OR([
+            { ALT: () => this.SUBRULE1(this.integerLiteral) },
+            { ALT: () => {
+                const handles: string[] = [];
+                this.AT_LEAST_ONE(() => handles.push(this.CONSUME(Handle).image));
+                return handles;
+            }}
+        ]);
         this.CONSUME2(RParen);
 
         this.CONSUME3(LParen);
@@ -171,16 +262,35 @@ class AirParser extends EmbeddedActionsParser {
         this.CONSUME(Steps);
         const steps = this.SUBRULE3(this.integerLiteral);
         this.CONSUME4(RParen);
+
+        const frameSize = this.OPTION1(() => {
+            this.CONSUME5(LParen);
+            this.CONSUME(Frame);
+            const size = this.SUBRULE4(this.integerLiteral);
+            this.CONSUME5(RParen);
+            return size;
+        });
         
-        const component = this.ACTION(() => schema.createComponent(name, registers, constraints, steps));
+        const component = this.located(start, () => schema.createComponent(name, registers, constraints, steps, frameSize));
+        const errorCount = this.semanticErrors.length;
 
         this.OPTION(() => this.SUBRULE(this.staticRegisters,    { ARGS: [component] }));
         this.SUBRULE(this.traceInitializer,                     { ARGS: [component] });
         this.SUBRULE(this.transitionFunction,                   { ARGS: [component] });
+        this.OPTION3(() => this.SUBRULE(this.auxiliaryFunction, { ARGS: [component] }));
         this.SUBRULE(this.transitionConstraints,                { ARGS: [component] });
+        this.MANY(() => this.SUBRULE(this.permutationArgument,  { ARGS: [component] }));
+        this.MANY2(() => this.SUBRULE(this.lookupArgument,      { ARGS: [component] }));
+        this.MANY3(() => this.SUBRULE(this.outputDeclaration,   { ARGS: [component] }));
+        this.OPTION2(() => this.SUBRULE(this.boundaryConstraints, { ARGS: [component] }));
         this.CONSUME1(RParen);
 
-        this.ACTION(() => schema.addComponent(component));
+        this.located(start, () => {
+            // components with errors are incomplete, and thus, cannot be validated
+            if (this.semanticErrors.length > errorCount) return;
+            schema.addComponent(component);
+            return component;
+        }, skip);
     });
 
     // STATIC REGISTERS
@@ -195,6 +305,7 @@ class AirParser extends EmbeddedActionsParser {
     });
 
     private inputRegister = this.RULE('inputRegister', (component: AirComponent) => {
+        const start = this.LA(1);
         this.CONSUME1(LParen);
         this.CONSUME(Input);
 
@@ -203,6 +314,7 @@ class AirParser extends EmbeddedActionsParser {
             { ALT: () => this.CONSUME(Public).image }
         ]);
 
+        const handle = this.OPTION5(() => this.CONSUME(Handle).image);
         const binary = this.OPTION1(() => this.CONSUME(Binary)) ? true : false;
 
         const master = this.OPTION2(() => {
@@ -233,56 +345,106 @@ class AirParser extends EmbeddedActionsParser {
         });
 
         this.CONSUME1(RParen);
-        this.ACTION(() => component.addInputRegister(scope, binary, master, steps, offset));
+        this.located(start, () => component.addInputRegister(scope, binary, master, steps, offset, handle), skip);
     });
 
     private maskRegister = this.RULE('maskRegister', (component: AirComponent) => {
+        const start = this.LA(1);
         this.CONSUME1(LParen);
         this.CONSUME(Mask);
-        const inverted = this.OPTION(() => this.CONSUME(Inverted)) ? true : false;
+        const handle = this.OPTION1(() => this.CONSUME(Handle).image);
+        const inverted = this.OPTION2(() => this.CONSUME(Inverted)) ? true : false;
         this.CONSUME2(LParen);
         this.CONSUME(Input);
         const source = this.CONSUME(Literal).image;
         this.CONSUME2(RParen);
         this.CONSUME1(RParen);
-        this.ACTION(() => component.addMaskRegister(Number(source), inverted));
+        this.located(start, () => component.addMaskRegister(Number(source), inverted, handle), skip);
     });
 
     private cyclicRegister = this.RULE('cyclicRegister', (component: AirComponent) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Cycle);
+        const handle = this.OPTION(() => this.CONSUME(Handle).image);
         const field = component ? component.field : undefined;
         const values = this.OR([
             { ALT: () => this.SUBRULE(this.prngSequence,         { ARGS: [field] }) },
             { ALT: () => this.SUBRULE(this.powerSequence,        { ARGS: [field] }) },
+            { ALT: () => this.SUBRULE(this.selectorSequence,     { ARGS: [field] }) },
+            { ALT: () => this.SUBRULE(this.rangeSequence,        { ARGS: [field] }) },
+            { ALT: () => this.SUBRULE(this.constantSequence,     { ARGS: [component] }) },
             { ALT: () => this.SUBRULE(this.fieldElementSequence, { ARGS: [field] }) }
         ]);
         this.CONSUME(RParen);
-        this.ACTION(() => component.addCyclicRegister(values));
+        this.located(start, () => {
+            // values are missing only if an error in the sequence has been recorded already
+            if (values === undefined) return;
+            return component.addCyclicRegister(values, handle);
+        }, skip);
     });
 
-    private prngSequence = this.RULE<PrngSequence>('prngExpression', (field: FiniteField) => {
+    private prngSequence = this.RULE<PrngSequence | undefined>('prngExpression', (field: FiniteField) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Prng);
-        const method = this.CONSUME(Sha256).image;
+        const method = this.SUBRULE(this.name);
         const seed = this.CONSUME(HexLiteral).image;
         const count = this.CONSUME(Literal).image;
         this.CONSUME(RParen);
-        return this.ACTION(() => new PrngSequence(method, BigInt(seed), Number(count)));
+        return this.located(start, () => new PrngSequence(method, BigInt(seed), Number(count)), skip);
     });
 
-    private powerSequence = this.RULE<PowerSequence>('powerSequence', (field: FiniteField) => {
+    private constantSequence = this.RULE<ConstantSequence | undefined>('constantSequence', (component: AirComponent) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(LoadConst);
+        const indexOrHandle = this.OR([
+            { ALT: () => this.SUBRULE1(this.integerLiteral) },
+            { ALT: () => this.CONSUME(Handle).image }
+        ]);
+        this.CONSUME(RParen);
+        const row = this.OPTION(() => {
+            this.CONSUME(Row);
+            return this.SUBRULE2(this.integerLiteral);
+        });
+        return this.located(start, () => component.createConstantSequence(indexOrHandle, row), skip);
+    });
+
+    private powerSequence = this.RULE<PowerSequence | undefined>('powerSequence', (field: FiniteField) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Power);
         const base = this.CONSUME1(Literal).image;
         const count = this.CONSUME2(Literal).image;
         this.CONSUME(RParen);
-        return this.ACTION(() => new PowerSequence(BigInt(base), Number(count)));
+        return this.located(start, () => new PowerSequence(BigInt(base), Number(count)), skip);
+    });
+
+    private selectorSequence = this.RULE<SelectorSequence | undefined>('selectorSequence', (field: FiniteField) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Selector);
+        const position = this.SUBRULE(this.signedIntegerLiteral);
+        const count = this.CONSUME(Literal).image;
+        this.CONSUME(RParen);
+        return this.located(start, () => new SelectorSequence(position, Number(count)), skip);
+    });
+
+    private rangeSequence = this.RULE<RangeSequence | undefined>('rangeSequence', (field: FiniteField) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Range);
+        const first = this.CONSUME1(Literal).image;
+        const count = this.CONSUME2(Literal).image;
+        this.CONSUME(RParen);
+        return this.located(start, () => new RangeSequence(BigInt(first), Number(count)), skip);
     });
 
     // PROCEDURES
     // --------------------------------------------------------------------------------------------
     private traceInitializer = this.RULE('traceInitializer', (component: AirComponent) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Init);
 
@@ -293,14 +455,15 @@ class AirParser extends EmbeddedActionsParser {
 
         // build body
         const statements: StoreOperation[] = [];
-        this.MANY2(() => statements.push(this.SUBRULE(this.storeOperation, { ARGS: [context] })));
+        this.MANY2(() => this.ACTION(this.SUBRULE(this.statement, { ARGS: [context, statements] })));
         const result = this.SUBRULE(this.expression, { ARGS: [context] });
         this.CONSUME(RParen);
 
-        this.ACTION(() => component.setTraceInitializer(context, statements, result));
+        this.located(start, () => component.setTraceInitializer(context, statements, cure(result(), Dimensions.vector(context.width))), skip);
     });
 
     private transitionFunction = this.RULE('transitionFunction', (component: AirComponent) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Transition);
 
@@ -310,120 +473,390 @@ class AirParser extends EmbeddedActionsParser {
 
         // build body
         const statements: StoreOperation[] = [];
-        this.MANY2(() => statements.push(this.SUBRULE(this.storeOperation, { ARGS: [context] })));
+        this.MANY2(() => this.ACTION(this.SUBRULE(this.statement, { ARGS: [context, statements] })));
         const result = this.SUBRULE(this.expression, { ARGS: [context] });
         this.CONSUME(RParen);
 
-        this.ACTION(() => component.setTransitionFunction(context, statements, result));
+        this.located(start, () => component.setTransitionFunction(context, statements, cure(result(), Dimensions.vector(context.width))), skip);
+    });
+
+    private auxiliaryFunction = this.RULE('auxiliaryFunction', (component: AirComponent) => {
+        const start = this.LA(1);
+        this.CONSUME1(LParen);
+        this.CONSUME(Auxiliary);
+
+        // declare auxiliary registers
+        const valuesStart = this.LA(1);
+        this.CONSUME2(LParen);
+        this.CONSUME(Init);
+        const values = this.SUBRULE(this.fieldElementSequence);
+        this.CONSUME2(RParen);
+        this.located(valuesStart, () => component.setAuxiliaryRegisters(values), skip);
+
+        // build context
+        const context = this.ACTION(() => component.createProcedureContext('auxiliary'));
+        this.OPTION(() => this.SUBRULE(this.paramDeclaration, { ARGS: [context] }));
+        this.MANY1(() => this.SUBRULE(this.localDeclaration,  { ARGS: [context] }));
+
+        // build body
+        const statements: StoreOperation[] = [];
+        this.MANY2(() => this.ACTION(this.SUBRULE(this.statement, { ARGS: [context, statements] })));
+        const result = this.SUBRULE(this.expression, { ARGS: [context] });
+        this.CONSUME1(RParen);
+
+        this.located(start, () => component.setAuxiliaryFunction(context, statements, cure(result(), Dimensions.vector(context.width))), skip);
     });
 
     private transitionConstraints = this.RULE('transitionConstraints', (component: AirComponent) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Evaluation);
         
         // build context
         const context = this.ACTION(() => component.createProcedureContext('evaluation'));
-        this.MANY1(() => this.SUBRULE(this.localDeclaration, { ARGS: [context] }));
+        this.OPTION(() => this.SUBRULE(this.paramDeclaration, { ARGS: [context] }));
+        this.MANY1(() => this.SUBRULE(this.localDeclaration,  { ARGS: [context] }));
         
         // build body
         const statements: StoreOperation[] = [];
-        this.MANY2(() => statements.push(this.SUBRULE(this.storeOperation, { ARGS: [context] })));
+        this.MANY2(() => this.ACTION(this.SUBRULE(this.statement, { ARGS: [context, statements] })));
         const result = this.SUBRULE(this.expression, { ARGS: [context] });
         this.CONSUME(RParen);
 
-        this.ACTION(() => component.setConstraintEvaluator(context, statements, result));
+        this.located(start, () => component.setConstraintEvaluator(context, statements, cure(result(), Dimensions.vector(context.width))), skip);
+    });
+
+    // PERMUTATION ARGUMENTS
+    // --------------------------------------------------------------------------------------------
+    private permutationArgument = this.RULE('permutationArgument', (component: AirComponent) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Permutation);
+        const left = this.SUBRULE1(this.registerColumns);
+        const right = this.SUBRULE2(this.registerColumns);
+        this.CONSUME(RParen);
+        this.located(start, () => component.addPermutation(left, right), skip);
+    });
+
+    private registerColumns = this.RULE<(number | string)[]>('registerColumns', () => {
+        const columns: (number | string)[] = [];
+        this.CONSUME(LParen);
+        this.CONSUME(Cols);
+        this.AT_LEAST_ONE(() => columns.push(this.OR([
+            { ALT: () => this.SUBRULE(this.integerLiteral) },
+            { ALT: () => this.CONSUME(Handle).image }
+        ])));
+        this.CONSUME(RParen);
+        return columns;
+    });
+
+    // LOOKUP ARGUMENTS
+    // --------------------------------------------------------------------------------------------
+    private lookupArgument = this.RULE('lookupArgument', (component: AirComponent) => {
+        const start = this.LA(1);
+        this.CONSUME1(LParen);
+        this.CONSUME(Lookup);
+
+        this.CONSUME2(LParen);
+        this.CONSUME(Trace);
+        const register = this.OR1([
+            { ALT: () => this.SUBRULE1(this.integerLiteral) },
+            { ALT: () => this.CONSUME1(Handle).image }
+        ]);
+        this.CONSUME2(RParen);
+
+        this.CONSUME3(LParen);
+        this.CONSUME(Table);
+        const table = this.OR2([
+            { ALT: () => this.SUBRULE2(this.integerLiteral) },
+            { ALT: () => this.CONSUME2(Handle).image }
+        ]);
+        this.CONSUME3(RParen);
+
+        this.CONSUME1(RParen);
+        this.located(start, () => component.addLookup(register, table), skip);
+    });
+
+    // OUTPUTS
+    // --------------------------------------------------------------------------------------------
+    private outputDeclaration = this.RULE('outputDeclaration', (component: AirComponent) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Output);
+        const register = this.OR([
+            { ALT: () => this.SUBRULE1(this.integerLiteral) },
+            { ALT: () => this.CONSUME(Handle).image }
+        ]);
+        const step = this.SUBRULE(this.signedIntegerLiteral);
+        this.CONSUME(RParen);
+        this.located(start, () => component.addOutput(register, step), skip);
+    });
+
+    // BOUNDARY CONSTRAINTS
+    // --------------------------------------------------------------------------------------------
+    private boundaryConstraints = this.RULE('boundaryConstraints', (component: AirComponent) => {
+        this.CONSUME(LParen);
+        this.CONSUME(Assertions);
+        this.AT_LEAST_ONE(() => this.SUBRULE(this.assertion, { ARGS: [component] }));
+        this.CONSUME(RParen);
+    });
+
+    private assertion = this.RULE('assertion', (component: AirComponent) => {
+        const start = this.LA(1);
+        this.CONSUME1(LParen);
+        this.CONSUME(Assert);
+        const aux = this.OPTION(() => this.CONSUME(Aux)) !== undefined;
+        const register = this.OR1([
+            { ALT: () => this.SUBRULE1(this.integerLiteral) },
+            { ALT: () => this.CONSUME(Handle).image }
+        ]);
+        const step = this.SUBRULE(this.signedIntegerLiteral);
+        const value = this.OR2([
+            { ALT: () => this.SUBRULE(this.fieldElement) },
+            { ALT: () => {
+                this.CONSUME2(LParen);
+                this.CONSUME(Input);
+                const input = this.SUBRULE2(this.integerLiteral);
+                this.CONSUME2(RParen);
+                return { input };
+            }}
+        ]);
+        this.CONSUME1(RParen);
+        this.located(start, () => component.addAssertion(register, step, value, aux), skip);
     });
 
     // EXPRESSIONS
     // --------------------------------------------------------------------------------------------
-    private expression = this.RULE<Expression>('expression', (ctx: ExecutionContext) => {
+    private expression = this.RULE<ExpressionBuilder>('expression', (ctx: ExecutionContext) => {
         const result = this.OR([
             { ALT: () => this.SUBRULE(this.binaryOperation,     { ARGS: [ctx] })},
             { ALT: () => this.SUBRULE(this.unaryOperation,      { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.selectExpression,    { ARGS: [ctx] })},
             { ALT: () => this.SUBRULE(this.makeVector,          { ARGS: [ctx] })},
-            { ALT: () => this.SUBRULE(this.getVectorElement,    { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.getElement,          { ARGS: [ctx] })},
             { ALT: () => this.SUBRULE(this.sliceVector,         { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.concatVectors,       { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.rotateVector,        { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.reverseVector,       { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.repeatVector,        { ARGS: [ctx] })},
             { ALT: () => this.SUBRULE(this.makeMatrix,          { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.getMatrixRow,        { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.getMatrixColumn,     { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.transposeMatrix,     { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.composeBits,         { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.checkBits,           { ARGS: [ctx] })},
             { ALT: () => this.SUBRULE(this.loadExpression,      { ARGS: [ctx] })},
+            { ALT: () => this.SUBRULE(this.loadRegister,        { ARGS: [ctx] })},
             { ALT: () => this.SUBRULE(this.callExpression,      { ARGS: [ctx] })},
             { ALT: () => this.SUBRULE(this.scalarLiteral,       { ARGS: [ctx] })}
         ]);
         return result;
     });
 
-    private binaryOperation = this.RULE<BinaryOperation>('binaryOperation', (ctx: ExecutionContext) => {
+    private binaryOperation = this.RULE<ExpressionBuilder>('binaryOperation', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         const op = this.CONSUME(BinaryOp).image;
         const lhs = this.SUBRULE1(this.expression, { ARGS: [ctx] });
         const rhs = this.SUBRULE2(this.expression, { ARGS: [ctx] });
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildBinaryOperation(op, lhs, rhs));
+        return this.expressionAt(start, [lhs, rhs], (l, r) => ctx.buildBinaryOperation(op, l, r));
     });
 
-    private unaryOperation = this.RULE<UnaryOperation>('unaryOperation', (ctx: ExecutionContext) => {
+    private unaryOperation = this.RULE<ExpressionBuilder>('unaryOperation', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         const op = this.CONSUME(UnaryOp).image;
         const value = this.SUBRULE(this.expression, { ARGS: [ctx] });
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildUnaryOperation(op, value));
+        return this.expressionAt(start, [value], v => ctx.buildUnaryOperation(op, v));
+    });
+
+    private selectExpression = this.RULE<ExpressionBuilder>('selectExpression', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Select);
+        const condition = this.SUBRULE1(this.expression, { ARGS: [ctx] });
+        const onTrue = this.SUBRULE2(this.expression, { ARGS: [ctx] });
+        const onFalse = this.SUBRULE3(this.expression, { ARGS: [ctx] });
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [condition, onTrue, onFalse], (c, t, f) => ctx.buildSelectExpression(c, t, f));
     });
 
-    private scalarLiteral = this.RULE<LiteralValue>('scalarLiteral', (ctx: ExecutionContext) => {
+    private scalarLiteral = this.RULE<ExpressionBuilder>('scalarLiteral', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Scalar);
-        const value = this.CONSUME(Literal).image;
+        const value = this.OR([
+            { ALT: () => this.SUBRULE(this.fieldElement) },
+            { ALT: () => this.CONSUME(Handle).image }
+        ]);
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildLiteralValue(BigInt(value)));
+        return this.expressionAt(start, [], () => {
+            return ctx.buildLiteralValue(typeof value === 'bigint' ? value : BigInt(this.integer(value)));
+        });
     });
 
     // VECTORS AND MATRIXES
     // --------------------------------------------------------------------------------------------
-    private makeVector = this.RULE<MakeVector>('makeVector', (ctx: ExecutionContext) => {
-        const elements: Expression[] = [];
+    private makeVector = this.RULE<ExpressionBuilder>('makeVector', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        const elements: ExpressionBuilder[] = [];
         this.CONSUME(LParen);
         this.CONSUME(Vector);
         this.AT_LEAST_ONE(() => elements.push(this.SUBRULE(this.expression, { ARGS: [ctx] })));
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildMakeVectorExpression(elements));
+        return this.expressionAt(start, elements, (...values) => ctx.buildMakeVectorExpression(values));
     });
 
-    private getVectorElement = this.RULE<GetVectorElement>('getVectorElement', (ctx: ExecutionContext) => {
+    private getElement = this.RULE<ExpressionBuilder>('getElement', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Get);
         const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
-        const index = this.SUBRULE(this.integerLiteral);
+        const indexOrHandle = this.OR([
+            { ALT: () => this.SUBRULE1(this.integerLiteral) },
+            { ALT: () => this.CONSUME(Handle).image }
+        ]);
+        const column = this.OPTION(() => this.SUBRULE2(this.integerValue));
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildGetVectorElementExpression(source, index));
+
+        // a second index means that an element is extracted from a matrix
+        if (column === undefined) {
+            return this.expressionAt(start, [source], v => ctx.buildGetVectorElementExpression(v, this.bind(indexOrHandle)));
+        }
+        return this.expressionAt(start, [source], v => {
+            const row = this.bind(indexOrHandle);
+            validate(typeof row === 'number', errors.matrixRowHandle(row));
+            return ctx.buildGetMatrixElementExpression(v, row as number, this.integer(column));
+        });
     });
 
-    private sliceVector = this.RULE<SliceVector>('sliceVector', (ctx: ExecutionContext) => {
+    private sliceVector = this.RULE<ExpressionBuilder>('sliceVector', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(Slice);
         const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
-        const startIdx = this.SUBRULE1(this.integerLiteral);
-        const endIdx = this.SUBRULE2(this.integerLiteral);
+        const startIdx = this.SUBRULE1(this.integerValue);
+        const endIdx = this.SUBRULE2(this.integerValue);
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [source], v => {
+            return ctx.buildSliceVectorExpression(v, this.integer(startIdx), this.integer(endIdx));
+        });
+    });
+
+    private concatVectors = this.RULE<ExpressionBuilder>('concatVectors', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        const elements: ExpressionBuilder[] = [];
+        this.CONSUME(LParen);
+        this.CONSUME(Concat);
+        this.AT_LEAST_ONE(() => elements.push(this.SUBRULE(this.expression, { ARGS: [ctx] })));
+        this.CONSUME(RParen);
+        return this.expressionAt(start, elements, (...values) => ctx.buildConcatVectorsExpression(values));
+    });
+
+    private rotateVector = this.RULE<ExpressionBuilder>('rotateVector', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Rotate);
+        const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
+        const sign = this.OPTION(() => this.CONSUME(Minus)) ? -1 : 1;
+        const shift = this.SUBRULE(this.integerValue);
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [source], v => ctx.buildRotateVectorExpression(v, sign * this.integer(shift)));
+    });
+
+    private reverseVector = this.RULE<ExpressionBuilder>('reverseVector', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Reverse);
+        const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [source], v => ctx.buildReverseVectorExpression(v));
+    });
+
+    private repeatVector = this.RULE<ExpressionBuilder>('repeatVector', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Repeat);
+        const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
+        const count = this.SUBRULE(this.integerValue);
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildSliceVectorExpression(source, startIdx, endIdx));
+        return this.expressionAt(start, [source], v => ctx.buildRepeatVectorExpression(v, this.integer(count)));
     });
 
-    private makeMatrix = this.RULE<MakeMatrix>('makeMatrix', (ctx: ExecutionContext) => {
-        const rows: Expression[][] = [];
+    private makeMatrix = this.RULE<ExpressionBuilder>('makeMatrix', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        const rows: ExpressionBuilder[][] = [];
         this.CONSUME1(LParen);
         this.CONSUME(Matrix);
         this.AT_LEAST_ONE1(() => {
-            const row: Expression[] = [];
+            const row: ExpressionBuilder[] = [];
             this.CONSUME2(LParen);
             this.AT_LEAST_ONE2(() => row.push(this.SUBRULE(this.expression, { ARGS: [ctx] })));
             this.CONSUME2(RParen);
             rows.push(row);
         });
         this.CONSUME1(RParen);
-        return this.ACTION(() => ctx.buildMakeMatrixExpression(rows));
+        return this.expressionAt(start, rows.flat(), (...values) => {
+            let offset = 0;
+            return ctx.buildMakeMatrixExpression(rows.map(row => values.slice(offset, offset += row.length)));
+        });
+    });
+
+    private getMatrixRow = this.RULE<ExpressionBuilder>('getMatrixRow', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(GetRow);
+        const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
+        const index = this.SUBRULE(this.integerValue);
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [source], v => ctx.buildGetMatrixRowExpression(v, this.integer(index)));
+    });
+
+    private getMatrixColumn = this.RULE<ExpressionBuilder>('getMatrixColumn', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(GetCol);
+        const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
+        const index = this.SUBRULE(this.integerValue);
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [source], v => ctx.buildGetMatrixColumnExpression(v, this.integer(index)));
+    });
+
+    private transposeMatrix = this.RULE<ExpressionBuilder>('transposeMatrix', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Transpose);
+        const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [source], v => ctx.buildTransposeMatrixExpression(v));
+    });
+
+    // BIT OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    private composeBits = this.RULE<ExpressionBuilder>('composeBits', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(BitsCompose);
+        const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [source], v => ctx.buildComposeBitsExpression(v));
+    });
+
+    private checkBits = this.RULE<ExpressionBuilder>('checkBits', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(BitsCheck);
+        const source = this.SUBRULE(this.expression, { ARGS: [ctx] });
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [source], v => ctx.buildCheckBitsExpression(v));
     });
 
     // LOAD AND STORE
     // --------------------------------------------------------------------------------------------
-    private loadExpression = this.RULE<LoadExpression>('loadExpression', (ctx: ExecutionContext) => {
+    private loadExpression = this.RULE<ExpressionBuilder>('loadExpression', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         const op = this.CONSUME(LoadOp).image;
         const indexOrHandle = this.OR([
@@ -431,10 +864,27 @@ class AirParser extends EmbeddedActionsParser {
             { ALT: () => this.CONSUME(Handle).image }
         ]);
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildLoadExpression(op, indexOrHandle));
+        return this.expressionAt(start, [], () => ctx.buildLoadExpression(op, this.bind(indexOrHandle)));
     });
 
-    private storeOperation = this.RULE<StoreOperation>('storeOperation', (ctx: ExecutionContext) => {
+    private loadRegister = this.RULE<ExpressionBuilder>('loadRegister', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(LoadReg);
+        const handle = this.CONSUME(Handle).image;
+        this.CONSUME(RParen);
+        return this.expressionAt(start, [], () => ctx.buildLoadRegisterExpression(handle));
+    });
+
+    private statement = this.RULE<StatementBuilder>('statement', (ctx: ExecutionContext, statements: StoreOperation[]) => {
+        return this.OR([
+            { ALT: () => this.SUBRULE(this.storeOperation,  { ARGS: [ctx, statements] }) },
+            { ALT: () => this.SUBRULE(this.repeatBlock,     { ARGS: [ctx, statements] }) }
+        ]);
+    });
+
+    private storeOperation = this.RULE<StatementBuilder>('storeOperation', (ctx: ExecutionContext, statements: StoreOperation[]) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(StoreOp);
         const indexOrHandle = this.OR([
@@ -443,26 +893,73 @@ class AirParser extends EmbeddedActionsParser {
         ]);
         const value = this.SUBRULE(this.expression, { ARGS: [ctx] });
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildStoreOperation(indexOrHandle, value));
+        const span = this.spanFrom(start);
+        return () => this.buildAt(span, () => {
+            statements.push(ctx.buildStoreOperation(this.bind(indexOrHandle), value()));
+        }, () => this.poisonStore(ctx, statements, indexOrHandle));
+    });
+
+    private repeatBlock = this.RULE<StatementBuilder>('repeatBlock', (ctx: ExecutionContext, statements: StoreOperation[]) => {
+        const start = this.LA(1);
+        this.CONSUME(LParen);
+        this.CONSUME(Repeat);
+        const handle = this.OPTION(() => this.CONSUME(Handle).image);
+        const count = this.SUBRULE(this.integerValue);
+        const span = this.spanFrom(start);
+        const body: StatementBuilder[] = [];
+        this.AT_LEAST_ONE(() => body.push(this.SUBRULE(this.statement, { ARGS: [ctx, statements] })));
+        this.CONSUME(RParen);
+
+        // the body is parsed once and built once per iteration
+        return () => {
+            const iterationCount = this.buildAt(span, () => {
+                if (handle !== undefined) {
+                    validate(!this.iterations.has(handle), errors.repeatHandleReused(handle));
+                    validate(!ctx.declarationMap.has(handle), errors.repeatHandleDeclared(handle));
+                }
+                const iterationCount = this.integer(count);
+                validate(iterationCount > 0, errors.repeatCountInvalid(iterationCount));
+                validate(iterationCount <= MAX_REPEAT_COUNT, errors.repeatCountTooBig(iterationCount));
+                return iterationCount;
+            }, () => 0);
+
+            // unrolling stops after an iteration with errors so that the errors are reported only once
+            const errorCount = this.semanticErrors.length;
+            for (let iteration = 0; iteration < iterationCount; iteration++) {
+                if (handle !== undefined) this.iterations.set(handle, iteration);
+                body.forEach(build => build());
+                if (this.semanticErrors.length > errorCount) break;
+            }
+            if (iterationCount > 0 && handle !== undefined) this.iterations.delete(handle);
+        };
     });
 
     // FUNCTION CALLS
     // --------------------------------------------------------------------------------------------
-    private callExpression = this.RULE<CallExpression>('callExpression', (ctx: ExecutionContext) => {
+    private callExpression = this.RULE<ExpressionBuilder>('callExpression', (ctx: ExecutionContext) => {
+        const start = this.LA(1);
         this.CONSUME(LParen);
         this.CONSUME(CallOp);
         const indexOrHandle = this.OR([
             { ALT: () => this.SUBRULE(this.integerLiteral) },
             { ALT: () => this.CONSUME(Handle).image }
         ]);
-        const parameters: Expression[] = [];
+        const parameters: ExpressionBuilder[] = [];
         this.MANY(() => parameters.push(this.SUBRULE(this.expression, { ARGS: [ctx] })));
         this.CONSUME(RParen);
-        return this.ACTION(() => ctx.buildCallExpression(indexOrHandle, parameters));
+        return this.expressionAt(start, parameters, (...values) => ctx.buildCallExpression(this.bind(indexOrHandle), values));
     });
 
     // LITERALS AND ELEMENTS
     // --------------------------------------------------------------------------------------------
+    /** names of components and PRNG methods can be identifiers or keywords */
+    private name = this.RULE<string>('name', () => {
+        return this.OR([
+            { ALT: () => this.CONSUME(Identifier).image },
+            { ALT: () => this.CONSUME(Keyword).image }
+        ]);
+    });
+
     private integerLiteral = this.RULE<number>('integerLiteral', () => {
         const value = this.CONSUME(Literal).image;
         return this.ACTION(() => Number(value));
@@ -484,8 +981,151 @@ class AirParser extends EmbeddedActionsParser {
         this.AT_LEAST_ONE(() => values.push(this.CONSUME(Literal).image));
         return this.ACTION(() => values.map(v => BigInt(v)));
     });
+
+    private integerValue = this.RULE<number | string>('integerValue', () => {
+        return this.OR([
+            { ALT: () => this.SUBRULE(this.integerLiteral) },
+            { ALT: () => this.CONSUME(Handle).image }
+        ]);
+    });
+
+    // HELPER METHODS
+    // --------------------------------------------------------------------------------------------
+    /**
+     * Executes the action and attaches the location of the source code spanning from the start token
+     * to the last consumed token to the resulting node and to any errors thrown by the action.
+     */
+    private located<T>(start: IToken, action: () => T): T;
+    private located<T, P>(start: IToken, action: () => T, placeholder: () => P): T | P;
+    private located<T, P>(start: IToken, action: () => T, placeholder?: () => P): T | P {
+        return this.ACTION(() => this.buildAt(getSourceSpan(start, this.LA(0)), action, placeholder!));
+    }
+
+    /** Returns the location of the source code spanning from the start token to the last consumed token */
+    private spanFrom(start: IToken): SourceSpan | undefined {
+        return this.ACTION(() => getSourceSpan(start, this.LA(0)));
+    }
+
+    /**
+     * Executes the action and attaches the specified location to the resulting node and to any
+     * errors thrown by the action.
+     */
+    private buildAt<T, P>(span: SourceSpan | undefined, action: () => T, placeholder?: () => P): T | P {
+        try {
+            const result = action();
+            if (span && isSourceNode(result)) {
+                (result as SourceNode).span = span;
+            }
+            return result;
+        }
+        catch (error) {
+            // when collecting errors, recoverable errors are recorded and replaced by a placeholder
+            const located = locateError(error, span);
+            if (!this.collectErrors || !placeholder) throw located;
+            this.semanticErrors.push(...(located instanceof AssemblyError ? located.errors : [located]));
+            return placeholder();
+        }
+    }
+
+    /**
+     * Returns a builder of an expression at the specified location; if any of the operands is
+     * poisoned, the expression is poisoned as well, and the builder is not invoked.
+     */
+    private expressionAt(start: IToken, operands: ExpressionBuilder[], builder: (...operands: Expression[]) => Expression): ExpressionBuilder {
+        const span = this.spanFrom(start);
+        return () => {
+            const values = operands.map(operand => operand());
+            if (values.some(value => value instanceof PoisonedExpression)) {
+                return new PoisonedExpression();
+            }
+            return this.buildAt(span, () => builder(...values), () => new PoisonedExpression());
+        };
+    }
+
+    /**
+     * Stores a poisoned value in the target of a failed store operation, so that the local variable
+     * is treated as set, and loading it later on does not report another error.
+     */
+    private poisonStore(ctx: ExecutionContext, statements: StoreOperation[], indexOrHandle: number | string): undefined {
+        try {
+            statements.push(ctx.buildStoreOperation(this.bind(indexOrHandle), new PoisonedExpression()));
+        }
+        catch (error) {
+            // the target is not a valid local variable, and this has been reported already
+        }
+        return undefined;
+    }
+
+    /** Resolves a handle of an enclosing repeat block into the index of the current iteration */
+    private integer(value: number | string): number {
+        if (typeof value === 'number') return value;
+        const iteration = this.iterations.get(value);
+        if (iteration === undefined) throw new Error(errors.repeatHandleInvalid(value));
+        return iteration;
+    }
+
+    /** Replaces a handle of an enclosing repeat block with the index of the current iteration */
+    private bind(indexOrHandle: number | string): number | string {
+        if (typeof indexOrHandle === 'number') return indexOrHandle;
+        const iteration = this.iterations.get(indexOrHandle);
+        return iteration === undefined ? indexOrHandle : iteration;
+    }
 }
 
 // EXPORT PARSER INSTANCE
 // ================================================================================================
-export const parser = new AirParser();
\ No newline at end of file
+export const parser = new AirParser();
+
+/**
+ * Returns a parser instance for modules imported at the specified depth. A parser cannot be reused
+ * while it is parsing the importing module, so every level of nesting gets its own instance.
+ */
+const parsers = [parser];
+export function getParser(depth: number): AirParser {
+    while (parsers.length <= depth) {
+        parsers.push(new AirParser());
+    }
+    return parsers[depth];
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function isSourceNode(value: any): value is SourceNode {
+    return value instanceof Expression || value instanceof StoreOperation || value instanceof Constant
+        || value instanceof AirFunction || value instanceof Parameter || value instanceof LocalVariable
+        || value instanceof StaticRegister || value instanceof AirComponent;
+}
+
+function skip(): undefined {
+    return undefined;
+}
+
+/**
+ * Replaces a poisoned result with a poisoned expression of expected dimensions, so that the error
+ * which poisoned the result is not reported again by the enclosing function or procedure.
+ */
+function cure(result: Expression, dimensions: Dimensions): Expression {
+    return (result instanceof PoisonedExpression) ? new PoisonedExpression(dimensions) : result;
+}
+
+function locateError(error: any, span?: SourceSpan): Error {
+    if (span === undefined || error instanceof SourceError) return error;
+    if (error instanceof AssemblyError) {
+        // errors of imported modules keep their own locations; all other errors get the span
+        return new AssemblyError(error.errors.map(e => (e.span || e.file) ? e : new SourceError(e.message, span)));
+    }
+    return new SourceError(error.message, span);
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    importsNotSupported : () => `imports are not supported: module loader was not provided`,
+    importMisplaced     : () => `import is invalid: imports must precede declarations of constants and functions`,
+    matrixRowHandle     : (h: any) => `cannot extract matrix element: row index ${h} must be an integer`,
+    repeatCountInvalid  : (c: any) => `repeat count ${c} is invalid: count must be greater than 0`,
+    repeatCountTooBig   : (c: any) => `repeat count ${c} is invalid: count cannot be greater than ${MAX_REPEAT_COUNT}`,
+    repeatHandleInvalid : (h: any) => `handle ${h} is invalid: only handles of enclosing repeat blocks can be used as integers`,
+    repeatHandleReused  : (h: any) => `repeat handle ${h} is already used by an enclosing repeat block`,
+    repeatHandleDeclared: (h: any) => `repeat handle ${h} is invalid: handle is already declared`
+};
\ No newline at end of file
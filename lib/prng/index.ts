@@ -0,0 +1,73 @@
+// IMPORTS
+// ================================================================================================
+import { PrngFunction } from '@guildofweavers/air-assembly';
+import { FiniteField } from '@guildofweavers/galois';
+import * as crypto from 'crypto';
+import { keccak256 } from './keccak';
+import { validate } from '../utils';
+
+// CONSTANTS
+// ================================================================================================
+const METHOD_REGEXP = /^[a-zA-Z]\w*$/;
+
+// MODULE VARIABLES
+// ================================================================================================
+const registry = new Map<string, PrngFunction>([
+    ['sha256',      sha256prng],
+    ['blake2s',     blake2sprng],
+    ['keccak256',   keccak256prng]
+]);
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+export function sha256prng(seed: Buffer, count: number, field: FiniteField): bigint[] {
+    return generateValues(seed, count, field, data => crypto.createHash('sha256').update(data).digest());
+}
+
+export function blake2sprng(seed: Buffer, count: number, field: FiniteField): bigint[] {
+    return generateValues(seed, count, field, data => crypto.createHash('blake2s256').update(data).digest());
+}
+
+export function keccak256prng(seed: Buffer, count: number, field: FiniteField): bigint[] {
+    return generateValues(seed, count, field, keccak256);
+}
+
+/**
+ * Registers a PRNG function under the specified method name; once registered, the method can be
+ * used in prng expressions of cyclic registers.
+ */
+export function registerPrng(method: string, prng: PrngFunction): void {
+    validate(typeof method === 'string' && METHOD_REGEXP.test(method), errors.invalidMethodName(method));
+    validate(typeof prng === 'function', errors.invalidPrngFunction(method));
+    validate(!registry.has(method), errors.duplicateMethod(method));
+    registry.set(method, prng);
+}
+
+export function getPrng(method: string): PrngFunction | undefined {
+    return registry.get(method);
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+/**
+ * Generates values by hashing the seed prefixed with a 2-byte big-endian counter (starting at 1),
+ * and reducing each digest into the field.
+ */
+function generateValues(seed: Buffer, count: number, field: FiniteField, hash: (data: Buffer) => Buffer): bigint[] {
+    const values: bigint[] = [];
+    const vSeed = Buffer.concat([Buffer.from([0, 0]), seed]);
+    for (let i = 0; i < count; i++) {
+        vSeed.writeUInt16BE(i + 1, 0);
+        let value = hash(vSeed);
+        values[i] = field.add(BigInt(`0x${value.toString('hex')}`), 0n);
+    }
+    return values;
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    invalidMethodName   : (m: any) => `prng method name '${m}' is invalid`,
+    invalidPrngFunction : (m: any) => `prng function for method '${m}' is invalid`,
+    duplicateMethod     : (m: any) => `prng method '${m}' has already been registered`
+};
\ No newline at end of file
@@ -0,0 +1,124 @@
+// CONSTANTS
+// ================================================================================================
+const RATE = 136;   // rate of Keccak-256 in bytes (1600 - 2 * 256 bits)
+
+const ROUND_CONSTANTS = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808An, 0x8000000080008000n,
+    0x000000000000808Bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008An, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000An,
+    0x000000008000808Bn, 0x800000000000008Bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800An, 0x800000008000000An,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+
+// round constants split into 32-bit [lo, hi] pairs
+const RC = ROUND_CONSTANTS.reduce((result, c) => {
+    result.push(Number(c & 0xFFFFFFFFn), Number(c >> 32n));
+    return result;
+}, [] as number[]);
+
+// rotation offsets for lane at position x + 5y
+const ROTATIONS = [
+     0,  1, 62, 28, 27,
+    36, 44,  6, 55, 20,
+     3, 10, 43, 25, 39,
+    41, 45, 15, 21,  8,
+    18,  2, 61, 56, 14
+];
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+/**
+ * Computes Keccak-256 hash of the data. This is the original Keccak padding (as used by Ethereum),
+ * which is different from the padding of the standardized SHA3-256 function.
+ */
+export function keccak256(data: Buffer): Buffer {
+    // pad the data to a multiple of the rate
+    const blockCount = Math.floor(data.length / RATE) + 1;
+    const padded = Buffer.alloc(blockCount * RATE);
+    data.copy(padded);
+    padded[data.length] ^= 0x01;
+    padded[padded.length - 1] ^= 0x80;
+
+    // absorb the data; each lane is stored as a pair of 32-bit words [lo, hi]
+    const state = new Uint32Array(50);
+    for (let offset = 0; offset < padded.length; offset += RATE) {
+        for (let i = 0; i < RATE / 4; i++) {
+            state[i] ^= padded.readUInt32LE(offset + i * 4);
+        }
+        permute(state);
+    }
+
+    // squeeze out the first 32 bytes
+    const result = Buffer.alloc(32);
+    for (let i = 0; i < 8; i++) {
+        result.writeUInt32LE(state[i], i * 4);
+    }
+    return result;
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function permute(s: Uint32Array): void {
+    const c = new Uint32Array(10);
+    const b = new Uint32Array(50);
+
+    for (let round = 0; round < 24; round++) {
+        // theta
+        for (let x = 0; x < 5; x++) {
+            c[x * 2] = s[x * 2] ^ s[x * 2 + 10] ^ s[x * 2 + 20] ^ s[x * 2 + 30] ^ s[x * 2 + 40];
+            c[x * 2 + 1] = s[x * 2 + 1] ^ s[x * 2 + 11] ^ s[x * 2 + 21] ^ s[x * 2 + 31] ^ s[x * 2 + 41];
+        }
+        for (let x = 0; x < 5; x++) {
+            const x1 = ((x + 1) % 5) * 2, x4 = ((x + 4) % 5) * 2;
+            const dLo = c[x4] ^ ((c[x1] << 1) | (c[x1 + 1] >>> 31));
+            const dHi = c[x4 + 1] ^ ((c[x1 + 1] << 1) | (c[x1] >>> 31));
+            for (let y = 0; y < 25; y += 5) {
+                s[(x + y) * 2] ^= dLo;
+                s[(x + y) * 2 + 1] ^= dHi;
+            }
+        }
+
+        // rho and pi
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                const source = (x + 5 * y) * 2;
+                const target = (y + 5 * ((2 * x + 3 * y) % 5)) * 2;
+                rotate(s[source], s[source + 1], ROTATIONS[x + 5 * y], b, target);
+            }
+        }
+
+        // chi
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                const i = (x + y) * 2, i1 = ((x + 1) % 5 + y) * 2, i2 = ((x + 2) % 5 + y) * 2;
+                s[i] = b[i] ^ (~b[i1] & b[i2]);
+                s[i + 1] = b[i + 1] ^ (~b[i1 + 1] & b[i2 + 1]);
+            }
+        }
+
+        // iota
+        s[0] ^= RC[round * 2];
+        s[1] ^= RC[round * 2 + 1];
+    }
+}
+
+function rotate(lo: number, hi: number, n: number, target: Uint32Array, index: number): void {
+    if (n === 0) {
+        target[index] = lo;
+        target[index + 1] = hi;
+    }
+    else if (n < 32) {
+        target[index] = (lo << n) | (hi >>> (32 - n));
+        target[index + 1] = (hi << n) | (lo >>> (32 - n));
+    }
+    else if (n === 32) {
+        target[index] = hi;
+        target[index + 1] = lo;
+    }
+    else {
+        n -= 32;
+        target[index] = (hi << n) | (lo >>> (32 - n));
+        target[index + 1] = (lo << n) | (hi >>> (32 - n));
+    }
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 // IMPORTS
 // ================================================================================================
-import { AirFunction as IAirFunction } from '@guildofweavers/air-assembly';
+import { AirFunction as IAirFunction, SourceSpan } from '@guildofweavers/air-assembly';
 import { FunctionContext } from './contexts/FunctionContext';
 import { Parameter } from './Parameter';
 import { LocalVariable } from "./LocalVariable";
@@ -18,6 +18,7 @@ export class AirFunction implements IAirFunction {
     readonly result         : Expression;
 
     readonly handle?        : string;
+    span?                   : SourceSpan;
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
@@ -23,6 +23,7 @@ export class AirProcedure implements IProcedure {
     readonly constants          : ReadonlyArray<Constant>;
     readonly traceRegisters     : TraceSegment;
     readonly staticRegisters    : TraceSegment;
+    readonly auxRegisters       : TraceSegment;
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
@@ -37,6 +38,7 @@ export class AirProcedure implements IProcedure {
         this.constants = context.constants;
         this.traceRegisters = context.traceRegisters;
         this.staticRegisters = context.staticRegisters;
+        this.auxRegisters = context.auxRegisters;
     }
 
     // ACCESSORS
@@ -47,8 +49,8 @@ export class AirProcedure implements IProcedure {
 
     // PUBLIC METHODS
     // --------------------------------------------------------------------------------------------
-    toString() {
-        let code = ``;
+    toString(header?: string) {
+        let code = header ? `\n      ${header}` : ``;
         if (this.params.length > 0)
             code += `\n      ${this.params.map(v => v.toString()).join(' ')}`;
         if (this.locals.length > 0)
@@ -1,5 +1,6 @@
 // IMPORTS
 // ================================================================================================
+import { SourceSpan } from "@guildofweavers/air-assembly";
 import { FiniteField } from "@guildofweavers/galois";
 import { LiteralValue, Dimensions } from "../expressions";
 import { validateHandle } from "../utils";
@@ -10,6 +11,7 @@ export class Constant {
 
     readonly value      : LiteralValue;
     readonly handle?    : string;
+    span?               : SourceSpan;
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
@@ -1,5 +1,6 @@
 // IMPORTS
 // ================================================================================================
+import { SourceSpan } from "@guildofweavers/air-assembly";
 import { Dimensions } from "../expressions/utils";
 import { StoreOperation } from "./StoreOperation";
 import { validateHandle } from "../utils";
@@ -10,6 +11,7 @@ export class LocalVariable {
 
     readonly dimensions : Dimensions;
     readonly handle?    : string;
+    span?               : SourceSpan;
     private binding?    : StoreOperation;
 
     // CONSTRUCTOR
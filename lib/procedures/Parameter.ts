@@ -1,6 +1,6 @@
 // IMPORTS
 // ================================================================================================
-import { Parameter as IParameter } from '@guildofweavers/air-assembly';
+import { Parameter as IParameter, SourceSpan } from '@guildofweavers/air-assembly';
 import { Dimensions } from "../expressions/utils";
 import { validateHandle } from "../utils";
 
@@ -10,6 +10,7 @@ export class Parameter implements IParameter {
 
     readonly dimensions : Dimensions;
     readonly handle?    : string;
+    span?               : SourceSpan;
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
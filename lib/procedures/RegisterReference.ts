@@ -0,0 +1,24 @@
+// IMPORTS
+// ================================================================================================
+import { TraceSegment } from "../expressions";
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * Binds a register handle declared by a component to a register within the trace or static
+ * segment of a procedure context.
+ */
+export class RegisterReference {
+
+    readonly segment    : TraceSegment;
+    readonly index      : number;
+    readonly handle     : string;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(segment: TraceSegment, index: number, handle: string) {
+        this.segment = segment;
+        this.index = index;
+        this.handle = handle;
+    }
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 // IMPORTS
 // ================================================================================================
-import { StoreOperation as IStoreOperation } from "@guildofweavers/air-assembly";
+import { StoreOperation as IStoreOperation, SourceSpan } from "@guildofweavers/air-assembly";
 import { Expression, Dimensions } from '../expressions';
 
 // CLASS DEFINITION
@@ -11,6 +11,8 @@ export class StoreOperation implements IStoreOperation {
     private _handle?    : string;
     private _expression : Expression;
 
+    span?               : SourceSpan;
+
     // CONSTRUCTORS
     // --------------------------------------------------------------------------------------------
     constructor(target: number, expression: Expression, handle?: string) {
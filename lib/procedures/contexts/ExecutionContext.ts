@@ -7,9 +7,12 @@ import { Constant } from "../Constant";
 import { Parameter } from "../Parameter";
 import { LocalVariable } from "../LocalVariable";
 import { StoreOperation } from "../StoreOperation";
+import { RegisterReference } from "../RegisterReference";
 import {
-    Expression, LiteralValue, Dimensions, BinaryOperation, UnaryOperation, MakeVector, GetVectorElement,
-    SliceVector, MakeMatrix, LoadExpression, CallExpression
+    Expression, LiteralValue, Dimensions, BinaryOperation, UnaryOperation, SelectExpression, MakeVector,
+    GetVectorElement, SliceVector, ConcatVectors, RotateVector, ReverseVector, RepeatVector, MakeMatrix, GetMatrixElement,
+    GetMatrixRow, GetMatrixColumn, TransposeMatrix, ComposeBits, CheckBits, LoadExpression, CallExpression,
+    PoisonedExpression
 } from "../../expressions";
 import { validate } from "../../utils";
 
@@ -22,7 +25,7 @@ export abstract class ExecutionContext implements IExecutionContext {
     readonly locals         : LocalVariable[];
     readonly constants      : ReadonlyArray<Constant>;
     readonly functions      : ReadonlyArray<AirFunction>;
-    readonly declarationMap : Map<string, AirFunction | Constant | Parameter | LocalVariable>;
+    readonly declarationMap : Map<string, AirFunction | Constant | Parameter | LocalVariable | RegisterReference>;
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
@@ -53,7 +56,7 @@ export abstract class ExecutionContext implements IExecutionContext {
 
     // PUBLIC FUNCTIONS
     // --------------------------------------------------------------------------------------------
-    addParam(dimensions: Dimensions, handle?: string): void {
+    addParam(dimensions: Dimensions, handle?: string): Parameter {
         const param = new Parameter(dimensions, handle);
 
         // if the parameter has a handle, set handle mapping
@@ -65,9 +68,10 @@ export abstract class ExecutionContext implements IExecutionContext {
         // set index mapping and add parameter to the list
         this.declarationMap.set(`param::${this.params.length}`, param);
         this.params.push(param);
+        return param;
     }
 
-    addLocal(dimensions: Dimensions, handle?: string): void {
+    addLocal(dimensions: Dimensions, handle?: string): LocalVariable {
         const variable = new LocalVariable(dimensions, handle);
 
         // if the variable has a handle, set handle mapping
@@ -79,6 +83,7 @@ export abstract class ExecutionContext implements IExecutionContext {
         // set index mapping and add local variable to the list
         this.declarationMap.set(`local::${this.locals.length}`, variable);
         this.locals.push(variable);
+        return variable;
     }
 
     getDeclaration(indexOrHandle: number | string, kind: 'const'): Constant | undefined;
@@ -105,22 +110,74 @@ export abstract class ExecutionContext implements IExecutionContext {
         return new UnaryOperation(operation, operand);
     }
 
+    buildSelectExpression(condition: Expression, onTrue: Expression, onFalse: Expression): SelectExpression {
+        return new SelectExpression(condition, onTrue, onFalse);
+    }
+
     buildMakeVectorExpression(elements: Expression[]): MakeVector {
         return new MakeVector(elements);
     }
 
-    buildGetVectorElementExpression(source: Expression, index: number): GetVectorElement {
-        return new GetVectorElement(source, index);
+    buildGetVectorElementExpression(source: Expression, indexOrHandle: number | string): GetVectorElement {
+        if (typeof indexOrHandle === 'string') {
+            const register = this.declarationMap.get(indexOrHandle);
+            validate(register !== undefined, errors.registerNotDeclared(indexOrHandle));
+            validate(register instanceof RegisterReference, errors.registerHandleInvalid(indexOrHandle));
+            const binding = (source instanceof LoadExpression) ? source.binding : undefined;
+            validate(binding === register.segment, errors.registerSourceInvalid(indexOrHandle, register.segment.segment));
+            return new GetVectorElement(source, register.index);
+        }
+        return new GetVectorElement(source, indexOrHandle);
     }
 
     buildSliceVectorExpression(source: Expression, start: number, end: number): SliceVector {
         return new SliceVector(source, start, end);
     }
 
+    buildConcatVectorsExpression(elements: Expression[]): ConcatVectors {
+        return new ConcatVectors(elements);
+    }
+
+    buildRotateVectorExpression(source: Expression, shift: number): RotateVector {
+        return new RotateVector(source, shift);
+    }
+
+    buildReverseVectorExpression(source: Expression): ReverseVector {
+        return new ReverseVector(source);
+    }
+
+    buildRepeatVectorExpression(source: Expression, count: number): RepeatVector {
+        return new RepeatVector(source, count);
+    }
+
     buildMakeMatrixExpression(elements: Expression[][]): MakeMatrix {
         return new MakeMatrix(elements);
     }
 
+    buildGetMatrixElementExpression(source: Expression, row: number, column: number): GetMatrixElement {
+        return new GetMatrixElement(source, row, column);
+    }
+
+    buildGetMatrixRowExpression(source: Expression, index: number): GetMatrixRow {
+        return new GetMatrixRow(source, index);
+    }
+
+    buildGetMatrixColumnExpression(source: Expression, index: number): GetMatrixColumn {
+        return new GetMatrixColumn(source, index);
+    }
+
+    buildTransposeMatrixExpression(source: Expression): TransposeMatrix {
+        return new TransposeMatrix(source);
+    }
+
+    buildComposeBitsExpression(source: Expression): ComposeBits {
+        return new ComposeBits(source);
+    }
+
+    buildCheckBitsExpression(source: Expression): CheckBits {
+        return new CheckBits(source);
+    }
+
     buildLoadExpression(operation: string, indexOrHandle: number | string): LoadExpression {
         if (operation === 'load.param') {
             const parameter = this.getDeclaration(indexOrHandle, 'param');
@@ -149,12 +206,24 @@ export abstract class ExecutionContext implements IExecutionContext {
         }
     }
 
+    buildLoadRegisterExpression(handle: string): GetVectorElement {
+        const register = this.declarationMap.get(handle);
+        validate(register !== undefined, errors.registerNotDeclared(handle));
+        validate(register instanceof RegisterReference, errors.registerHandleInvalid(handle));
+        const source = this.buildLoadExpression(`load.${register.segment.segment}`, 0);
+        return this.buildGetVectorElementExpression(source, handle);
+    }
+
     buildStoreOperation(indexOrHandle: number | string, value: Expression): StoreOperation {
         const variable = this.getDeclaration(indexOrHandle, 'local');
         validate(variable !== undefined, errors.localNotDeclared(indexOrHandle));
         const index = this.locals.indexOf(variable);
         validate(index !== -1, errors.localHandleInvalid(indexOrHandle));
         const handle = typeof indexOrHandle === 'string' ? indexOrHandle : undefined;
+        if (value instanceof PoisonedExpression) {
+            // poisoned values take on dimensions of the variable so that loading it does not fail
+            value = new PoisonedExpression(variable.dimensions);
+        }
         const statement = new StoreOperation(index, value, handle);
         variable.bind(statement, index);
         return statement;
@@ -180,5 +249,8 @@ const errors = {
     localNotDeclared    : (v: any) => `cannot store into local variable ${v}: local variable ${v} has not been declared`,
     localHandleInvalid  : (v: any) => `cannot store into local variable ${v}: handle does not identify a local variable`,
     funcNotDeclared     : (f: any) => `cannot call function ${f}: function ${f} has not been declared`,
-    funcHandleInvalid   : (f: any) => `cannot call function ${f}: handle does not identify a function`
+    funcHandleInvalid   : (f: any) => `cannot call function ${f}: handle does not identify a function`,
+    registerNotDeclared : (r: any) => `cannot load register ${r}: register ${r} has not been declared`,
+    registerHandleInvalid: (r: any) => `cannot load register ${r}: handle does not identify a register`,
+    registerSourceInvalid: (r: any, s: any) => `cannot load register ${r}: ${r} can be loaded only from ${s} rows`
 };
\ No newline at end of file
@@ -4,9 +4,18 @@ import { ProcedureName, ProcedureContext as IProcedureContext } from "@guildofwe
 import { ExecutionContext } from "./ExecutionContext";
 import { LoadExpression, TraceSegment, Dimensions } from "../../expressions";
 import { Parameter } from "../Parameter";
+import { RegisterReference } from "../RegisterReference";
 import { AirComponent } from "../../AirComponent";
 import { validate } from "../../utils";
 
+// MODULE VARIABLES
+// ================================================================================================
+const procedureTitles: { [name: string]: string } = {
+    init        : 'trace initializer',
+    auxiliary   : 'auxiliary',
+    evaluation  : 'constraint evaluator'
+};
+
 // CLASS DEFINITION
 // ================================================================================================
 export class ProcedureContext extends ExecutionContext implements IProcedureContext {
@@ -14,31 +23,48 @@ export class ProcedureContext extends ExecutionContext implements IProcedureCont
     readonly name               : ProcedureName;
     readonly traceRegisters     : TraceSegment;
     readonly staticRegisters    : TraceSegment;
+    readonly auxRegisters       : TraceSegment;
     readonly width              : number;
 
+    private readonly frameSize  : number;
+
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
     constructor(name: ProcedureName, component: AirComponent) {
         super(component.field, component.constants, component.functions);
         this.name = name;
+
+        // registers of permutation arguments are not accessible from procedures
+        const auxRegisterCount = component.auxiliaryInitialValues ? component.auxiliaryInitialValues.length : 0;
         if (name === 'init' || name === 'transition') {
             this.width = component.traceRegisterCount;
         }
+        else if (name === 'auxiliary') {
+            this.width = auxRegisterCount;
+        }
         else if (name === 'evaluation') {
             this.width = component.constraintCount;
         }
         else {
             throw new Error(`procedure name '${name}' is not valid`);
         }
-        this.traceRegisters = new TraceSegment('trace', component.traceRegisterCount);
-        this.staticRegisters = new TraceSegment('static', component.staticRegisterCount);
+        this.traceRegisters = new TraceSegment('trace', component.traceRegisterCount, component.traceRegisterHandles);
+        this.staticRegisters = new TraceSegment('static', component.staticRegisterCount,
+            component.staticRegisters.map(r => r.handle));
+        this.auxRegisters = new TraceSegment('aux', auxRegisterCount);
+        this.frameSize = component.frameSize;
+
+        // set handle mappings for named trace and static registers
+        this.addRegisterReferences(this.traceRegisters);
+        this.addRegisterReferences(this.staticRegisters);
     }
 
     // PUBLIC FUNCTIONS
     // --------------------------------------------------------------------------------------------
-    addParam(dimensions: Dimensions, handle?: string): void {
-        validate(this.params.length === 0, errors.tooManyInitParams());
-        validate(Dimensions.isVector(dimensions), errors.invalidInitParam());
+    addParam(dimensions: Dimensions, handle?: string): Parameter {
+        validate(this.name !== 'transition', errors.transitionParam());
+        validate(this.params.length === 0, errors.tooManyParams(procedureTitles[this.name]));
+        validate(Dimensions.isVector(dimensions), errors.invalidParam(procedureTitles[this.name]));
         const param = new Parameter(dimensions, handle);
 
         // if the parameter has a handle, set handle mapping
@@ -50,6 +76,7 @@ export class ProcedureContext extends ExecutionContext implements IProcedureCont
         // set index mapping and add parameter to the list
         this.declarationMap.set(`param::${this.params.length}`, param);
         this.params.push(param);
+        return param;
     }
 
     // EXPRESSION BUILDERS
@@ -65,6 +92,12 @@ export class ProcedureContext extends ExecutionContext implements IProcedureCont
             validate(indexOrHandle === 0, errors.staticOffsetInvalid(indexOrHandle));
             return new LoadExpression(this.staticRegisters, indexOrHandle);
         }
+        else if (operation === 'load.aux') {
+            validate(typeof indexOrHandle === 'number', errors.auxHandleInvalid(indexOrHandle));
+            validate(this.auxRegisters.dimensions[0] > 0, errors.auxNotDeclared(indexOrHandle));
+            this.validateAuxAccess(indexOrHandle);
+            return new LoadExpression(this.auxRegisters, indexOrHandle);
+        }
         else {
             return super.buildLoadExpression(operation, indexOrHandle);
         }
@@ -72,15 +105,37 @@ export class ProcedureContext extends ExecutionContext implements IProcedureCont
 
     // PRIVATE FUNCTION
     // --------------------------------------------------------------------------------------------
+    private addRegisterReferences(segment: TraceSegment): void {
+        segment.handles.forEach((handle, i) => {
+            if (!handle) return;
+            validate(!this.declarationMap.has(handle), errors.duplicateHandle(handle));
+            this.declarationMap.set(handle, new RegisterReference(segment, i, handle));
+        });
+    }
+
     private validateTraceAccess(offset: number): void {
         if (this.name === 'init') {
             throw new Error(`cannot load trace row: trace table cannot be accessed in init procedures`);
         }
-        else if (this.name === 'transition') {
+        else if (this.name === 'transition' || this.name === 'auxiliary') {
             validate(offset === 0, `cannot load trace row ${offset}: trace row offset cannot be greater than 0`);
         }
         else if (this.name === 'evaluation') {
-            validate(offset <= 1, `cannot load trace row ${offset}: trace row offset cannot be greater than 1`);
+            const maxOffset = this.frameSize - 1;
+            validate(offset <= maxOffset, `cannot load trace row ${offset}: trace row offset cannot be greater than ${maxOffset}`);
+        }
+    }
+
+    private validateAuxAccess(offset: number): void {
+        if (this.name === 'init' || this.name === 'transition') {
+            throw new Error(`cannot load auxiliary row: auxiliary trace cannot be accessed in ${this.name} procedures`);
+        }
+        else if (this.name === 'auxiliary') {
+            validate(offset === 0, `cannot load auxiliary row ${offset}: auxiliary row offset cannot be greater than 0`);
+        }
+        else if (this.name === 'evaluation') {
+            const maxOffset = this.frameSize - 1;
+            validate(offset <= maxOffset, `cannot load auxiliary row ${offset}: auxiliary row offset cannot be greater than ${maxOffset}`);
         }
     }
 }
@@ -92,6 +147,9 @@ const errors = {
     traceHandleInvalid  : (t: any) => `cannot load trace row ${t}: trace row offset must be an integer`,
     staticHandleInvalid : (t: any) => `cannot load static row ${t}: static row offset must be an integer`,
     staticOffsetInvalid : (t: any) => `cannot load static row ${t}: static row offset must be 0`,
-    tooManyInitParams   : () => `trace initializer procedure cannot have more than 1 parameter`,
-    invalidInitParam    : () => `trace initializer procedure parameter must be a vector`
+    auxHandleInvalid    : (t: any) => `cannot load auxiliary row ${t}: auxiliary row offset must be an integer`,
+    auxNotDeclared      : (t: any) => `cannot load auxiliary row ${t}: auxiliary registers have not been declared`,
+    transitionParam     : () => `transition function procedure cannot have parameters`,
+    tooManyParams       : (p: any) => `${p} procedure cannot have more than 1 parameter`,
+    invalidParam        : (p: any) => `${p} procedure parameter must be a vector`
 };
\ No newline at end of file
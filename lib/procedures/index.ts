@@ -6,4 +6,5 @@ export { ProcedureContext } from './contexts/ProcedureContext';
 export { FunctionContext } from './contexts/FunctionContext';
 export { Constant } from './Constant';
 export { Parameter } from './Parameter';
-export { LocalVariable } from './LocalVariable';
\ No newline at end of file
+export { LocalVariable } from './LocalVariable';
+export { RegisterReference } from './RegisterReference';
\ No newline at end of file
@@ -0,0 +1,67 @@
+// IMPORTS
+// ================================================================================================
+import { FiniteField } from '@guildofweavers/galois';
+import { Constant } from '../procedures';
+import { validate } from '../utils';
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * A sequence of values taken from a vector constant, or from a single row of a matrix constant
+ * declared in the module.
+ */
+export class ConstantSequence {
+
+    readonly constant   : Constant;
+    readonly index      : number;
+    readonly row?       : number;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(constant: Constant, index: number, row?: number) {
+        const reference = constant.handle || index;
+        if (row === undefined) {
+            validate(constant.isVector, errors.constantNotVector(reference));
+        }
+        else {
+            validate(constant.isMatrix, errors.constantNotMatrix(reference));
+            validate(Number.isInteger(row), errors.rowNotInteger(reference, row));
+            const rowCount = constant.dimensions[0];
+            validate(row >= 0 && row < rowCount, errors.rowOutOfBounds(reference, row, rowCount));
+        }
+        this.constant = constant;
+        this.index = index;
+        this.row = row;
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get length(): number {
+        return (this.row === undefined)
+            ? this.constant.dimensions[0]
+            : this.constant.dimensions[1];
+    }
+
+    // PUBLIC METHODS
+    // --------------------------------------------------------------------------------------------
+    getValues(field: FiniteField): bigint[] {
+        return (this.row === undefined)
+            ? this.constant.value.value as bigint[]
+            : (this.constant.value.value as bigint[][])[this.row];
+    }
+
+    toString(): string {
+        const reference = this.constant.handle || this.index;
+        const row = (this.row === undefined) ? '' : ` row ${this.row}`;
+        return `(load.const ${reference})${row}`;
+    }
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    constantNotVector   : (c: any) => `cannot build cyclic register from constant ${c}: constant must be a vector, or a row of a matrix must be specified`,
+    constantNotMatrix   : (c: any) => `cannot build cyclic register from row of constant ${c}: constant is not a matrix`,
+    rowNotInteger       : (c: any, r: any) => `cannot build cyclic register from row ${r} of constant ${c}: row index must be an integer`,
+    rowOutOfBounds      : (c: any, r: any, n: any) => `cannot build cyclic register from row ${r} of constant ${c}: row index must be within [0, ${n})`
+};
\ No newline at end of file
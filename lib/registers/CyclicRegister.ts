@@ -14,8 +14,8 @@ export class CyclicRegister extends StaticRegister implements ICyclicRegister {
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
-    constructor(values: bigint[] | ValueSequence, field: FiniteField) {
-        super();
+    constructor(values: bigint[] | ValueSequence, field: FiniteField, handle?: string) {
+        super(handle);
         validate(values.length > 1, errors.valueLengthSmallerThan2());
         validate(isPowerOf2(values.length), errors.valueLengthNotPowerOf2());
         if (Array.isArray(values)) {
@@ -43,11 +43,11 @@ export class CyclicRegister extends StaticRegister implements ICyclicRegister {
     }
 
     toString(): string {
-
+        const handle = this.handle ? ` ${this.handle}` : '';
         const values = (Array.isArray(this.values))
             ? this.values.join(' ')
             : this.values.toString();
-        return `(cycle ${values})`;
+        return `(cycle${handle} ${values})`;
     }
 }
 
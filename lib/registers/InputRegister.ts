@@ -17,8 +17,8 @@ export class InputRegister extends StaticRegister implements IInputRegister {
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
-    constructor(scope: string, rank: number, binary: boolean, master?: InputRegisterMaster, steps?: number, offset = 0) {
-        super();
+    constructor(scope: string, rank: number, binary: boolean, master?: InputRegisterMaster, steps?: number, offset = 0, handle?: string) {
+        super(handle);
         validate(scope === 'public' || scope === 'secret', errors.inputScopeInvalid(scope));
         validate(rank > 0, errors.inputRankTooSmall());
         validate(rank === 1 || master !== undefined, errors.inputRankInvalid(rank));
@@ -52,11 +52,12 @@ export class InputRegister extends StaticRegister implements IInputRegister {
     // --------------------------------------------------------------------------------------------
     toString(): string {
         const scope = this.secret ? 'secret' : 'public';
+        const handle = this.handle ? ` ${this.handle}` : '';
         const master = this.master ? ` (${this.master.relation} ${this.master.index})` : '';
         const binary = this.binary ? ' binary' :'';
         const offset = this.offset === 0 ? '' : ` (shift ${this.offset})`;
         const steps = (this.steps !== undefined) ? ` (steps ${this.steps})` : '';
-        return `(input ${scope}${binary}${master}${steps}${offset})`;
+        return `(input ${scope}${handle}${binary}${master}${steps}${offset})`;
     }
 }
 
@@ -12,8 +12,8 @@ export class MaskRegister extends StaticRegister implements IMaskRegister {
 
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
-    constructor(source: number, inverted: boolean) {
-        super();
+    constructor(source: number, inverted: boolean, handle?: string) {
+        super(handle);
         this.source = source;
         this.inverted = inverted;
     }
@@ -21,6 +21,8 @@ export class MaskRegister extends StaticRegister implements IMaskRegister {
     // PUBLIC METHODS
     // --------------------------------------------------------------------------------------------
     toString(): string {
-        return `(mask (input ${this.source}))`;
+        const handle = this.handle ? ` ${this.handle}` : '';
+        const inverted = this.inverted ? ' inverted' : '';
+        return `(mask${handle}${inverted} (input ${this.source}))`;
     }
 }
\ No newline at end of file
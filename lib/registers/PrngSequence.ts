@@ -1,13 +1,13 @@
 // IMPORTS
 // ================================================================================================
 import { FiniteField } from '@guildofweavers/galois';
-import { sha256prng } from '../utils';
+import { getPrng } from '../prng';
 
 // CLASS DEFINITION
 // ================================================================================================
 export class PrngSequence {
 
-    readonly method : 'sha256';
+    readonly method : string;
     readonly seed   : Buffer;
     readonly length : number;
 
@@ -16,7 +16,7 @@ export class PrngSequence {
     // CONSTRUCTOR
     // --------------------------------------------------------------------------------------------
     constructor(method: string, seed: bigint, count: number) {
-        if (method !== 'sha256') throw new Error(`prng method: '${method}' is not supported`);
+        if (!getPrng(method)) throw new Error(`prng method: '${method}' is not supported`);
         this.method = method;
         this.seed = Buffer.from(seed.toString(16).padStart(2, '0'), 'hex');
         this.length = count;
@@ -26,7 +26,8 @@ export class PrngSequence {
     // --------------------------------------------------------------------------------------------
     getValues(field: FiniteField): bigint[] {
         if (!this._values) {
-            this._values = sha256prng(this.seed, this.length, field);
+            const prng = getPrng(this.method)!;
+            this._values = prng(this.seed, this.length, field);
         }
         return this._values;
     }
@@ -0,0 +1,39 @@
+// IMPORTS
+// ================================================================================================
+import { FiniteField } from '@guildofweavers/galois';
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * A sequence of consecutive values starting with the specified value (e.g. 0, 1, 2, 3 etc.)
+ */
+export class RangeSequence {
+
+    readonly start  : bigint;
+    readonly length : number;
+
+    private _values?: bigint[];
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(start: bigint, count: number) {
+        this.start = start;
+        this.length = count;
+    }
+
+    // PUBLIC METHODS
+    // --------------------------------------------------------------------------------------------
+    getValues(field: FiniteField): bigint[] {
+        if (!this._values) {
+            this._values = [];
+            for (let i = 0; i < this.length; i++) {
+                this._values.push(field.add(this.start, BigInt(i)));
+            }
+        }
+        return this._values;
+    }
+
+    toString(): string {
+        return `(range ${this.start} ${this.length})`;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+// IMPORTS
+// ================================================================================================
+import { FiniteField } from '@guildofweavers/galois';
+import { validate } from '../utils';
+
+// CLASS DEFINITION
+// ================================================================================================
+/**
+ * A sequence of values which is equal to 1 at the specified position and 0 everywhere else. Negative
+ * positions are counted from the end of the sequence, with -1 being the last position.
+ */
+export class SelectorSequence {
+
+    readonly position   : number;
+    readonly length     : number;
+
+    private _values?: bigint[];
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(position: number, count: number) {
+        validate(Number.isInteger(position), errors.positionNotInteger(position));
+        validate(position < count && position >= -count, errors.positionOutOfBounds(position, count));
+        this.position = position;
+        this.length = count;
+    }
+
+    // PUBLIC METHODS
+    // --------------------------------------------------------------------------------------------
+    getValues(field: FiniteField): bigint[] {
+        if (!this._values) {
+            const index = this.position < 0 ? this.length + this.position : this.position;
+            this._values = new Array<bigint>(this.length).fill(field.zero);
+            this._values[index] = field.one;
+        }
+        return this._values;
+    }
+
+    toString(): string {
+        return `(selector ${this.position} ${this.length})`;
+    }
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    positionNotInteger  : (p: any) => `selector position ${p} is invalid: position must be an integer`,
+    positionOutOfBounds : (p: any, c: any) => `selector position ${p} is out of bounds; expected to be within [${-c}, ${c})`
+};
\ No newline at end of file
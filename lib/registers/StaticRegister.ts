@@ -1,6 +1,20 @@
+// IMPORTS
+// ================================================================================================
+import { SourceSpan } from "@guildofweavers/air-assembly";
+import { validateHandle } from "../utils";
+
 // CLASS DEFINITION
 // ================================================================================================
 export abstract class StaticRegister {
 
-    
+    readonly handle?: string;
+    span?           : SourceSpan;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(handle?: string) {
+        if (handle !== undefined) {
+            this.handle = validateHandle(handle);
+        }
+    }
 }
\ No newline at end of file
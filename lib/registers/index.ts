@@ -3,4 +3,7 @@ export { CyclicRegister } from './CyclicRegister';
 export { InputRegister } from './InputRegister';
 export { MaskRegister } from './MaskRegister';
 export { PrngSequence } from './PrngSequence';
-export { PowerSequence } from './PowerSequence';
\ No newline at end of file
+export { PowerSequence } from './PowerSequence';
+export { SelectorSequence } from './SelectorSequence';
+export { RangeSequence } from './RangeSequence';
+export { ConstantSequence } from './ConstantSequence';
\ No newline at end of file
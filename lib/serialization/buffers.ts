@@ -0,0 +1,173 @@
+// IMPORTS
+// ================================================================================================
+import { validate } from "../utils";
+
+// BUFFER WRITER
+// ================================================================================================
+/**
+ * Writes primitive values into a byte sequence. Unsigned integers are written as LEB128 varints,
+ * signed integers are zigzag-encoded, and bigints are written as length-prefixed big-endian bytes.
+ */
+export class BufferWriter {
+
+    private readonly bytes: number[];
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor() {
+        this.bytes = [];
+    }
+
+    // PUBLIC METHODS
+    // --------------------------------------------------------------------------------------------
+    writeByte(value: number): void {
+        this.bytes.push(value & 0xFF);
+    }
+
+    writeBoolean(value: boolean): void {
+        this.bytes.push(value ? 1 : 0);
+    }
+
+    /** Writes a tag as a single byte equal to the position of the tag in the list of tags */
+    writeTag(tags: string[], tag: string): void {
+        const code = tags.indexOf(tag);
+        validate(code !== -1, errors.invalidTag(tag));
+        this.bytes.push(code);
+    }
+
+    writeUInt(value: number): void {
+        validate(Number.isSafeInteger(value) && value >= 0, errors.invalidUInt(value));
+        do {
+            const byte = value % 128;
+            value = Math.floor(value / 128);
+            this.bytes.push(value > 0 ? byte | 0x80 : byte);
+        } while (value > 0);
+    }
+
+    writeInt(value: number): void {
+        validate(Number.isSafeInteger(value), errors.invalidInt(value));
+        this.writeUInt(value >= 0 ? value * 2 : -value * 2 - 1);
+    }
+
+    writeBigInt(value: bigint): void {
+        validate(value >= 0n, errors.invalidBigInt(value));
+        let hex = value.toString(16);
+        if (hex.length % 2 === 1) hex = `0${hex}`;
+        const bytes = value === 0n ? Buffer.alloc(0) : Buffer.from(hex, 'hex');
+        this.writeUInt(bytes.length);
+        bytes.forEach(byte => this.bytes.push(byte));
+    }
+
+    writeString(value: string): void {
+        const bytes = Buffer.from(value, 'utf8');
+        this.writeUInt(bytes.length);
+        bytes.forEach(byte => this.bytes.push(byte));
+    }
+
+    /** Writes an optional string; a missing string is written as an empty string */
+    writeOptionalString(value?: string): void {
+        this.writeString(value || '');
+    }
+
+    toBuffer(): Buffer {
+        return Buffer.from(this.bytes);
+    }
+}
+
+// BUFFER READER
+// ================================================================================================
+export class BufferReader {
+
+    private readonly buffer : Buffer;
+    private offset          : number;
+
+    // CONSTRUCTOR
+    // --------------------------------------------------------------------------------------------
+    constructor(buffer: Buffer) {
+        this.buffer = buffer;
+        this.offset = 0;
+    }
+
+    // ACCESSORS
+    // --------------------------------------------------------------------------------------------
+    get isConsumed(): boolean {
+        return this.offset === this.buffer.length;
+    }
+
+    get remaining(): number {
+        return this.buffer.length - this.offset;
+    }
+
+    // PUBLIC METHODS
+    // --------------------------------------------------------------------------------------------
+    readByte(): number {
+        validate(this.offset < this.buffer.length, errors.unexpectedEnd());
+        return this.buffer[this.offset++];
+    }
+
+    readBoolean(): boolean {
+        const value = this.readByte();
+        validate(value === 0 || value === 1, errors.invalidBoolean(value, this.offset - 1));
+        return value === 1;
+    }
+
+    readTag(tags: string[]): string {
+        const code = this.readByte();
+        validate(code < tags.length, errors.unknownTag(code, this.offset - 1));
+        return tags[code];
+    }
+
+    readUInt(): number {
+        let value = 0, multiplier = 1, byte: number;
+        do {
+            byte = this.readByte();
+            value += (byte & 0x7F) * multiplier;
+            multiplier *= 128;
+            validate(Number.isSafeInteger(value), errors.uintTooLarge(this.offset - 1));
+        } while (byte & 0x80);
+        return value;
+    }
+
+    readInt(): number {
+        const value = this.readUInt();
+        return (value % 2 === 0) ? value / 2 : -(value + 1) / 2;
+    }
+
+    readBigInt(): bigint {
+        const length = this.readUInt();
+        if (length === 0) return 0n;
+        return BigInt(`0x${this.readBytes(length).toString('hex')}`);
+    }
+
+    readString(): string {
+        const length = this.readUInt();
+        return this.readBytes(length).toString('utf8');
+    }
+
+    readOptionalString(): string | undefined {
+        const value = this.readString();
+        return value === '' ? undefined : value;
+    }
+
+    // PRIVATE METHODS
+    // --------------------------------------------------------------------------------------------
+    private readBytes(length: number): Buffer {
+        validate(this.offset + length <= this.buffer.length, errors.unexpectedEnd());
+        const bytes = this.buffer.slice(this.offset, this.offset + length);
+        this.offset += length;
+        return bytes;
+    }
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    invalidUInt     : (v: any) => `cannot serialize ${v}: value must be a non-negative safe integer`,
+    invalidInt      : (v: any) => `cannot serialize ${v}: value must be a safe integer`,
+    invalidBigInt   : (v: any) => `cannot serialize ${v}: value must be non-negative`,
+    invalidTag      : (t: any) => `cannot serialize ${t}: value is not supported`,
+    unexpectedEnd   : () => `cannot deserialize schema: unexpected end of buffer`,
+    invalidBoolean  : (v: any, o: any) => `cannot deserialize schema: invalid boolean value ${v} at offset ${o}`,
+    unknownTag      : (c: any, o: any) => `cannot deserialize schema: unknown tag ${c} at offset ${o}`,
+    uintTooLarge    : (o: any) => `cannot deserialize schema: integer at offset ${o} is too large`
+};
\ No newline at end of file
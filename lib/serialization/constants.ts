@@ -0,0 +1,25 @@
+// SCHEMA HEADER
+// ================================================================================================
+export const MAGIC = Buffer.from('AIRA', 'ascii');
+export const VERSION = 7;
+
+// version of the JSON format; incremented on incompatible changes
+export const JSON_VERSION = 1;
+
+// TAGS
+// ================================================================================================
+// positions of tags in these lists are their serialized codes; new tags must be appended
+export const FIELD_TYPES = ['prime', 'extension'];
+export const VALUE_TYPES = ['scalar', 'vector', 'matrix'];
+export const EXPRESSION_TYPES = [
+    'literal', 'binary', 'unary', 'select', 'vector', 'get', 'slice', 'matrix', 'load', 'call',
+    'get.element', 'get.row', 'get.col', 'transpose', 'rotate', 'reverse', 'repeat',
+    'bits.compose', 'bits.check', 'concat'
+];
+export const BINARY_OPERATIONS = ['add', 'sub', 'mul', 'div', 'exp', 'prod'];
+export const UNARY_OPERATIONS = ['neg', 'inv'];
+export const LOAD_SOURCES = ['const', 'trace', 'static', 'param', 'local', 'aux'];
+export const REGISTER_TYPES = ['input', 'mask', 'cycle'];
+export const MASTER_RELATIONS = ['none', 'childof', 'peerof'];
+export const SEQUENCE_TYPES = ['values', 'prng', 'power', 'selector', 'range', 'constant'];
+export const ASSERTION_VALUES = ['literal', 'input'];
\ No newline at end of file
@@ -0,0 +1,390 @@
+// IMPORTS
+// ================================================================================================
+import { InputRegisterMaster, InputRegisterRelation } from "@guildofweavers/air-assembly";
+import { AirSchema } from "../AirSchema";
+import { AirComponent } from "../AirComponent";
+import { ExecutionContext, StoreOperation } from "../procedures";
+import { Expression, Dimensions } from "../expressions";
+import { PrngSequence, PowerSequence, SelectorSequence, RangeSequence } from "../registers";
+import { BufferReader } from "./buffers";
+import {
+    MAGIC, VERSION, FIELD_TYPES, VALUE_TYPES, EXPRESSION_TYPES, BINARY_OPERATIONS, UNARY_OPERATIONS,
+    LOAD_SOURCES, REGISTER_TYPES, MASTER_RELATIONS, SEQUENCE_TYPES, ASSERTION_VALUES
+} from "./constants";
+import { validate } from "../utils";
+
+// INTERFACES
+// ================================================================================================
+interface ProcedureBody {
+    readonly statements : StoreOperation[];
+    readonly result     : Expression;
+}
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+/**
+ * Rebuilds a schema from a buffer produced by serializeSchema(). All declarations are replayed
+ * through the same builder methods which are used by the parser, and thus, the resulting schema is
+ * validated in the same way as a schema compiled from source code.
+ */
+export function deserializeSchema(buffer: Buffer): AirSchema {
+    const reader = new BufferReader(buffer);
+
+    // header
+    for (let byte of MAGIC) {
+        validate(reader.readByte() === byte, errors.invalidMagic());
+    }
+    const version = reader.readByte();
+    validate(version === VERSION, errors.unsupportedVersion(version));
+
+    // field
+    let schema: AirSchema;
+    const fieldType = reader.readTag(FIELD_TYPES);
+    const modulus = reader.readBigInt();
+    if (fieldType === 'extension') {
+        const degree = reader.readUInt();
+        const polynomial = readList(reader, () => reader.readBigInt());
+        schema = new AirSchema(fieldType, modulus, degree, polynomial);
+    }
+    else {
+        schema = new AirSchema('prime', modulus);
+    }
+
+    // constants
+    const constantCount = reader.readUInt();
+    for (let i = 0; i < constantCount; i++) {
+        const handle = reader.readOptionalString();
+        schema.addConstant(readValue(reader), handle);
+    }
+
+    // functions
+    const functionCount = reader.readUInt();
+    for (let i = 0; i < functionCount; i++) {
+        const handle = reader.readOptionalString();
+        const context = schema.createFunctionContext(readDimensions(reader), handle);
+        const body = readBody(reader, context);
+        schema.addFunction(context, body.statements, body.result);
+    }
+
+    // components
+    const componentCount = reader.readUInt();
+    for (let i = 0; i < componentCount; i++) {
+        readComponent(reader, schema);
+    }
+
+    validate(reader.isConsumed, errors.trailingBytes());
+    return schema;
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function readComponent(reader: BufferReader, schema: AirSchema): void {
+    const name = reader.readString();
+    const registers = reader.readBoolean()
+        ? readList(reader, () => reader.readString())
+        : reader.readUInt();
+    const constraintCount = reader.readUInt();
+    const cycleLength = reader.readUInt();
+    const frameSize = reader.readUInt();
+    const component = schema.createComponent(name, registers, constraintCount, cycleLength, frameSize);
+
+    // static registers
+    const registerCount = reader.readUInt();
+    for (let i = 0; i < registerCount; i++) {
+        const registerType = reader.readTag(REGISTER_TYPES);
+        if (registerType === 'input') {
+            const scope = reader.readBoolean() ? 'secret' : 'public';
+            const binary = reader.readBoolean();
+            const relation = reader.readTag(MASTER_RELATIONS);
+            const master: InputRegisterMaster | undefined = (relation !== 'none')
+                ? { relation: relation as InputRegisterRelation, index: reader.readUInt() }
+                : undefined;
+            const steps = reader.readUInt();
+            const offset = reader.readInt();
+            const handle = reader.readOptionalString();
+            component.addInputRegister(scope, binary, master, steps > 0 ? steps - 1 : undefined, offset, handle);
+        }
+        else if (registerType === 'mask') {
+            const source = reader.readUInt();
+            const inverted = reader.readBoolean();
+            component.addMaskRegister(source, inverted, reader.readOptionalString());
+        }
+        else {
+            const values = readSequence(reader, component);
+            component.addCyclicRegister(values, reader.readOptionalString());
+        }
+    }
+
+    // procedures
+    let context = component.createProcedureContext('init');
+    let body = readBody(reader, context);
+    component.setTraceInitializer(context, body.statements, body.result);
+
+    context = component.createProcedureContext('transition');
+    body = readBody(reader, context);
+    component.setTransitionFunction(context, body.statements, body.result);
+
+    if (reader.readBoolean()) {
+        component.setAuxiliaryRegisters(readList(reader, () => reader.readBigInt()));
+        context = component.createProcedureContext('auxiliary');
+        body = readBody(reader, context);
+        component.setAuxiliaryFunction(context, body.statements, body.result);
+    }
+
+    context = component.createProcedureContext('evaluation');
+    body = readBody(reader, context);
+    component.setConstraintEvaluator(context, body.statements, body.result);
+
+    // permutation arguments
+    const permutationCount = reader.readUInt();
+    for (let i = 0; i < permutationCount; i++) {
+        const left = readList(reader, () => reader.readUInt());
+        const right = readList(reader, () => reader.readUInt());
+        component.addPermutation(left, right);
+    }
+
+    // lookup arguments
+    const lookupCount = reader.readUInt();
+    for (let i = 0; i < lookupCount; i++) {
+        const register = reader.readUInt();
+        component.addLookup(register, reader.readUInt());
+    }
+
+    // outputs
+    const outputCount = reader.readUInt();
+    for (let i = 0; i < outputCount; i++) {
+        const register = reader.readUInt();
+        component.addOutput(register, reader.readInt());
+    }
+
+    // assertions
+    const assertionCount = reader.readUInt();
+    for (let i = 0; i < assertionCount; i++) {
+        const aux = reader.readBoolean();
+        const register = reader.readUInt();
+        const step = reader.readInt();
+        const value = (reader.readTag(ASSERTION_VALUES) === 'literal')
+            ? reader.readBigInt()
+            : { input: reader.readUInt() };
+        component.addAssertion(register, step, value, aux);
+    }
+
+    schema.addComponent(component);
+}
+
+function readSequence(reader: BufferReader, component: AirComponent) {
+    const sequenceType = reader.readTag(SEQUENCE_TYPES);
+    switch (sequenceType) {
+        case 'prng': {
+            const method = reader.readString();
+            const seed = reader.readBigInt();
+            return new PrngSequence(method, seed, reader.readUInt());
+        }
+        case 'power': {
+            const base = reader.readBigInt();
+            return new PowerSequence(base, reader.readUInt());
+        }
+        case 'selector': {
+            const position = reader.readInt();
+            return new SelectorSequence(position, reader.readUInt());
+        }
+        case 'range': {
+            const start = reader.readBigInt();
+            return new RangeSequence(start, reader.readUInt());
+        }
+        case 'constant': {
+            const index = reader.readUInt();
+            const row = reader.readUInt();
+            return component.createConstantSequence(index, row > 0 ? row - 1 : undefined);
+        }
+        default: {
+            return readList(reader, () => reader.readBigInt());
+        }
+    }
+}
+
+/**
+ * Reads parameters, local variables, statements, and the result of a function or a procedure, and
+ * replays them into the provided execution context.
+ */
+function readBody(reader: BufferReader, context: ExecutionContext): ProcedureBody {
+    const paramCount = reader.readUInt();
+    for (let i = 0; i < paramCount; i++) {
+        const handle = reader.readOptionalString();
+        context.addParam(readDimensions(reader), handle);
+    }
+
+    const localCount = reader.readUInt();
+    for (let i = 0; i < localCount; i++) {
+        const handle = reader.readOptionalString();
+        context.addLocal(readDimensions(reader), handle);
+    }
+
+    const statements = readList(reader, () => {
+        const target = reader.readUInt();
+        const useHandle = reader.readBoolean();
+        const value = readExpression(reader, context);
+        validate(target < context.locals.length, errors.invalidStoreTarget(target));
+        return context.buildStoreOperation(useHandle ? context.locals[target].handle! : target, value);
+    });
+    const result = readExpression(reader, context);
+
+    return { statements, result };
+}
+
+function readExpression(reader: BufferReader, context: ExecutionContext): Expression {
+    const expressionType = reader.readTag(EXPRESSION_TYPES);
+    switch (expressionType) {
+        case 'literal': {
+            return context.buildLiteralValue(readValue(reader));
+        }
+        case 'binary': {
+            const operation = reader.readTag(BINARY_OPERATIONS);
+            const lhs = readExpression(reader, context);
+            const rhs = readExpression(reader, context);
+            return context.buildBinaryOperation(operation, lhs, rhs);
+        }
+        case 'unary': {
+            const operation = reader.readTag(UNARY_OPERATIONS);
+            return context.buildUnaryOperation(operation, readExpression(reader, context));
+        }
+        case 'select': {
+            const condition = readExpression(reader, context);
+            const onTrue = readExpression(reader, context);
+            const onFalse = readExpression(reader, context);
+            return context.buildSelectExpression(condition, onTrue, onFalse);
+        }
+        case 'vector': {
+            const elements = readList(reader, () => readExpression(reader, context));
+            return context.buildMakeVectorExpression(elements);
+        }
+        case 'get': {
+            const source = readExpression(reader, context);
+            return context.buildGetVectorElementExpression(source, reader.readUInt());
+        }
+        case 'slice': {
+            const source = readExpression(reader, context);
+            const start = reader.readUInt();
+            const end = reader.readUInt();
+            return context.buildSliceVectorExpression(source, start, end);
+        }
+        case 'concat': {
+            const elements = readList(reader, () => readExpression(reader, context));
+            return context.buildConcatVectorsExpression(elements);
+        }
+        case 'rotate': {
+            const source = readExpression(reader, context);
+            return context.buildRotateVectorExpression(source, reader.readInt());
+        }
+        case 'reverse': {
+            return context.buildReverseVectorExpression(readExpression(reader, context));
+        }
+        case 'repeat': {
+            const source = readExpression(reader, context);
+            return context.buildRepeatVectorExpression(source, reader.readUInt());
+        }
+        case 'matrix': {
+            const rows = readMatrix(reader, () => readExpression(reader, context));
+            return context.buildMakeMatrixExpression(rows);
+        }
+        case 'get.element': {
+            const source = readExpression(reader, context);
+            const row = reader.readUInt();
+            const column = reader.readUInt();
+            return context.buildGetMatrixElementExpression(source, row, column);
+        }
+        case 'get.row': {
+            const source = readExpression(reader, context);
+            return context.buildGetMatrixRowExpression(source, reader.readUInt());
+        }
+        case 'get.col': {
+            const source = readExpression(reader, context);
+            return context.buildGetMatrixColumnExpression(source, reader.readUInt());
+        }
+        case 'transpose': {
+            return context.buildTransposeMatrixExpression(readExpression(reader, context));
+        }
+        case 'bits.compose': {
+            return context.buildComposeBitsExpression(readExpression(reader, context));
+        }
+        case 'bits.check': {
+            return context.buildCheckBitsExpression(readExpression(reader, context));
+        }
+        case 'load': {
+            const source = reader.readTag(LOAD_SOURCES);
+            return context.buildLoadExpression(`load.${source}`, reader.readUInt());
+        }
+        default: {
+            const index = reader.readUInt();
+            const params = readList(reader, () => readExpression(reader, context));
+            return context.buildCallExpression(index, params);
+        }
+    }
+}
+
+function readValue(reader: BufferReader): bigint | bigint[] | bigint[][] {
+    const valueType = reader.readTag(VALUE_TYPES);
+    if (valueType === 'scalar') {
+        return reader.readBigInt();
+    }
+    else if (valueType === 'vector') {
+        const elements = readList(reader, () => reader.readBigInt());
+        validate(elements.length > 0, errors.emptyVector());
+        return elements;
+    }
+    else {
+        return readMatrix(reader, () => reader.readBigInt());
+    }
+}
+
+function readDimensions(reader: BufferReader): Dimensions {
+    const rows = reader.readUInt();
+    const cols = reader.readUInt();
+    return [rows, cols];
+}
+
+/**
+ * Reads a list of elements; every element takes at least one byte, and thus, the declared length
+ * cannot exceed the number of remaining bytes.
+ */
+function readList<T>(reader: BufferReader, readElement: () => T): T[] {
+    const length = reader.readUInt();
+    validate(length <= reader.remaining, errors.countTooLarge(length));
+    const result: T[] = [];
+    for (let i = 0; i < length; i++) {
+        result.push(readElement());
+    }
+    return result;
+}
+
+/**
+ * Reads a matrix of elements row by row; the matrix must have at least one row and one column, and
+ * the declared element count cannot exceed the number of remaining bytes.
+ */
+function readMatrix<T>(reader: BufferReader, readElement: () => T): T[][] {
+    const rowCount = reader.readUInt();
+    const colCount = reader.readUInt();
+    validate(rowCount > 0 && colCount > 0, errors.emptyMatrix(rowCount, colCount));
+    validate(rowCount * colCount <= reader.remaining, errors.countTooLarge(rowCount * colCount));
+    const result: T[][] = [];
+    for (let i = 0; i < rowCount; i++) {
+        const row: T[] = [];
+        for (let j = 0; j < colCount; j++) {
+            row.push(readElement());
+        }
+        result.push(row);
+    }
+    return result;
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    invalidMagic        : () => `cannot deserialize schema: buffer does not contain a serialized schema`,
+    unsupportedVersion  : (v: any) => `cannot deserialize schema: format version ${v} is not supported`,
+    invalidStoreTarget  : (t: any) => `cannot deserialize schema: local variable ${t} is not declared`,
+    trailingBytes       : () => `cannot deserialize schema: buffer contains unexpected trailing bytes`,
+    countTooLarge       : (c: any) => `cannot deserialize schema: element count ${c} exceeds remaining bytes`,
+    emptyVector         : () => `cannot deserialize schema: vector must have at least one element`,
+    emptyMatrix         : (r: any, c: any) => `cannot deserialize schema: matrix dimensions ${r}x${c} are invalid`
+};
\ No newline at end of file
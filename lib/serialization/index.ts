@@ -0,0 +1,4 @@
+export { serializeSchema } from './serializer';
+export { deserializeSchema } from './deserializer';
+export { schemaToJson } from './jsonEncoder';
+export { schemaFromJson } from './jsonDecoder';
\ No newline at end of file
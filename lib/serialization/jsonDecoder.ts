@@ -0,0 +1,342 @@
+// IMPORTS
+// ================================================================================================
+import {
+    SchemaJson, ComponentJson, ProcedureJson, StaticRegisterJson, ValueSequenceJson, ExpressionJson,
+    ValueJson, AssertionJson, PermutationJson, LookupJson, OutputJson
+} from "@guildofweavers/air-assembly";
+import { AirSchema } from "../AirSchema";
+import { AirComponent } from "../AirComponent";
+import { ExecutionContext, StoreOperation } from "../procedures";
+import { Expression, Dimensions } from "../expressions";
+import { PrngSequence, PowerSequence, SelectorSequence, RangeSequence } from "../registers";
+import { JSON_VERSION } from "./constants";
+import { validate } from "../utils";
+
+// CONSTANTS
+// ================================================================================================
+const HEX_REGEXP = /^0x[0-9a-f]+$/i;
+
+// INTERFACES
+// ================================================================================================
+interface ProcedureBody {
+    readonly statements : StoreOperation[];
+    readonly result     : Expression;
+}
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+/**
+ * Rebuilds a schema from an object produced by schemaToJson(). All declarations are replayed
+ * through the same builder methods which are used by the parser, and thus, the resulting schema is
+ * validated in the same way as a schema compiled from source code.
+ */
+export function schemaFromJson(json: SchemaJson): AirSchema {
+    validate(json !== null && typeof json === 'object', errors.invalidObject('schema'));
+    validate(json.version === JSON_VERSION, errors.unsupportedVersion(json.version));
+
+    // field
+    let schema: AirSchema;
+    const field = json.field || {};
+    const modulus = decodeBigInt(field.modulus, 'field modulus');
+    if (field.type === 'extension') {
+        const degree = decodeInteger(field.degree, 'extension degree');
+        const polynomial = field.polynomial
+            ? decodeArray(field.polynomial, 'extension polynomial').map(c => decodeBigInt(c, 'polynomial coefficient'))
+            : undefined;
+        schema = new AirSchema('extension', modulus, degree, polynomial);
+    }
+    else {
+        schema = new AirSchema(field.type, modulus);
+    }
+
+    // constants
+    for (let constant of decodeArray(json.constants, 'constants')) {
+        schema.addConstant(decodeValue(constant.value), constant.handle);
+    }
+
+    // functions
+    for (let func of decodeArray(json.functions, 'functions')) {
+        const context = schema.createFunctionContext(decodeDimensions(func.dimensions), func.handle);
+        const body = decodeBody(func, context);
+        schema.addFunction(context, body.statements, body.result);
+    }
+
+    // components
+    for (let component of decodeArray(json.components, 'components')) {
+        decodeComponent(component, schema);
+    }
+
+    return schema;
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function decodeComponent(json: ComponentJson, schema: AirSchema): void {
+    validate(json !== null && typeof json === 'object', errors.invalidObject('component'));
+    const registers = Array.isArray(json.registers) ? json.registers : decodeInteger(json.registers, 'register count');
+    const component = schema.createComponent(json.name, registers, json.constraints, json.steps, json.frameSize);
+
+    // static registers
+    for (let register of decodeArray(json.static, 'static registers')) {
+        decodeStaticRegister(register, component);
+    }
+
+    // procedures
+    let context = component.createProcedureContext('init');
+    let body = decodeBody(json.init, context);
+    component.setTraceInitializer(context, body.statements, body.result);
+
+    context = component.createProcedureContext('transition');
+    body = decodeBody(json.transition, context);
+    component.setTransitionFunction(context, body.statements, body.result);
+
+    if (json.auxiliary !== undefined) {
+        validate(json.auxiliary !== null && typeof json.auxiliary === 'object', errors.invalidObject('auxiliary procedure'));
+        const values = decodeArray(json.auxiliary.values, 'auxiliary values');
+        component.setAuxiliaryRegisters(values.map(v => decodeBigInt(v, 'auxiliary value')));
+        context = component.createProcedureContext('auxiliary');
+        body = decodeBody(json.auxiliary, context);
+        component.setAuxiliaryFunction(context, body.statements, body.result);
+    }
+
+    context = component.createProcedureContext('evaluation');
+    body = decodeBody(json.evaluation, context);
+    component.setConstraintEvaluator(context, body.statements, body.result);
+
+    // permutation arguments
+    if (json.permutations !== undefined) {
+        for (let permutation of decodeArray<PermutationJson>(json.permutations, 'permutations')) {
+            validate(permutation !== null && typeof permutation === 'object', errors.invalidObject('permutation'));
+            const left = decodeArray(permutation.left, 'permutation columns');
+            const right = decodeArray(permutation.right, 'permutation columns');
+            component.addPermutation(left, right);
+        }
+    }
+
+    // lookup arguments
+    if (json.lookups !== undefined) {
+        for (let lookup of decodeArray<LookupJson>(json.lookups, 'lookups')) {
+            validate(lookup !== null && typeof lookup === 'object', errors.invalidObject('lookup'));
+            component.addLookup(lookup.register, lookup.table);
+        }
+    }
+
+    // outputs
+    if (json.outputs !== undefined) {
+        for (let output of decodeArray<OutputJson>(json.outputs, 'outputs')) {
+            validate(output !== null && typeof output === 'object', errors.invalidObject('output'));
+            component.addOutput(output.register, output.step);
+        }
+    }
+
+    // assertions
+    for (let assertion of decodeArray<AssertionJson>(json.assertions, 'assertions')) {
+        const value = (typeof assertion.value === 'string')
+            ? decodeBigInt(assertion.value, 'assertion value')
+            : { input: decodeInteger(assertion.value && assertion.value.input, 'assertion input') };
+        component.addAssertion(assertion.register, assertion.step, value, assertion.aux === true);
+    }
+
+    schema.addComponent(component);
+}
+
+function decodeStaticRegister(json: StaticRegisterJson, component: AirComponent): void {
+    validate(json !== null && typeof json === 'object', errors.invalidObject('static register'));
+    switch (json.type) {
+        case 'input': {
+            component.addInputRegister(json.scope, json.binary, json.master, json.steps, json.offset, json.handle);
+            break;
+        }
+        case 'mask': {
+            component.addMaskRegister(json.source, json.inverted, json.handle);
+            break;
+        }
+        case 'cycle': {
+            const values = Array.isArray(json.values)
+                ? json.values.map(v => decodeBigInt(v, 'register value'))
+                : decodeSequence(json.values, component);
+            component.addCyclicRegister(values, json.handle);
+            break;
+        }
+        default: {
+            throw new Error(errors.invalidType('static register', (json as any).type));
+        }
+    }
+}
+
+function decodeSequence(json: ValueSequenceJson, component: AirComponent) {
+    validate(json !== null && typeof json === 'object', errors.invalidObject('value sequence'));
+    switch (json.type) {
+        case 'prng': {
+            return new PrngSequence(json.method, decodeBigInt(json.seed, 'prng seed'), json.length);
+        }
+        case 'power': {
+            return new PowerSequence(decodeBigInt(json.base, 'power base'), json.length);
+        }
+        case 'selector': {
+            return new SelectorSequence(json.position, json.length);
+        }
+        case 'range': {
+            return new RangeSequence(decodeBigInt(json.start, 'range start'), json.length);
+        }
+        case 'constant': {
+            return component.createConstantSequence(json.index, json.row);
+        }
+        default: {
+            throw new Error(errors.invalidType('value sequence', (json as any).type));
+        }
+    }
+}
+
+/**
+ * Replays parameters, local variables, statements, and the result of a function or a procedure
+ * into the provided execution context.
+ */
+function decodeBody(json: ProcedureJson, context: ExecutionContext): ProcedureBody {
+    validate(json !== null && typeof json === 'object', errors.invalidObject('procedure'));
+    for (let param of decodeArray(json.params, 'parameters')) {
+        context.addParam(decodeDimensions(param.dimensions), param.handle);
+    }
+
+    for (let local of decodeArray(json.locals, 'local variables')) {
+        context.addLocal(decodeDimensions(local.dimensions), local.handle);
+    }
+
+    const statements = decodeArray(json.statements, 'statements').map(s => {
+        const value = decodeExpression(s.value, context);
+        const statement = context.buildStoreOperation(s.handle || s.target, value);
+        validate(statement.target === s.target, errors.storeTargetMismatch(s.handle, s.target));
+        return statement;
+    });
+    const result = decodeExpression(json.result, context);
+
+    return { statements, result };
+}
+
+function decodeExpression(json: ExpressionJson, context: ExecutionContext): Expression {
+    validate(json !== null && typeof json === 'object', errors.invalidObject('expression'));
+    switch (json.type) {
+        case 'LiteralValue': {
+            return context.buildLiteralValue(decodeValue(json.value));
+        }
+        case 'BinaryOperation': {
+            const lhs = decodeExpression(json.lhs, context);
+            const rhs = decodeExpression(json.rhs, context);
+            return context.buildBinaryOperation(json.operation, lhs, rhs);
+        }
+        case 'UnaryOperation': {
+            return context.buildUnaryOperation(json.operation, decodeExpression(json.operand, context));
+        }
+        case 'SelectExpression': {
+            const condition = decodeExpression(json.condition, context);
+            const onTrue = decodeExpression(json.onTrue, context);
+            const onFalse = decodeExpression(json.onFalse, context);
+            return context.buildSelectExpression(condition, onTrue, onFalse);
+        }
+        case 'MakeVector': {
+            const elements = decodeArray(json.elements, 'vector elements').map(e => decodeExpression(e, context));
+            return context.buildMakeVectorExpression(elements);
+        }
+        case 'GetVectorElement': {
+            const source = decodeExpression(json.source, context);
+            return context.buildGetVectorElementExpression(source, decodeInteger(json.index, 'element index'));
+        }
+        case 'SliceVector': {
+            const source = decodeExpression(json.source, context);
+            return context.buildSliceVectorExpression(source, json.start, json.end);
+        }
+        case 'ConcatVectors': {
+            const elements = decodeArray(json.elements, 'concatenated vectors').map(e => decodeExpression(e, context));
+            return context.buildConcatVectorsExpression(elements);
+        }
+        case 'RotateVector': {
+            const source = decodeExpression(json.source, context);
+            return context.buildRotateVectorExpression(source, decodeInteger(json.shift, 'rotation shift'));
+        }
+        case 'ReverseVector': {
+            return context.buildReverseVectorExpression(decodeExpression(json.source, context));
+        }
+        case 'RepeatVector': {
+            const source = decodeExpression(json.source, context);
+            return context.buildRepeatVectorExpression(source, decodeInteger(json.count, 'repeat count'));
+        }
+        case 'MakeMatrix': {
+            const rows = decodeArray(json.elements, 'matrix elements')
+                .map(row => decodeArray(row, 'matrix row').map(e => decodeExpression(e, context)));
+            return context.buildMakeMatrixExpression(rows);
+        }
+        case 'GetMatrixElement': {
+            const source = decodeExpression(json.source, context);
+            const row = decodeInteger(json.row, 'row index');
+            const column = decodeInteger(json.column, 'column index');
+            return context.buildGetMatrixElementExpression(source, row, column);
+        }
+        case 'GetMatrixRow': {
+            const source = decodeExpression(json.source, context);
+            return context.buildGetMatrixRowExpression(source, decodeInteger(json.index, 'row index'));
+        }
+        case 'GetMatrixColumn': {
+            const source = decodeExpression(json.source, context);
+            return context.buildGetMatrixColumnExpression(source, decodeInteger(json.index, 'column index'));
+        }
+        case 'TransposeMatrix': {
+            return context.buildTransposeMatrixExpression(decodeExpression(json.source, context));
+        }
+        case 'ComposeBits': {
+            return context.buildComposeBitsExpression(decodeExpression(json.source, context));
+        }
+        case 'CheckBits': {
+            return context.buildCheckBitsExpression(decodeExpression(json.source, context));
+        }
+        case 'LoadExpression': {
+            return context.buildLoadExpression(`load.${json.source}`, decodeInteger(json.index, 'load index'));
+        }
+        case 'CallExpression': {
+            const params = decodeArray(json.params, 'call parameters').map(p => decodeExpression(p, context));
+            return context.buildCallExpression(decodeInteger(json.index, 'function index'), params);
+        }
+        default: {
+            throw new Error(errors.invalidType('expression', (json as any).type));
+        }
+    }
+}
+
+function decodeValue(json: ValueJson): bigint | bigint[] | bigint[][] {
+    if (!Array.isArray(json)) return decodeBigInt(json, 'value');
+    return (json as any[]).map(element => Array.isArray(element)
+        ? element.map(e => decodeBigInt(e, 'value'))
+        : decodeBigInt(element, 'value')) as bigint[] | bigint[][];
+}
+
+function decodeDimensions(json: Dimensions): Dimensions {
+    validate(Array.isArray(json) && json.length === 2, errors.invalidDimensions(json));
+    return [decodeInteger(json[0], 'dimensions'), decodeInteger(json[1], 'dimensions')];
+}
+
+function decodeBigInt(value: any, name: string): bigint {
+    validate(typeof value === 'string' && HEX_REGEXP.test(value), errors.invalidHex(name, value));
+    return BigInt(value);
+}
+
+function decodeInteger(value: any, name: string): number {
+    validate(Number.isInteger(value), errors.invalidInteger(name, value));
+    return value;
+}
+
+function decodeArray<T>(value: T[], name: string): T[] {
+    validate(Array.isArray(value), errors.invalidArray(name));
+    return value;
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    invalidObject       : (n: any) => `cannot import schema: ${n} must be an object`,
+    unsupportedVersion  : (v: any) => `cannot import schema: format version ${v} is not supported`,
+    invalidType         : (n: any, t: any) => `cannot import schema: ${n} type '${t}' is invalid`,
+    invalidHex          : (n: any, v: any) => `cannot import schema: ${n} '${v}' is not a valid hex string`,
+    invalidInteger      : (n: any, v: any) => `cannot import schema: ${n} '${v}' is not an integer`,
+    invalidArray        : (n: any) => `cannot import schema: ${n} must be an array`,
+    invalidDimensions   : (d: any) => `cannot import schema: dimensions '${d}' are invalid`,
+    storeTargetMismatch : (h: any, t: any) => `cannot import schema: local variable ${h} does not match store target ${t}`
+};
\ No newline at end of file
@@ -0,0 +1,282 @@
+// IMPORTS
+// ================================================================================================
+import {
+    SchemaJson, FieldJson, ComponentJson, ProcedureJson, DeclarationJson, StaticRegisterJson,
+    ValueSequenceJson, ExpressionJson, ValueJson, HexString
+} from "@guildofweavers/air-assembly";
+import { AirSchema } from "../AirSchema";
+import { AirComponent } from "../AirComponent";
+import { Parameter, LocalVariable, StoreOperation } from "../procedures";
+import {
+    Expression, ExpressionVisitor, LiteralValue, BinaryOperation, UnaryOperation, SelectExpression, MakeVector,
+    GetVectorElement, SliceVector, ConcatVectors, RotateVector, ReverseVector, RepeatVector, MakeMatrix, GetMatrixElement,
+    GetMatrixRow, GetMatrixColumn, TransposeMatrix, ComposeBits, CheckBits, LoadExpression, CallExpression
+} from "../expressions";
+import {
+    StaticRegister, InputRegister, MaskRegister, CyclicRegister, PrngSequence, PowerSequence, SelectorSequence,
+    RangeSequence, ConstantSequence
+} from "../registers";
+import { ExtensionField } from "../fields";
+import { JSON_VERSION } from "./constants";
+
+// INTERFACES
+// ================================================================================================
+interface Body {
+    readonly params     : ReadonlyArray<Parameter>;
+    readonly locals     : ReadonlyArray<LocalVariable>;
+    readonly statements : ReadonlyArray<StoreOperation>;
+    readonly result     : Expression;
+}
+
+// EXPRESSION ENCODER
+// ================================================================================================
+class ExpressionEncoder extends ExpressionVisitor<ExpressionJson> {
+
+    // LITERALS
+    // --------------------------------------------------------------------------------------------
+    literalValue(e: LiteralValue): ExpressionJson {
+        return { type: 'LiteralValue', value: encodeValue(e.value) };
+    }
+
+    // OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    binaryOperation(e: BinaryOperation): ExpressionJson {
+        const lhs = this.visit(e.lhs);
+        const rhs = this.visit(e.rhs);
+        return { type: 'BinaryOperation', operation: e.operation, lhs, rhs };
+    }
+
+    unaryOperation(e: UnaryOperation): ExpressionJson {
+        return { type: 'UnaryOperation', operation: e.operation, operand: this.visit(e.operand) };
+    }
+
+    selectExpression(e: SelectExpression): ExpressionJson {
+        const condition = this.visit(e.condition);
+        const onTrue = this.visit(e.onTrue);
+        const onFalse = this.visit(e.onFalse);
+        return { type: 'SelectExpression', condition, onTrue, onFalse };
+    }
+
+    // VECTORS AND MATRIXES
+    // --------------------------------------------------------------------------------------------
+    makeVector(e: MakeVector): ExpressionJson {
+        return { type: 'MakeVector', elements: e.elements.map(element => this.visit(element)) };
+    }
+
+    getVectorElement(e: GetVectorElement): ExpressionJson {
+        return { type: 'GetVectorElement', source: this.visit(e.source), index: e.index };
+    }
+
+    sliceVector(e: SliceVector): ExpressionJson {
+        return { type: 'SliceVector', source: this.visit(e.source), start: e.start, end: e.end };
+    }
+
+    concatVectors(e: ConcatVectors): ExpressionJson {
+        return { type: 'ConcatVectors', elements: e.elements.map(element => this.visit(element)) };
+    }
+
+    rotateVector(e: RotateVector): ExpressionJson {
+        return { type: 'RotateVector', source: this.visit(e.source), shift: e.shift };
+    }
+
+    reverseVector(e: ReverseVector): ExpressionJson {
+        return { type: 'ReverseVector', source: this.visit(e.source) };
+    }
+
+    repeatVector(e: RepeatVector): ExpressionJson {
+        return { type: 'RepeatVector', source: this.visit(e.source), count: e.count };
+    }
+
+    makeMatrix(e: MakeMatrix): ExpressionJson {
+        const elements = e.elements.map(row => row.map(element => this.visit(element)));
+        return { type: 'MakeMatrix', elements };
+    }
+
+    getMatrixElement(e: GetMatrixElement): ExpressionJson {
+        return { type: 'GetMatrixElement', source: this.visit(e.source), row: e.row, column: e.column };
+    }
+
+    getMatrixRow(e: GetMatrixRow): ExpressionJson {
+        return { type: 'GetMatrixRow', source: this.visit(e.source), index: e.index };
+    }
+
+    getMatrixColumn(e: GetMatrixColumn): ExpressionJson {
+        return { type: 'GetMatrixColumn', source: this.visit(e.source), index: e.index };
+    }
+
+    transposeMatrix(e: TransposeMatrix): ExpressionJson {
+        return { type: 'TransposeMatrix', source: this.visit(e.source) };
+    }
+
+    composeBits(e: ComposeBits): ExpressionJson {
+        return { type: 'ComposeBits', source: this.visit(e.source) };
+    }
+
+    checkBits(e: CheckBits): ExpressionJson {
+        return { type: 'CheckBits', source: this.visit(e.source) };
+    }
+
+    // LOAD AND CALL
+    // --------------------------------------------------------------------------------------------
+    loadExpression(e: LoadExpression): ExpressionJson {
+        return { type: 'LoadExpression', source: e.source, index: e.index };
+    }
+
+    callExpression(e: CallExpression): ExpressionJson {
+        return { type: 'CallExpression', index: e.index, params: e.params.map(p => this.visit(p)) };
+    }
+}
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+const encoder = new ExpressionEncoder();
+
+/**
+ * Exports the schema into a plain object in which big integers are encoded as hex strings; the
+ * object can be passed directly to JSON.stringify().
+ */
+export function schemaToJson(schema: AirSchema): SchemaJson {
+    const constants = schema.constants.map(constant => ({
+        handle  : constant.handle,
+        value   : encodeValue(constant.value.value)
+    }));
+
+    const functions = schema.functions.map(func => ({
+        handle      : func.handle,
+        dimensions  : func.dimensions,
+        ...encodeBody(func)
+    }));
+
+    const components: ComponentJson[] = [];
+    schema.components.forEach(component => components.push(encodeComponent(component)));
+
+    return { version: JSON_VERSION, field: encodeField(schema), constants, functions, components };
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function encodeField(schema: AirSchema): FieldJson {
+    const field = schema.field;
+    if (field instanceof ExtensionField) {
+        const polynomial = field.polynomial.map(encodeBigInt);
+        return { type: 'extension', modulus: encodeBigInt(field.characteristic), degree: field.extensionDegree, polynomial };
+    }
+    return { type: 'prime', modulus: encodeBigInt(field.characteristic) };
+}
+
+function encodeComponent(component: AirComponent): ComponentJson {
+    return {
+        name        : component.name,
+        registers   : component.traceRegisterHandles
+                        ? component.traceRegisterHandles.slice()
+                        : component.traceRegisterCount,
+        constraints : component.constraintCount,
+        steps       : component.cycleLength,
+        frameSize   : component.frameSize,
+        static      : component.staticRegisters.map(encodeStaticRegister),
+        init        : encodeBody(component.traceInitializer),
+        transition  : encodeBody(component.transitionFunction),
+        auxiliary   : component.auxiliaryFunction && {
+            values      : component.auxiliaryInitialValues!.map(encodeBigInt),
+            ...encodeBody(component.auxiliaryFunction)
+        },
+        evaluation  : encodeBody(component.constraintEvaluator),
+        permutations: component.permutations.length > 0
+                        ? component.permutations.map(p => ({ left: p.left.slice(), right: p.right.slice() }))
+                        : undefined,
+        lookups     : component.lookups.length > 0
+                        ? component.lookups.map(l => ({ register: l.register, table: l.table }))
+                        : undefined,
+        outputs     : component.outputs.length > 0
+                        ? component.outputs.map(o => ({ register: o.register, step: o.step }))
+                        : undefined,
+        assertions  : component.assertions.map(a => ({
+            register    : a.register,
+            step        : a.step,
+            value       : (typeof a.value === 'bigint') ? encodeBigInt(a.value) : { input: a.value.input },
+            aux         : a.aux
+        }))
+    };
+}
+
+function encodeStaticRegister(register: StaticRegister): StaticRegisterJson {
+    if (register instanceof InputRegister) {
+        return {
+            type    : 'input',
+            scope   : register.secret ? 'secret' : 'public',
+            binary  : register.binary,
+            master  : register.master ? { relation: register.master.relation, index: register.master.index } : undefined,
+            steps   : register.steps,
+            offset  : register.offset,
+            handle  : register.handle
+        };
+    }
+    else if (register instanceof MaskRegister) {
+        return { type: 'mask', source: register.source, inverted: register.inverted, handle: register.handle };
+    }
+    else if (register instanceof CyclicRegister) {
+        return { type: 'cycle', values: encodeSequence(register.values), handle: register.handle };
+    }
+    else {
+        throw new Error(errors.invalidRegister(register));
+    }
+}
+
+function encodeSequence(values: CyclicRegister['values']): HexString[] | ValueSequenceJson {
+    if (Array.isArray(values)) {
+        return values.map(encodeBigInt);
+    }
+    else if (values instanceof PrngSequence) {
+        return { type: 'prng', method: values.method, seed: `0x${values.seed.toString('hex')}`, length: values.length };
+    }
+    else if (values instanceof PowerSequence) {
+        return { type: 'power', base: encodeBigInt(values.base), length: values.length };
+    }
+    else if (values instanceof SelectorSequence) {
+        return { type: 'selector', position: values.position, length: values.length };
+    }
+    else if (values instanceof RangeSequence) {
+        return { type: 'range', start: encodeBigInt(values.start), length: values.length };
+    }
+    else if (values instanceof ConstantSequence) {
+        return { type: 'constant', index: values.index, row: values.row };
+    }
+    else {
+        throw new Error(errors.invalidSequence(values));
+    }
+}
+
+function encodeBody(body: Body): ProcedureJson {
+    return {
+        params      : body.params.map(encodeDeclaration),
+        locals      : body.locals.map(encodeDeclaration),
+        statements  : body.statements.map(s => ({
+            target  : s.target,
+            handle  : s.handle,
+            value   : encoder.visit(s.expression)
+        })),
+        result      : encoder.visit(body.result)
+    };
+}
+
+function encodeDeclaration(declaration: Parameter | LocalVariable): DeclarationJson {
+    return { handle: declaration.handle, dimensions: declaration.dimensions };
+}
+
+function encodeValue(value: bigint | bigint[] | bigint[][]): ValueJson {
+    if (typeof value === 'bigint') return encodeBigInt(value);
+    return (value as any[]).map(element => (typeof element === 'bigint')
+        ? encodeBigInt(element)
+        : (element as bigint[]).map(encodeBigInt)) as ValueJson;
+}
+
+function encodeBigInt(value: bigint): HexString {
+    return `0x${value.toString(16)}`;
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    invalidRegister : (r: any) => `cannot export static register: ${r} is not a supported register type`,
+    invalidSequence : (v: any) => `cannot export cyclic register values: ${v} is not a supported value sequence`
+};
\ No newline at end of file
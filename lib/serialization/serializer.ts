@@ -0,0 +1,392 @@
+// IMPORTS
+// ================================================================================================
+import { AirSchema } from "../AirSchema";
+import { AirComponent } from "../AirComponent";
+import { AirProcedure, AirFunction, Parameter, LocalVariable, StoreOperation } from "../procedures";
+import {
+    Expression, ExpressionVisitor, LiteralValue, BinaryOperation, UnaryOperation, SelectExpression,
+    MakeVector, GetVectorElement, SliceVector, ConcatVectors, RotateVector, ReverseVector, RepeatVector, MakeMatrix,
+    GetMatrixElement, GetMatrixRow, GetMatrixColumn, TransposeMatrix, ComposeBits, CheckBits, LoadExpression,
+    CallExpression, Dimensions
+} from "../expressions";
+import {
+    InputRegister, MaskRegister, CyclicRegister, PrngSequence, PowerSequence, SelectorSequence,
+    RangeSequence, ConstantSequence
+} from "../registers";
+import { ExtensionField } from "../fields";
+import { BufferWriter } from "./buffers";
+import {
+    MAGIC, VERSION, FIELD_TYPES, VALUE_TYPES, EXPRESSION_TYPES, BINARY_OPERATIONS, UNARY_OPERATIONS,
+    LOAD_SOURCES, REGISTER_TYPES, MASTER_RELATIONS, SEQUENCE_TYPES, ASSERTION_VALUES
+} from "./constants";
+
+// EXPRESSION SERIALIZER
+// ================================================================================================
+class ExpressionSerializer extends ExpressionVisitor<void> {
+
+    // LITERALS
+    // --------------------------------------------------------------------------------------------
+    literalValue(e: LiteralValue, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'literal');
+        writeValue(e.value, writer);
+    }
+
+    // OPERATIONS
+    // --------------------------------------------------------------------------------------------
+    binaryOperation(e: BinaryOperation, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'binary');
+        writer.writeTag(BINARY_OPERATIONS, e.operation);
+        this.visit(e.lhs, writer);
+        this.visit(e.rhs, writer);
+    }
+
+    unaryOperation(e: UnaryOperation, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'unary');
+        writer.writeTag(UNARY_OPERATIONS, e.operation);
+        this.visit(e.operand, writer);
+    }
+
+    selectExpression(e: SelectExpression, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'select');
+        this.visit(e.condition, writer);
+        this.visit(e.onTrue, writer);
+        this.visit(e.onFalse, writer);
+    }
+
+    // VECTORS AND MATRIXES
+    // --------------------------------------------------------------------------------------------
+    makeVector(e: MakeVector, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'vector');
+        writer.writeUInt(e.elements.length);
+        e.elements.forEach(element => this.visit(element, writer));
+    }
+
+    getVectorElement(e: GetVectorElement, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'get');
+        this.visit(e.source, writer);
+        writer.writeUInt(e.index);
+    }
+
+    sliceVector(e: SliceVector, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'slice');
+        this.visit(e.source, writer);
+        writer.writeUInt(e.start);
+        writer.writeUInt(e.end);
+    }
+
+    concatVectors(e: ConcatVectors, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'concat');
+        writer.writeUInt(e.elements.length);
+        e.elements.forEach(element => this.visit(element, writer));
+    }
+
+    rotateVector(e: RotateVector, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'rotate');
+        this.visit(e.source, writer);
+        writer.writeInt(e.shift);
+    }
+
+    reverseVector(e: ReverseVector, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'reverse');
+        this.visit(e.source, writer);
+    }
+
+    repeatVector(e: RepeatVector, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'repeat');
+        this.visit(e.source, writer);
+        writer.writeUInt(e.count);
+    }
+
+    makeMatrix(e: MakeMatrix, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'matrix');
+        writer.writeUInt(e.elements.length);
+        writer.writeUInt(e.elements[0].length);
+        e.elements.forEach(row => row.forEach(element => this.visit(element, writer)));
+    }
+
+    getMatrixElement(e: GetMatrixElement, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'get.element');
+        this.visit(e.source, writer);
+        writer.writeUInt(e.row);
+        writer.writeUInt(e.column);
+    }
+
+    getMatrixRow(e: GetMatrixRow, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'get.row');
+        this.visit(e.source, writer);
+        writer.writeUInt(e.index);
+    }
+
+    getMatrixColumn(e: GetMatrixColumn, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'get.col');
+        this.visit(e.source, writer);
+        writer.writeUInt(e.index);
+    }
+
+    transposeMatrix(e: TransposeMatrix, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'transpose');
+        this.visit(e.source, writer);
+    }
+
+    composeBits(e: ComposeBits, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'bits.compose');
+        this.visit(e.source, writer);
+    }
+
+    checkBits(e: CheckBits, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'bits.check');
+        this.visit(e.source, writer);
+    }
+
+    // LOAD AND CALL
+    // --------------------------------------------------------------------------------------------
+    loadExpression(e: LoadExpression, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'load');
+        writer.writeTag(LOAD_SOURCES, e.source);
+        writer.writeUInt(e.index);
+    }
+
+    callExpression(e: CallExpression, writer: BufferWriter): void {
+        writer.writeTag(EXPRESSION_TYPES, 'call');
+        writer.writeUInt(e.index);
+        writer.writeUInt(e.params.length);
+        e.params.forEach(param => this.visit(param, writer));
+    }
+}
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+const serializer = new ExpressionSerializer();
+
+/**
+ * Serializes the schema into a buffer. The buffer starts with a header (4 magic bytes followed by
+ * a format version byte) followed by the field, constants, functions, and components of the schema
+ * in the order of their declaration.
+ */
+export function serializeSchema(schema: AirSchema): Buffer {
+    const writer = new BufferWriter();
+    MAGIC.forEach(byte => writer.writeByte(byte));
+    writer.writeByte(VERSION);
+
+    // field
+    const field = schema.field;
+    if (field instanceof ExtensionField) {
+        writer.writeTag(FIELD_TYPES, 'extension');
+        writer.writeBigInt(field.characteristic);
+        writer.writeUInt(field.extensionDegree);
+        writer.writeUInt(field.polynomial.length);
+        field.polynomial.forEach(coefficient => writer.writeBigInt(coefficient));
+    }
+    else {
+        writer.writeTag(FIELD_TYPES, 'prime');
+        writer.writeBigInt(field.characteristic);
+    }
+
+    // constants
+    writer.writeUInt(schema.constants.length);
+    schema.constants.forEach(constant => {
+        writer.writeOptionalString(constant.handle);
+        writeValue(constant.value.value, writer);
+    });
+
+    // functions
+    writer.writeUInt(schema.functions.length);
+    schema.functions.forEach(func => {
+        writer.writeOptionalString(func.handle);
+        writeDimensions(func.dimensions, writer);
+        writeBody(func, writer);
+    });
+
+    // components
+    writer.writeUInt(schema.components.size);
+    schema.components.forEach(component => writeComponent(component, writer));
+
+    return writer.toBuffer();
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function writeComponent(component: AirComponent, writer: BufferWriter): void {
+    writer.writeString(component.name);
+    const handles = component.traceRegisterHandles;
+    writer.writeBoolean(handles !== undefined);
+    if (handles) {
+        writer.writeUInt(handles.length);
+        handles.forEach(handle => writer.writeString(handle));
+    }
+    else {
+        writer.writeUInt(component.traceRegisterCount);
+    }
+    writer.writeUInt(component.constraintCount);
+    writer.writeUInt(component.cycleLength);
+    writer.writeUInt(component.frameSize);
+
+    // static registers
+    writer.writeUInt(component.staticRegisters.length);
+    for (let register of component.staticRegisters) {
+        if (register instanceof InputRegister) {
+            writer.writeTag(REGISTER_TYPES, 'input');
+            writer.writeBoolean(register.secret);
+            writer.writeBoolean(register.binary);
+            writer.writeTag(MASTER_RELATIONS, register.master ? register.master.relation : 'none');
+            if (register.master) writer.writeUInt(register.master.index);
+            writer.writeUInt(register.steps === undefined ? 0 : register.steps + 1);
+            writer.writeInt(register.offset);
+        }
+        else if (register instanceof MaskRegister) {
+            writer.writeTag(REGISTER_TYPES, 'mask');
+            writer.writeUInt(register.source);
+            writer.writeBoolean(register.inverted);
+        }
+        else if (register instanceof CyclicRegister) {
+            writer.writeTag(REGISTER_TYPES, 'cycle');
+            writeSequence(register.values, writer);
+        }
+        writer.writeOptionalString(register.handle);
+    }
+
+    // procedures
+    writeBody(component.traceInitializer, writer);
+    writeBody(component.transitionFunction, writer);
+    const auxiliary = component.auxiliaryFunction;
+    writer.writeBoolean(auxiliary !== undefined);
+    if (auxiliary) {
+        const values = component.auxiliaryInitialValues!;
+        writer.writeUInt(values.length);
+        values.forEach(value => writer.writeBigInt(value));
+        writeBody(auxiliary, writer);
+    }
+    writeBody(component.constraintEvaluator, writer);
+
+    // permutation arguments
+    writer.writeUInt(component.permutations.length);
+    component.permutations.forEach(permutation => {
+        writer.writeUInt(permutation.left.length);
+        permutation.left.forEach(register => writer.writeUInt(register));
+        writer.writeUInt(permutation.right.length);
+        permutation.right.forEach(register => writer.writeUInt(register));
+    });
+
+    // lookup arguments
+    writer.writeUInt(component.lookups.length);
+    component.lookups.forEach(lookup => {
+        writer.writeUInt(lookup.register);
+        writer.writeUInt(lookup.table);
+    });
+
+    // outputs
+    writer.writeUInt(component.outputs.length);
+    component.outputs.forEach(output => {
+        writer.writeUInt(output.register);
+        writer.writeInt(output.step);
+    });
+
+    // assertions
+    writer.writeUInt(component.assertions.length);
+    component.assertions.forEach(assertion => {
+        writer.writeBoolean(assertion.aux === true);
+        writer.writeUInt(assertion.register);
+        writer.writeInt(assertion.step);
+        if (typeof assertion.value === 'bigint') {
+            writer.writeTag(ASSERTION_VALUES, 'literal');
+            writer.writeBigInt(assertion.value);
+        }
+        else {
+            writer.writeTag(ASSERTION_VALUES, 'input');
+            writer.writeUInt(assertion.value.input);
+        }
+    });
+}
+
+function writeSequence(values: CyclicRegister['values'], writer: BufferWriter): void {
+    if (Array.isArray(values)) {
+        writer.writeTag(SEQUENCE_TYPES, 'values');
+        writer.writeUInt(values.length);
+        values.forEach(value => writer.writeBigInt(value));
+    }
+    else if (values instanceof PrngSequence) {
+        writer.writeTag(SEQUENCE_TYPES, 'prng');
+        writer.writeString(values.method);
+        writer.writeBigInt(BigInt(`0x${values.seed.toString('hex')}`));
+        writer.writeUInt(values.length);
+    }
+    else if (values instanceof PowerSequence) {
+        writer.writeTag(SEQUENCE_TYPES, 'power');
+        writer.writeBigInt(values.base);
+        writer.writeUInt(values.length);
+    }
+    else if (values instanceof SelectorSequence) {
+        writer.writeTag(SEQUENCE_TYPES, 'selector');
+        writer.writeInt(values.position);
+        writer.writeUInt(values.length);
+    }
+    else if (values instanceof RangeSequence) {
+        writer.writeTag(SEQUENCE_TYPES, 'range');
+        writer.writeBigInt(values.start);
+        writer.writeUInt(values.length);
+    }
+    else if (values instanceof ConstantSequence) {
+        writer.writeTag(SEQUENCE_TYPES, 'constant');
+        writer.writeUInt(values.index);
+        writer.writeUInt(values.row === undefined ? 0 : values.row + 1);
+    }
+    else {
+        throw new Error(errors.invalidSequence(values));
+    }
+}
+
+/**
+ * Writes parameters, local variables, statements, and the result of a function or a procedure.
+ */
+function writeBody(body: AirFunction | AirProcedure, writer: BufferWriter): void {
+    writeDeclarations(body.params, writer);
+    writeDeclarations(body.locals, writer);
+    writer.writeUInt(body.statements.length);
+    body.statements.forEach(statement => writeStatement(statement, writer));
+    serializer.visit(body.result, writer);
+}
+
+function writeDeclarations(declarations: ReadonlyArray<Parameter | LocalVariable>, writer: BufferWriter): void {
+    writer.writeUInt(declarations.length);
+    declarations.forEach(declaration => {
+        writer.writeOptionalString(declaration.handle);
+        writeDimensions(declaration.dimensions, writer);
+    });
+}
+
+function writeStatement(statement: StoreOperation, writer: BufferWriter): void {
+    writer.writeUInt(statement.target);
+    writer.writeBoolean(statement.handle !== undefined);
+    serializer.visit(statement.expression, writer);
+}
+
+function writeDimensions(dimensions: Dimensions, writer: BufferWriter): void {
+    writer.writeUInt(dimensions[0]);
+    writer.writeUInt(dimensions[1]);
+}
+
+function writeValue(value: bigint | bigint[] | bigint[][], writer: BufferWriter): void {
+    if (typeof value === 'bigint') {
+        writer.writeTag(VALUE_TYPES, 'scalar');
+        writer.writeBigInt(value);
+    }
+    else if (Array.isArray(value[0])) {
+        const rows = value as bigint[][];
+        writer.writeTag(VALUE_TYPES, 'matrix');
+        writer.writeUInt(rows.length);
+        writer.writeUInt(rows[0].length);
+        rows.forEach(row => row.forEach(element => writer.writeBigInt(element)));
+    }
+    else {
+        const elements = value as bigint[];
+        writer.writeTag(VALUE_TYPES, 'vector');
+        writer.writeUInt(elements.length);
+        elements.forEach(element => writer.writeBigInt(element));
+    }
+}
+
+// ERRORS
+// ================================================================================================
+const errors = {
+    invalidSequence : (v: any) => `cannot serialize cyclic register values: ${v} is not a supported value sequence`
+};
\ No newline at end of file
@@ -1,6 +1,5 @@
 // IMPORTS
 // ================================================================================================
-import * as crypto from 'crypto';
 import { FiniteField, Matrix } from "@guildofweavers/galois";
 import { AirComponent } from './AirComponent';
 
@@ -37,19 +36,6 @@ export function validateHandle(handle: string): string {
     return handle;
 }
 
-// PRNG FUNCTIONS
-// ================================================================================================
-export function sha256prng(seed: Buffer, count: number, field: FiniteField): bigint[] {
-    const values: bigint[] = [];
-    const vSeed = Buffer.concat([Buffer.from([0, 0]), seed]);
-    for (let i = 0; i < count; i++) {
-        vSeed.writeUInt16BE(i + 1, 0);
-        let value = crypto.createHash('sha256').update(vSeed).digest();
-        values[i] = field.add(BigInt(`0x${value.toString('hex')}`), 0n);
-    }
-    return values;
-}
-
 // PRINTING
 // ================================================================================================
 export function printMatrix(trace: Matrix, firstHeader: string, colPrefix: string): void {
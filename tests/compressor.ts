@@ -0,0 +1,20 @@
+import { ProcedureName } from '@guildofweavers/air-assembly';
+import { compile, compressProcedure } from '../index';
+import { getExampleRuns, runExample, compareResults, check } from './sources';
+
+// compressing any procedure of a component must not change execution traces and constraint
+// evaluations of the component
+const procedures: ProcedureName[] = ['init', 'transition', 'evaluation'];
+for (let example of getExampleRuns()) {
+    const schema = compile(example.source);
+    const expected = runExample(schema, example);
+    for (let procedure of procedures) {
+        const compressed = compressProcedure(schema, example.component, procedure);
+        check(`${example.name} results are unchanged by compressing ${procedure}`,
+            compareResults(expected, runExample(compressed, example)));
+        check(`${example.name} source with compressed ${procedure} compiles`,
+            compile(Buffer.from(compressed.toString())).toString() === compressed.toString());
+    }
+}
+
+console.log('done!');
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { compile } from '../index';
+import { check } from './sources';
+
+// a failed store marks the local variable as set, so loading it does not report another error
+const source = `
+(module
+    (field prime 96769)
+    (export default
+        (registers 1) (constraints 1) (steps 8)
+        (init
+            (param vector 1)
+            (load.param 0))
+        (transition
+            (local scalar)
+            (store.local 0 (load.trace 0))
+            (vector (load.local 0)))
+        (evaluation
+            (sub (load.trace 1) (load.trace 0)))))
+`;
+
+try {
+    compile(Buffer.from(source), undefined, { collectErrors: true });
+    check('failed store is reported', false);
+}
+catch (error) {
+    const messages: string[] = (error.errors || []).map((e: any) => e.message);
+    check('failed store is reported', messages.some(m => /cannot store 1x0 value in local variable 0/.test(m)));
+    check('failed store is reported only once', messages.length === 1);
+}
+
+console.log('done!');
\ No newline at end of file
@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import { compile, format } from '../index';
+import { getExampleSources, check } from './sources';
+
+// comments trail expressions, lead expressions, and close lists; comments after the closing parens
+// on separate lines must not be merged
+const commented = `
+# leading comment of the module
+(module
+    (field prime 96769) # field
+    (export main
+        # registers
+        (registers 1) (constraints 1) (steps 8)
+        (init (param $seed vector 1) (load.param $seed))
+        (transition (add (load.trace 0) (scalar 1)))
+        (evaluation
+            (sub (load.trace 1) (add (load.trace 0) (scalar 1)))
+            # footer of evaluation
+        ) # end
+    ) # after export
+) # after module
+# end of file
+`;
+
+const sources = getExampleSources().map(({ name, source }) => {
+    return { name, text: (typeof source === 'string') ? fs.readFileSync(source, 'utf8') : source.toString() };
+});
+sources.push({ name: 'commented source', text: commented });
+
+for (let { name, text } of sources) {
+    const formatted = format(Buffer.from(text));
+    check(`${name} is formatted idempotently`, format(Buffer.from(formatted)) === formatted);
+    check(`${name} keeps comments`, getComments(formatted).join('\n') === getComments(text).join('\n'));
+    check(`${name} compiles to the same schema`,
+        compile(Buffer.from(formatted)).toString() === compile(Buffer.from(text)).toString());
+}
+
+const formatted = format(Buffer.from(commented)).split('\n');
+check('trailing comments stay on separate lines', formatted.every(line => line.split('#').length <= 2));
+
+console.log('done!');
+
+// HELPERS
+// ================================================================================================
+function getComments(text: string) {
+    return (text.match(/#.*$/gm) || []).map(comment => comment.trim());
+}
\ No newline at end of file
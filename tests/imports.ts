@@ -0,0 +1,13 @@
+import * as path from 'path';
+import { compile } from '../index';
+import { check } from './sources';
+
+// main module imports $g, which calls $f imported from another module, which in turn loads $rc;
+// dependencies keep their handles, so the printed module compiles back into the same module
+const schema = compile(path.join(__dirname, 'imports/main.aa'));
+const source = schema.toString();
+check('handles of transitive dependencies are kept', /\(const \$rc /.test(source) && /\(function \$f/.test(source));
+check('dependencies are referenced by handles', /\(load\.const \$rc\)/.test(source) && /\(call \$f /.test(source));
+check('printed module compiles', compile(Buffer.from(source)).toString() === source);
+
+console.log('done!');
@@ -0,0 +1,20 @@
+import * as path from 'path';
+import * as Ajv from 'ajv';
+import { compile, AirSchema } from '../index';
+import { getExampleSources, FEATURES_SOURCE, check } from './sources';
+
+// encoded schemas must conform to the published JSON schema document
+const validateJson = new Ajv().compile(require(path.join(__dirname, '../air-assembly.schema.json')));
+
+// round-trip all example sources, and the source which uses the remaining features, through JSON
+for (let { name, source } of [...getExampleSources(), FEATURES_SOURCE]) {
+    const schema = compile(source);
+    const json = JSON.stringify(schema);
+    check(`${name} conforms to the JSON schema`, validateJson(JSON.parse(json)) === true);
+
+    const copy = AirSchema.fromJSON(json);
+    const matches = (copy.toString() === schema.toString()) && (JSON.stringify(copy) === json);
+    check(`${name} round-trips through JSON`, matches);
+}
+
+console.log('done!');
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { keccak256 } from '../lib/prng/keccak';
+import { check } from './sources';
+
+// digests of the original Keccak-256 (as used by Ethereum); inputs of 135, 136 and 200 bytes cover
+// padding within the last byte of a block, padding in a separate block, and multi-block inputs
+const vectors: [string, Buffer, string][] = [
+    ['empty input',     Buffer.alloc(0),        'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470'],
+    ['abc',             Buffer.from('abc'),     '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45'],
+    ['135 bytes',       getBytes(135),          'cbdfd9dee5faad3818d6b06f95a219fd290b0e1706f6a82e5a595b9ce9faca62'],
+    ['136 bytes',       getBytes(136),          '7ce759f1ab7f9ce437719970c26b0a66ff11fe3e38e17df89cf5d29c7d7f807e'],
+    ['200 bytes',       getBytes(200),          'bfb0aa97863e797943cf7c33bb7e880bb4543f3d2703c0923c6901c2af57b890']
+];
+
+for (let [name, data, digest] of vectors) {
+    check(name, keccak256(data).toString('hex') === digest);
+}
+
+console.log('done!');
+
+// HELPERS
+// ================================================================================================
+function getBytes(length: number) {
+    const bytes = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+        bytes[i] = i % 256;
+    }
+    return bytes;
+}
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { Matrix } from '@guildofweavers/air-assembly';
+import { compile, instantiate } from '../index';
+import { check } from './sources';
+
+const source = (frameSize: number) => `
+(module
+    (field prime 96769)
+    (export default
+        (registers $a $b) (constraints 2) (steps 16) (frame ${frameSize})
+        (static
+            (cycle $t (range 0 16)))
+        (init
+            (param vector 2)
+            (load.param 0))
+        (transition
+            (vector (add (get (load.trace 0) 0) (scalar 1)) (get (load.trace 0) 1)))
+        (evaluation
+            (vector
+                (sub (get (load.trace 1) 0) (add (get (load.trace 0) 0) (scalar 1)))
+                (sub (get (load.trace 1) 1) (get (load.trace 0) 1))))
+        (lookup (trace $a) (table $t))
+        (lookup (trace $b) (table $t))))
+`;
+
+const steps = 16, extensionFactor = 16;
+const randomness = [7n, 11n];
+
+for (let frameSize of [2, 3]) {
+    const air = instantiate(compile(Buffer.from(source(frameSize))), { extensionFactor });
+
+    // closing constraints of both lookups read the table at all frame rows except the first one
+    const closingRefs = [3, 5].map(i => air.constraints[i].staticRefs.join(','));
+    const expectedRefs = new Array(frameSize - 1).fill(0).map((_, i) => i + 1).join(',');
+    check(`closing constraints reference table rows (frame size ${frameSize})`,
+        closingRefs.every(refs => refs === expectedRefs));
+
+    // $a takes all values of the table, including the value at the last step
+    checkHonestLookup(`values in the table (frame size ${frameSize})`, [0n, 3n]);
+
+    // $a reaches 16 at the last step
+    try {
+        air.initProvingContext([], [1n, 3n]).generateExecutionTrace();
+        check(`value not in the table (frame size ${frameSize})`, false);
+    }
+    catch (error) {
+        check(`value not in the table (frame size ${frameSize})`, /value 16 is not in the table/.test(error.message));
+    }
+
+    // $a is 0 at all steps except the last one, where it is 99; multiplicities account only for
+    // the first rows, and the auxiliary trace is built by hand to satisfy transition constraints
+    const forgedTrace = air.field.newMatrixFrom([
+        new Array<bigint>(steps - 1).fill(0n).concat(99n),
+        new Array<bigint>(steps).fill(3n),
+        [BigInt(steps - 1)].concat(new Array<bigint>(steps - 1).fill(0n)),
+        [0n, 0n, 0n, BigInt(steps)].concat(new Array<bigint>(steps - 4).fill(0n))
+    ]);
+    const forgedAuxTrace = air.field.newMatrixFrom([
+        ...buildAuxiliaryColumns(forgedTrace, 0, 2, randomness[0]),
+        ...buildAuxiliaryColumns(forgedTrace, 1, 3, randomness[1])
+    ]);
+    const constraintsHold = evaluateConstraints(forgedTrace, forgedAuxTrace).every(qValues => {
+        // constraints of the arguments follow the 2 declared constraints
+        return qValues.slice(2).every(q => q === 0n);
+    });
+    check(`forged value not in the table is rejected (frame size ${frameSize})`,
+        !constraintsHold || !checkBoundaryConstraints(forgedAuxTrace));
+
+    // HELPERS
+    // --------------------------------------------------------------------------------------------
+    function checkHonestLookup(name: string, seed: bigint[]) {
+        const pContext = air.initProvingContext([], seed);
+        const trace = pContext.generateExecutionTrace();
+        const auxTrace = pContext.generateAuxiliaryTrace(trace, randomness);
+        const tPolys = air.field.interpolateRoots(pContext.executionDomain, trace);
+        const uPolys = air.field.interpolateRoots(pContext.executionDomain, auxTrace);
+        const cEvaluations = pContext.evaluateTransitionConstraints(tPolys, uPolys, randomness);
+        const compositionFactor = cEvaluations.colCount / steps;
+
+        let passed = checkBoundaryConstraints(auxTrace);
+        evaluateConstraints(trace, auxTrace).forEach((qValues, step) => {
+            qValues.forEach((q, i) => {
+                if (q !== 0n || q !== cEvaluations.getValue(i, step * compositionFactor)) passed = false;
+            });
+        });
+        check(name, passed);
+    }
+
+    function evaluateConstraints(trace: Matrix, auxTrace: Matrix) {
+        const vContext = air.initVerificationContext();
+        const result: bigint[][] = [];
+        for (let step = 0; step < steps - frameSize + 1; step++) {
+            const x = air.field.exp(vContext.rootOfUnity, BigInt(step * extensionFactor));
+            const rValues = getRow(trace, step), nValues = getRow(trace, step + 1);
+            const wValues: bigint[][] = [], uValues: bigint[][] = [];
+            for (let offset = 0; offset < frameSize; offset++) {
+                if (offset > 1) wValues.push(getRow(trace, step + offset));
+                uValues.push(getRow(auxTrace, step + offset));
+            }
+            result.push(vContext.evaluateConstraintsAt(x, rValues, nValues, [], wValues, uValues, randomness));
+        }
+        return result;
+    }
+
+    function checkBoundaryConstraints(auxTrace: Matrix) {
+        return air.initVerificationContext().boundaryConstraints
+            .filter(c => c.aux)
+            .every(c => auxTrace.getValue(c.register, c.step) === c.value);
+    }
+
+    function buildAuxiliaryColumns(trace: Matrix, register: number, multiplicities: number, gamma: bigint) {
+        const f = air.field;
+        const terms = new Array<bigint>(steps);
+        for (let step = 0; step < steps; step++) {
+            const value = f.inv(f.add(trace.getValue(register, step), gamma));
+            const entry = f.div(trace.getValue(multiplicities, step), f.add(BigInt(step), gamma));
+            terms[step] = f.sub(value, entry);
+        }
+
+        const sums = [0n], closing = new Array<bigint>(steps);
+        for (let step = 0; step < steps - 1; step++) {
+            sums.push(f.add(sums[step], terms[step]));
+        }
+        for (let step = 0; step < steps; step++) {
+            closing[step] = sums[(step + 1) % steps];
+            for (let offset = 1; offset < frameSize; offset++) {
+                closing[step] = f.add(closing[step], terms[(step + offset) % steps]);
+            }
+        }
+        return [sums, closing];
+    }
+}
+
+console.log('done!');
+
+// HELPERS
+// ================================================================================================
+function getRow(matrix: Matrix, column: number) {
+    const values: bigint[] = [];
+    for (let i = 0; i < matrix.rowCount; i++) {
+        values.push(matrix.getValue(i, column % matrix.colCount));
+    }
+    return values;
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { compile, optimize } from '../index';
+import { getExampleRuns, runExample, compareResults, check } from './sources';
+
+// optimized schemas must produce the same execution traces and constraint evaluations as the
+// original schemas, and their source code must compile back into the same schemas
+for (let example of getExampleRuns()) {
+    const schema = compile(example.source);
+    const optimized = optimize(schema);
+    check(`${example.name} results are unchanged`, compareResults(runExample(schema, example), runExample(optimized, example)));
+    check(`${example.name} optimized source compiles`,
+        compile(Buffer.from(optimized.toString())).toString() === optimized.toString());
+}
+
+console.log('done!');
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { Matrix } from '@guildofweavers/air-assembly';
+import { compile, instantiate } from '../index';
+import { check } from './sources';
+
+const source = (permutation: string) => `
+(module
+    (field prime 96769)
+    (export default
+        (registers $a $b $c $d) (constraints 4) (steps 16)
+        (init
+            (param vector 4)
+            (load.param 0))
+        (transition
+            (vector (get (load.trace 0) 1) (get (load.trace 0) 2) (get (load.trace 0) 3) (get (load.trace 0) 0)))
+        (evaluation
+            (vector
+                (sub (get (load.trace 1) 0) (get (load.trace 0) 1))
+                (sub (get (load.trace 1) 1) (get (load.trace 0) 2))
+                (sub (get (load.trace 1) 2) (get (load.trace 0) 3))
+                (sub (get (load.trace 1) 3) (get (load.trace 0) 0))))
+        ${permutation}
+        (permutation (cols $a) (cols $c))))
+`;
+
+const schema = compile(Buffer.from(source('(permutation (cols $a $b) (cols $b $c))')));
+
+const steps = 16, extensionFactor = 16;
+const air = instantiate(schema, { extensionFactor });
+const randomness = [7n, 11n, 13n, 17n];
+
+// registers are rotations of each other with a period of 4 steps, so pairs ($a, $b) and ($b, $c)
+// are permutations
+const pContext = air.initProvingContext([], [3n, 5n, 7n, 9n]);
+const trace = pContext.generateExecutionTrace();
+const auxTrace = pContext.generateAuxiliaryTrace(trace, randomness);
+const tPolys = air.field.interpolateRoots(pContext.executionDomain, trace);
+const uPolys = air.field.interpolateRoots(pContext.executionDomain, auxTrace);
+const cEvaluations = pContext.evaluateTransitionConstraints(tPolys, uPolys, randomness);
+
+const vContext = air.initVerificationContext(pContext.inputShapes);
+const compositionFactor = cEvaluations.colCount / steps;
+
+let matched = true, zeroed = true;
+evaluateConstraints(trace, auxTrace).forEach((qValues, step) => {
+    qValues.forEach((q, i) => {
+        if (q !== cEvaluations.getValue(i, step * compositionFactor)) matched = false;
+        if (q !== 0n) zeroed = false;
+    });
+});
+check('prover and verifier evaluations match', matched);
+check('constraints hold for a permutation', zeroed);
+check('boundary constraints hold for a permutation', vContext.boundaryConstraints
+    .filter(c => c.aux)
+    .every(c => auxTrace.getValue(c.register, c.step) === c.value));
+
+// the value of $a at the last step is replaced, while the auxiliary trace is kept; constraints of
+// the arguments follow the 4 declared constraints, and must not hold at some step
+const registers = getRegisters(trace);
+registers[0][steps - 1] = 42n;
+const tampered = air.field.newMatrixFrom(registers);
+check('tampered last row is rejected', evaluateConstraints(tampered, auxTrace)
+    .some(qValues => qValues.slice(4).some(q => q !== 0n)));
+
+// pairs ($a, $b) and ($c, $b) of the same trace are not permutations of each other
+const bad = compile(Buffer.from(source('(permutation (cols $a $b) (cols $c $b))')));
+const badContext = instantiate(bad, { extensionFactor }).initProvingContext([], [3n, 5n, 7n, 9n]);
+try {
+    badContext.generateAuxiliaryTrace(badContext.generateExecutionTrace(), randomness);
+    check('non-permutation is rejected', false);
+}
+catch (error) {
+    check('non-permutation is rejected', /didn't hold/.test(error.message));
+}
+
+console.log('done!');
+
+// HELPERS
+// ================================================================================================
+function evaluateConstraints(trace: Matrix, auxTrace: Matrix) {
+    const result: bigint[][] = [];
+    for (let step = 0; step < steps - 1; step++) {
+        const x = air.field.exp(vContext.rootOfUnity, BigInt(step * extensionFactor));
+        const rValues = getRow(trace, step), nValues = getRow(trace, step + 1);
+        const uValues = [getRow(auxTrace, step), getRow(auxTrace, step + 1)];
+        result.push(vContext.evaluateConstraintsAt(x, rValues, nValues, [], [], uValues, randomness));
+    }
+    return result;
+}
+
+function getRegisters(matrix: Matrix) {
+    const registers: bigint[][] = [];
+    for (let i = 0; i < matrix.rowCount; i++) {
+        const values: bigint[] = [];
+        for (let j = 0; j < matrix.colCount; j++) {
+            values.push(matrix.getValue(i, j));
+        }
+        registers.push(values);
+    }
+    return registers;
+}
+
+function getRow(matrix: Matrix, column: number) {
+    const values: bigint[] = [];
+    for (let i = 0; i < matrix.rowCount; i++) {
+        values.push(matrix.getValue(i, column));
+    }
+    return values;
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { CyclicRegister } from '@guildofweavers/air-assembly';
+import { compile, registerPrng, prng } from '../index';
+import { check } from './sources';
+
+// keywords can be used as names of PRNG methods and components
+registerPrng('range', (seed, count, field) => prng.sha256(seed, count, field).reverse());
+
+const schema = compile(Buffer.from(`
+(module
+    (field prime 96769)
+    (export trace
+        (registers 1) (constraints 1) (steps 8)
+        (static
+            (cycle (prng range 0x01 8))
+            (cycle (prng sha256 0x01 8)))
+        (init
+            (param vector 1)
+            (load.param 0))
+        (transition
+            (slice (load.static 0) 0 0))
+        (evaluation
+            (sub (load.trace 1) (slice (load.static 0) 0 0)))))
+`));
+
+const component = schema.components.get('trace');
+check('component named with a keyword compiles', component !== undefined);
+
+const [custom, builtIn] = component!.staticRegisters as CyclicRegister[];
+check('keyword-named PRNG method generates values',
+    custom.getValues().join() === builtIn.getValues().reverse().join());
+check('keyword names are printed as they were declared',
+    compile(Buffer.from(schema.toString())).toString() === schema.toString());
+
+console.log('done!');
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { compile, serialize, deserialize } from '../index';
+import { MAGIC, VALUE_TYPES } from '../lib/serialization/constants';
+import { BufferWriter } from '../lib/serialization/buffers';
+import { getExampleSources, FEATURES_SOURCE, check } from './sources';
+
+for (let { name, source } of [...getExampleSources(), FEATURES_SOURCE]) {
+    const schema = compile(source);
+    const bytes = serialize(schema);
+    check(`${name} is serialized deterministically`, serialize(compile(source)).equals(bytes));
+    check(`${name} is reproduced by a round trip`, serialize(deserialize(bytes)).equals(bytes));
+
+    // malformed buffers must be rejected
+    for (let length of [MAGIC.length + 1, Math.floor(bytes.length / 2), bytes.length - 1]) {
+        check(`${name} truncated to ${length} bytes is rejected`,
+            throws(() => deserialize(bytes.slice(0, length)), /unexpected end of buffer/));
+    }
+    check(`${name} with a trailing byte is rejected`,
+        throws(() => deserialize(Buffer.concat([bytes, Buffer.from([0])])), /unexpected trailing bytes/));
+
+    const badMagic = Buffer.from(bytes);
+    badMagic[0] ^= 0xFF;
+    check(`${name} with a bad magic is rejected`,
+        throws(() => deserialize(badMagic), /does not contain a serialized schema/));
+
+    // the version follows the magic
+    const wrongVersion = Buffer.from(bytes);
+    wrongVersion[MAGIC.length]++;
+    check(`${name} with a wrong version is rejected`,
+        throws(() => deserialize(wrongVersion), /format version \d+ is not supported/));
+
+    // element counts must fit into the remaining bytes, and values must not be empty
+    for (let constant of schema.constants) {
+        const value = constant.value.value;
+        if (!Array.isArray(value) || !Array.isArray(value[0])) continue;
+        const matrix = value as bigint[][];
+        check(`${name} with an oversized matrix is rejected`,
+            throws(() => deserialize(replaceValue(bytes, matrix, 'matrix', [2**20, matrix[0].length])), /exceeds remaining bytes/));
+        check(`${name} with a zero-width matrix is rejected`,
+            throws(() => deserialize(replaceValue(bytes, matrix, 'matrix', [2**35, 0])), /matrix dimensions \d+x0 are invalid/));
+        check(`${name} with an empty vector is rejected`,
+            throws(() => deserialize(replaceValue(bytes, matrix, 'vector', [0])), /vector must have at least one element/));
+    }
+}
+
+console.log('done!');
+
+// HELPERS
+// ================================================================================================
+function throws(action: () => any, message: RegExp) {
+    try {
+        action();
+        return false;
+    }
+    catch (error) {
+        return message.test(error.message);
+    }
+}
+
+/**
+ * Replaces the encoding of a matrix value in the buffer with a header of the specified value type
+ * and element counts; elements of the value are dropped.
+ */
+function replaceValue(bytes: Buffer, value: bigint[][], type: string, counts: number[]) {
+    const original = new BufferWriter();
+    original.writeTag(VALUE_TYPES, 'matrix');
+    original.writeUInt(value.length);
+    original.writeUInt(value[0].length);
+    value.forEach(row => row.forEach(element => original.writeBigInt(element)));
+    const encoded = original.toBuffer();
+    const offset = bytes.indexOf(encoded);
+
+    const header = new BufferWriter();
+    header.writeTag(VALUE_TYPES, type);
+    counts.forEach(count => header.writeUInt(count));
+    return Buffer.concat([bytes.slice(0, offset), header.toBuffer(), bytes.slice(offset + encoded.length)]);
+}
\ No newline at end of file
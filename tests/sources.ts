@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Matrix } from '@guildofweavers/air-assembly';
+import { AirSchema, instantiate } from '../index';
+
+// INTERFACES
+// ================================================================================================
+export interface ExampleSource {
+    readonly name   : string;
+    readonly source : string | Buffer;
+}
+
+export interface ExampleRun extends ExampleSource {
+    readonly component  : string;
+    readonly inputs     : any[];
+    readonly seed?      : bigint[];
+}
+
+export interface ExampleResult {
+    readonly trace          : Matrix;
+    readonly evaluations    : Matrix;
+}
+
+// CONSTANTS
+// ================================================================================================
+// inputs of the examples, keyed by names of example sources without extensions
+const EXAMPLE_INPUTS: { [name: string]: { component: string, inputs: any[], seed?: bigint[] } } = {
+    'examples/ec/pointmul': { component: 'default', inputs: [
+        [19277929113566293071110308034699488026831934219452440156649784352033n],
+        [19926808758034470970197974370888749184205991990603949537637343198772n],
+        [toBits(21628546220445634706341881427918508772248629391536891476641575405363n)]
+    ]},
+    'examples/mimc'                 : { component: 'mimc',      inputs: [], seed: [3n] },
+    'examples/mimcWithInputs'       : { component: 'mimc',      inputs: [[3n, 4n, 5n, 6n]] },
+    'examples/poseidon'             : { component: 'poseidon',  inputs: [], seed: [42n, 43n] },
+    'examples/poseidonWithInputs'   : { component: 'poseidon',  inputs: [[42n], [43n]] }
+};
+
+// source which uses language features not covered by the examples; used by tests of schema encodings
+export const FEATURES_SOURCE: ExampleSource = { name: 'inline/features', source: Buffer.from(`
+(module
+    (field extension 18446744069414584321 2 18446744069414584314 0)
+    (const $alpha scalar 3)
+    (const $rc vector 1 2 3 4)
+    (const $m matrix (1 2) (3 4))
+    (function $mix
+        (result vector 2)
+        (param $state vector 2) (param $mds matrix 2 2)
+        (local $t matrix 2 2)
+        (store.local $t (transpose (load.param $mds)))
+        (add
+            (prod (load.local $t) (load.param $state))
+            (concat
+                (vector (get (load.local $t) 0 1))
+                (slice (reverse (rotate (get.col (load.local $t) 1) -1)) 0 0))))
+    (export default
+        (registers $a $b $c $d) (constraints 4) (steps 16) (frame 3)
+        (static
+            (input public binary (steps 16))
+            (mask inverted (input 0))
+            (cycle $sel (selector -1 16))
+            (cycle $table (range 0 16))
+            (cycle (load.const $rc))
+            (cycle (load.const $m) row 1)
+            (cycle (power 2 4))
+            (cycle (prng blake2s 0x01 4)))
+        (init
+            (param vector 4)
+            (load.param 0))
+        (transition
+            (local vector 2)
+            (store.local 0 (call $mix (slice (load.trace 0) 0 1) (load.const $m)))
+            (concat
+                (load.local 0)
+                (vector
+                    (bits.compose (repeat (load.register $c) 2))
+                    (select (get (load.static 0) 2) (load.register $d) (scalar 0)))))
+        (auxiliary
+            (init 1)
+            (param $z vector 1)
+            (vector
+                (mul (get (load.aux 0) 0) (add (get (load.trace 0) 0) (get (load.param $z) 0)))))
+        (evaluation
+            (param vector 1)
+            (vector
+                (sub (get (load.aux 1) 0) (mul (get (load.aux 0) 0) (add (get (load.trace 0) 0) (get (load.param 0) 0))))
+                (bits.check (get (load.trace 2) 3))
+                (sub (get (load.trace 1) 2) (exp (get (load.trace 0) 2) (load.const $alpha)))
+                (sub (get (load.trace 1) 3) (get (load.trace 0) 3))))
+        (permutation (cols $a $b) (cols $c $d))
+        (lookup (trace $d) (table $table))
+        (output $a -1)
+        (assertions
+            (assert $b 0 (input 0))
+            (assert $c -1 5)
+            (assert aux 0 -1 1))))
+`)};
+
+// PUBLIC FUNCTIONS
+// ================================================================================================
+/**
+ * Returns paths of all AirAssembly files from examples, as well as sources defined inline in example
+ * scripts; scripts are read with the extension of this file so that tests work both for TypeScript
+ * sources and for compiled JavaScript.
+ */
+export function getExampleSources(): ExampleSource[] {
+    const root = path.join(__dirname, '..');
+    const scriptExtension = path.extname(__filename);
+    const roots = [path.join(root, 'examples')];
+    const sources: ExampleSource[] = [];
+    while (roots.length > 0) {
+        const dir = roots.pop()!;
+        for (let name of fs.readdirSync(dir)) {
+            const file = path.join(dir, name);
+            if (fs.statSync(file).isDirectory()) {
+                roots.push(file);
+            }
+            else if (name.endsWith('.aa')) {
+                sources.push({ name: path.relative(root, file), source: file });
+            }
+            else if (name.endsWith(scriptExtension) && !name.endsWith('.d.ts')) {
+                const match = fs.readFileSync(file, 'utf8').match(/const source = `([\s\S]*?)`;/);
+                if (match) {
+                    sources.push({ name: path.relative(root, file), source: Buffer.from(match[1]) });
+                }
+            }
+        }
+    }
+    return sources.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Returns example sources together with the inputs with which the examples are executed; all example
+ * sources must have inputs.
+ */
+export function getExampleRuns(): ExampleRun[] {
+    return getExampleSources().map(example => {
+        const name = example.name.slice(0, -path.extname(example.name).length);
+        const inputs = EXAMPLE_INPUTS[name];
+        if (!inputs) throw new Error(`inputs for ${example.name} are not defined`);
+        return { ...example, ...inputs };
+    });
+}
+
+/**
+ * Generates the execution trace of the example, and evaluates transition constraints over the
+ * composition domain.
+ */
+export function runExample(schema: AirSchema, example: ExampleRun): ExampleResult {
+    const air = instantiate(schema, example.component, { extensionFactor: 16 });
+    const context = air.initProvingContext(example.inputs, example.seed);
+    const trace = context.generateExecutionTrace();
+    const polys = air.field.interpolateRoots(context.executionDomain, trace);
+    const evaluations = context.evaluateTransitionConstraints(polys);
+    return { trace, evaluations };
+}
+
+/**
+ * Returns true if execution traces are the same and constraint evaluations agree at all points of
+ * the smaller of the two composition domains; the domains can differ when one of the schemas has
+ * constraints of a lower degree.
+ */
+export function compareResults(a: ExampleResult, b: ExampleResult): boolean {
+    if (!equalMatrices(a.trace, b.trace, 1, 1)) return false;
+    if (a.evaluations.rowCount !== b.evaluations.rowCount) return false;
+
+    const points = Math.min(a.evaluations.colCount, b.evaluations.colCount);
+    return equalMatrices(a.evaluations, b.evaluations, a.evaluations.colCount / points, b.evaluations.colCount / points);
+}
+
+/**
+ * Prints the result of a check, and makes the test script exit with a non-zero code if the check
+ * has failed.
+ */
+export function check(name: string, passed: boolean): void {
+    console.log(`${name}: ${passed ? 'ok' : 'FAILED'}`);
+    if (!passed) process.exitCode = 1;
+}
+
+// HELPER FUNCTIONS
+// ================================================================================================
+function equalMatrices(a: Matrix, b: Matrix, aStride: number, bStride: number): boolean {
+    if (a.rowCount !== b.rowCount || a.colCount / aStride !== b.colCount / bStride) return false;
+    for (let i = 0; i < a.rowCount; i++) {
+        for (let j = 0; j < a.colCount / aStride; j++) {
+            if (a.getValue(i, j * aStride) !== b.getValue(i, j * bStride)) return false;
+        }
+    }
+    return true;
+}
+
+function toBits(value: bigint) {
+    const bits = value.toString(2).padStart(256, '0').split('');
+    return bits.reverse().map(b => BigInt(b));
+}
\ No newline at end of file